@@ -0,0 +1,26 @@
+/**
+ * OAuth 2.1 protected-resource support for tool and API routes
+ */
+
+export { AuthError, getTokenScopes, loadJwks, verifyJwt } from './jwt';
+export type {
+  AuthErrorCode,
+  Jwks,
+  JwksSource,
+  JwtClaims,
+  VerifyJwtOptions,
+} from './jwt';
+export {
+  AUTH_CLAIMS_HEADER,
+  createProtectedResource,
+  encodeAuthClaims,
+  getAuthClaims,
+  PROTECTED_RESOURCE_METADATA_PATH,
+  withAuth,
+} from './protected-resource';
+export type {
+  AuthInfo,
+  ProtectedResource,
+  ProtectedResourceMetadata,
+  ProtectedResourceOptions,
+} from './protected-resource';
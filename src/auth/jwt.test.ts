@@ -0,0 +1,195 @@
+import { afterEach, describe, expect, mock, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AuthError, verifyJwt, type Jwks } from './jwt';
+
+const encoder = new TextEncoder();
+
+function base64Url(bytes: ArrayBuffer | Uint8Array | string): string {
+  const data = typeof bytes === 'string' ? encoder.encode(bytes) : bytes;
+
+  return Buffer.from(data as ArrayBuffer)
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+async function createKey(kind: 'RSA' | 'EC', kid: string) {
+  const pair = (await crypto.subtle.generateKey(
+    kind === 'RSA'
+      ? {
+          name: 'RSASSA-PKCS1-v1_5',
+          modulusLength: 2048,
+          publicExponent: new Uint8Array([1, 0, 1]),
+          hash: 'SHA-256',
+        }
+      : { name: 'ECDSA', namedCurve: 'P-256' },
+    true,
+    ['sign', 'verify']
+  )) as CryptoKeyPair;
+  // Key sets often omit `alg`, leaving the token header to pick it
+  const { alg: _alg, ...jwk } = await crypto.subtle.exportKey(
+    'jwk',
+    pair.publicKey
+  );
+
+  return { privateKey: pair.privateKey, jwk: { ...jwk, kid } };
+}
+
+const rsa = await createKey('RSA', 'rsa-1');
+const ec = await createKey('EC', 'ec-1');
+const jwks: Jwks = { keys: [rsa.jwk, ec.jwk] };
+
+async function sign(
+  claims: Record<string, unknown>,
+  header: Record<string, unknown> = { alg: 'RS256', kid: 'rsa-1' }
+) {
+  const input = `${base64Url(JSON.stringify(header))}.${base64Url(
+    JSON.stringify(claims)
+  )}`;
+  const signature =
+    header.alg === 'ES256'
+      ? await crypto.subtle.sign(
+          { name: 'ECDSA', hash: 'SHA-256' },
+          ec.privateKey,
+          encoder.encode(input)
+        )
+      : await crypto.subtle.sign(
+          'RSASSA-PKCS1-v1_5',
+          rsa.privateKey,
+          encoder.encode(input)
+        );
+
+  return `${input}.${base64Url(signature)}`;
+}
+
+async function expectInvalid(promise: Promise<unknown>) {
+  const error = await promise.then(
+    () => null,
+    (reason: unknown) => reason
+  );
+
+  expect(error).toBeInstanceOf(AuthError);
+  expect((error as AuthError).code).toBe('invalid_token');
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe('verifyJwt', () => {
+  test('verifies RS256 and ES256 tokens against an inline key set', async () => {
+    const claims = { sub: 'user-1', iss: 'https://auth.test', aud: 'api' };
+
+    expect(
+      await verifyJwt(await sign(claims), {
+        jwks,
+        issuer: 'https://auth.test',
+        audience: 'api',
+      })
+    ).toEqual(claims);
+    expect(
+      await verifyJwt(await sign(claims, { alg: 'ES256', kid: 'ec-1' }), {
+        jwks,
+      })
+    ).toEqual(claims);
+  });
+
+  test('rejects expired tokens and unexpected issuers or audiences', async () => {
+    await expectInvalid(verifyJwt(await sign({ exp: now() - 120 }), { jwks }));
+    await expectInvalid(
+      verifyJwt(await sign({ iss: 'https://evil.test' }), {
+        jwks,
+        issuer: 'https://auth.test',
+      })
+    );
+    await expectInvalid(
+      verifyJwt(await sign({ aud: 'other' }), { jwks, audience: 'api' })
+    );
+  });
+
+  test('rejects a tampered payload', async () => {
+    const [header, , signature] = (await sign({ sub: 'user-1' })).split('.');
+    const forged = base64Url(JSON.stringify({ sub: 'admin' }));
+
+    await expectInvalid(
+      verifyJwt(`${header}.${forged}.${signature}`, { jwks })
+    );
+  });
+
+  test('maps undecodable signatures to invalid_token', async () => {
+    const [header, payload] = (await sign({})).split('.');
+
+    await expectInvalid(verifyJwt(`${header}.${payload}.!!!!`, { jwks }));
+  });
+
+  test('does not verify with a key of another family', async () => {
+    const token = await sign({}, { alg: 'ES256', kid: 'rsa-1' });
+
+    await expectInvalid(verifyJwt(token, { jwks }));
+    await expectInvalid(
+      verifyJwt(token, { jwks: { keys: [{ ...rsa.jwk, kid: undefined }] } })
+    );
+  });
+
+  test('ignores algorithm names inherited from Object.prototype', async () => {
+    await expectInvalid(
+      verifyJwt(await sign({}, { alg: 'toString', kid: 'rsa-1' }), { jwks })
+    );
+    await expectInvalid(
+      verifyJwt(await sign({}, { alg: '__proto__', kid: 'rsa-1' }), { jwks })
+    );
+  });
+
+  test('rejects headers and payloads that are not objects', async () => {
+    await expectInvalid(
+      verifyJwt(`${base64Url('null')}.${base64Url('{}')}.sig`, { jwks })
+    );
+    await expectInvalid(
+      verifyJwt(`${base64Url('{"alg":"RS256"}')}.${base64Url('1')}.sig`, {
+        jwks,
+      })
+    );
+  });
+
+  test('caches a remote key set, refetching at most every 30 seconds', async () => {
+    const responses = [{ keys: [ec.jwk] }, jwks];
+    const fetchMock = mock(async () => Response.json(responses.shift()));
+
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const source = {
+      url: 'https://auth.test/rotating/jwks.json',
+      cacheMaxAge: 60_000,
+    };
+
+    await verifyJwt(await sign({}, { alg: 'ES256', kid: 'ec-1' }), {
+      jwks: source,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // Within the refetch interval, the cached set is used
+    await expectInvalid(verifyJwt(await sign({}), { jwks: source }));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('loads a key set from a file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'jwks-'));
+    const path = join(dir, 'jwks.json');
+
+    await writeFile(path, JSON.stringify(jwks));
+
+    try {
+      expect(
+        await verifyJwt(await sign({ sub: 'a' }), { jwks: { path } })
+      ).toEqual({ sub: 'a' });
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Bearer JWT validation against a JSON Web Key Set
+ *
+ * Uses Web Crypto only, so it runs in the proxy (edge) and in Node.js route
+ * handlers alike.
+ */
+
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  scope?: string;
+  scp?: string[];
+  [claim: string]: unknown;
+}
+
+export interface Jwks {
+  keys: Array<JsonWebKey & { kid?: string; alg?: string; use?: string }>;
+}
+
+/**
+ * Where to load the JSON Web Key Set from
+ */
+export type JwksSource =
+  | { url: string; cacheMaxAge?: number }
+  | { path: string }
+  | Jwks;
+
+export interface VerifyJwtOptions {
+  jwks: JwksSource;
+  issuer?: string | string[];
+  audience?: string | string[];
+
+  /**
+   * Accepted clock skew for `exp` and `nbf`, in seconds (defaults to 60)
+   */
+  clockTolerance?: number;
+}
+
+export type AuthErrorCode =
+  | 'invalid_request'
+  | 'invalid_token'
+  | 'insufficient_scope';
+
+/**
+ * Error raised when a bearer token is missing, invalid or lacks scopes
+ */
+export class AuthError extends Error {
+  declare readonly code: AuthErrorCode;
+  declare readonly status: number;
+
+  constructor(code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+    this.status = {
+      invalid_request: 400,
+      invalid_token: 401,
+      insufficient_scope: 403,
+    }[code];
+  }
+}
+
+const ALGORITHMS: Record<
+  string,
+  {
+    kty: 'RSA' | 'EC';
+    import: RsaHashedImportParams | EcKeyImportParams;
+    verify: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+  }
+> = {
+  RS256: {
+    kty: 'RSA',
+    import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    verify: 'RSASSA-PKCS1-v1_5',
+  },
+  RS384: {
+    kty: 'RSA',
+    import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+    verify: 'RSASSA-PKCS1-v1_5',
+  },
+  RS512: {
+    kty: 'RSA',
+    import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+    verify: 'RSASSA-PKCS1-v1_5',
+  },
+  PS256: {
+    kty: 'RSA',
+    import: { name: 'RSA-PSS', hash: 'SHA-256' },
+    verify: { name: 'RSA-PSS', saltLength: 32 },
+  },
+  PS384: {
+    kty: 'RSA',
+    import: { name: 'RSA-PSS', hash: 'SHA-384' },
+    verify: { name: 'RSA-PSS', saltLength: 48 },
+  },
+  PS512: {
+    kty: 'RSA',
+    import: { name: 'RSA-PSS', hash: 'SHA-512' },
+    verify: { name: 'RSA-PSS', saltLength: 64 },
+  },
+  ES256: {
+    kty: 'EC',
+    import: { name: 'ECDSA', namedCurve: 'P-256' },
+    verify: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+  ES384: {
+    kty: 'EC',
+    import: { name: 'ECDSA', namedCurve: 'P-384' },
+    verify: { name: 'ECDSA', hash: 'SHA-384' },
+  },
+  ES512: {
+    kty: 'EC',
+    import: { name: 'ECDSA', namedCurve: 'P-521' },
+    verify: { name: 'ECDSA', hash: 'SHA-512' },
+  },
+};
+
+const DEFAULT_JWKS_MAX_AGE = 10 * 60 * 1000;
+const MIN_JWKS_REFETCH_INTERVAL = 30 * 1000;
+
+const jwksCache = new Map<string, { jwks: Promise<Jwks>; fetchedAt: number }>();
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(
+    base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=')
+  );
+
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)));
+}
+
+async function fetchJwks(url: string): Promise<Jwks> {
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json' },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to load JWKS from ${url}: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+async function readJwksFile(path: string): Promise<Jwks> {
+  const { readFile } = await import('node:fs/promises');
+
+  return JSON.parse(await readFile(path, 'utf8'));
+}
+
+/**
+ * Loads a JSON Web Key Set, caching remote and file sets
+ */
+export async function loadJwks(
+  source: JwksSource,
+  { forceRefresh = false } = {}
+): Promise<Jwks> {
+  if ('keys' in source) {
+    return source;
+  }
+
+  const cacheKey = 'url' in source ? source.url : `file:${source.path}`;
+  const maxAge =
+    'url' in source
+      ? (source.cacheMaxAge ?? DEFAULT_JWKS_MAX_AGE)
+      : Number.POSITIVE_INFINITY;
+  const cached = jwksCache.get(cacheKey);
+  const age = cached ? Date.now() - cached.fetchedAt : Number.POSITIVE_INFINITY;
+
+  if (
+    cached &&
+    age < maxAge &&
+    !(forceRefresh && age > MIN_JWKS_REFETCH_INTERVAL)
+  ) {
+    return cached.jwks;
+  }
+
+  const jwks =
+    'url' in source ? fetchJwks(source.url) : readJwksFile(source.path);
+
+  jwksCache.set(cacheKey, { jwks, fetchedAt: Date.now() });
+  jwks.catch(() => jwksCache.delete(cacheKey));
+
+  return jwks;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesAny(value: string | undefined, expected: string | string[]) {
+  return (
+    value !== undefined && ([] as string[]).concat(expected).includes(value)
+  );
+}
+
+/**
+ * Returns the scopes granted by a token (`scope` string or `scp` array)
+ */
+export function getTokenScopes(claims: JwtClaims): string[] {
+  if (typeof claims.scope === 'string') {
+    return claims.scope.split(' ').filter(Boolean);
+  }
+
+  return Array.isArray(claims.scp) ? claims.scp : [];
+}
+
+/**
+ * Verifies a JWT signature and its registered claims
+ *
+ * @throws {AuthError} With code `invalid_token` when verification fails
+ */
+export async function verifyJwt(
+  token: string,
+  options: VerifyJwtOptions
+): Promise<JwtClaims> {
+  const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+
+  if (!encodedHeader || !encodedPayload || !encodedSignature) {
+    throw new AuthError('invalid_token', 'Malformed token');
+  }
+
+  let header: { alg?: string; kid?: string };
+  let claims: JwtClaims;
+
+  try {
+    header = decodeSegment(encodedHeader);
+    claims = decodeSegment(encodedPayload);
+  } catch {
+    throw new AuthError('invalid_token', 'Malformed token');
+  }
+
+  if (!isObject(header) || !isObject(claims)) {
+    throw new AuthError('invalid_token', 'Malformed token');
+  }
+
+  // An own-property lookup, so names like "toString" are not algorithms
+  const algorithm =
+    typeof header.alg === 'string' && Object.hasOwn(ALGORITHMS, header.alg)
+      ? ALGORITHMS[header.alg]
+      : undefined;
+
+  if (!algorithm) {
+    throw new AuthError(
+      'invalid_token',
+      `Unsupported algorithm: ${header.alg}`
+    );
+  }
+
+  const findKey = (jwks: Jwks) =>
+    jwks.keys.find(
+      key =>
+        (header.kid === undefined || key.kid === header.kid) &&
+        (key.alg === undefined || key.alg === header.alg) &&
+        key.kty === algorithm.kty &&
+        key.use !== 'enc'
+    );
+
+  let jwk = findKey(await loadJwks(options.jwks));
+
+  // Keys may have been rotated since the set was cached
+  if (!jwk && header.kid) {
+    jwk = findKey(await loadJwks(options.jwks, { forceRefresh: true }));
+  }
+
+  if (!jwk) {
+    throw new AuthError('invalid_token', 'No matching signing key');
+  }
+
+  let valid: boolean;
+
+  // Undecodable signatures and keys that don't fit the algorithm (e.g. an
+  // ES256 token against a P-384 key) make Web Crypto throw DOMExceptions
+  try {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      jwk,
+      algorithm.import,
+      false,
+      ['verify']
+    );
+
+    valid = await crypto.subtle.verify(
+      algorithm.verify,
+      key,
+      base64UrlDecode(encodedSignature),
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+    );
+  } catch {
+    throw new AuthError('invalid_token', 'Invalid token signature');
+  }
+
+  if (!valid) {
+    throw new AuthError('invalid_token', 'Invalid token signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockTolerance ?? 60;
+
+  if (typeof claims.exp === 'number' && claims.exp + tolerance < now) {
+    throw new AuthError('invalid_token', 'Token has expired');
+  }
+
+  if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+    throw new AuthError('invalid_token', 'Token is not yet valid');
+  }
+
+  if (options.issuer && !matchesAny(claims.iss, options.issuer)) {
+    throw new AuthError('invalid_token', 'Unexpected token issuer');
+  }
+
+  if (options.audience) {
+    const audiences = ([] as string[]).concat(claims.aud ?? []);
+
+    if (!audiences.some(audience => matchesAny(audience, options.audience!))) {
+      throw new AuthError('invalid_token', 'Unexpected token audience');
+    }
+  }
+
+  return claims;
+}
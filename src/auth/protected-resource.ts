@@ -0,0 +1,383 @@
+/**
+ * OAuth 2.1 protected resource (RFC 9728 metadata and RFC 6750 bearer tokens)
+ */
+
+import { getBaseURL } from '../utils/base-url';
+import {
+  AuthError,
+  getTokenScopes,
+  verifyJwt,
+  type JwksSource,
+  type JwtClaims,
+} from './jwt';
+
+export const PROTECTED_RESOURCE_METADATA_PATH =
+  '/.well-known/oauth-protected-resource';
+
+/**
+ * Request header the proxy forwards validated claims on
+ */
+export const AUTH_CLAIMS_HEADER = 'x-chatgpt-auth-claims';
+
+/**
+ * An authenticated bearer token
+ */
+export interface AuthInfo {
+  token: string;
+  claims: JwtClaims;
+  scopes: string[];
+  subject?: string;
+}
+
+export interface ProtectedResourceOptions {
+  /**
+   * Resource identifier tokens must be issued for (defaults to
+   * `getBaseURL()`)
+   */
+  resource?: string;
+
+  /**
+   * Issuer identifiers of the authorization servers that issue tokens
+   */
+  authorizationServers: string[];
+
+  /**
+   * Keys tokens are signed with: `{ url }`, `{ path }` to a local JWKS file,
+   * or an inline `{ keys }` set
+   */
+  jwks: JwksSource;
+
+  /**
+   * Accepted `iss` values (defaults to `authorizationServers`)
+   */
+  issuer?: string | string[];
+
+  /**
+   * Accepted `aud` values (defaults to `resource`)
+   */
+  audience?: string | string[];
+
+  /**
+   * Scopes advertised in the metadata document
+   */
+  scopesSupported?: string[];
+
+  /**
+   * Scopes every token must carry
+   */
+  requiredScopes?: string[];
+
+  /**
+   * Paths the proxy rejects without a valid token. String paths match by
+   * prefix.
+   */
+  protectedPaths?: Array<string | RegExp>;
+
+  resourceName?: string;
+  resourceDocumentation?: string;
+
+  /**
+   * Accepted clock skew for `exp` and `nbf`, in seconds (defaults to 60)
+   */
+  clockTolerance?: number;
+}
+
+export interface ProtectedResourceMetadata {
+  resource: string;
+  authorization_servers: string[];
+  bearer_methods_supported: string[];
+  scopes_supported?: string[];
+  resource_name?: string;
+  resource_documentation?: string;
+}
+
+export interface ProtectedResource {
+  /**
+   * Path the metadata document is served from
+   */
+  readonly metadataPath: string;
+
+  /**
+   * Whether the proxy must reject requests to a path without a valid token
+   */
+  isProtectedPath: (pathname: string) => boolean;
+
+  getMetadata: () => ProtectedResourceMetadata;
+
+  /**
+   * Absolute URL of the metadata document
+   */
+  getMetadataUrl: () => string;
+
+  /**
+   * Validates the request's bearer token
+   *
+   * @returns `null` when the request carries no token
+   * @throws {AuthError} When the token is malformed, invalid or lacks the
+   * required scopes
+   */
+  authenticate: (request: Request) => Promise<AuthInfo | null>;
+
+  /**
+   * Builds the `WWW-Authenticate` header value for a failed request
+   */
+  getChallenge: (error?: AuthError, scopes?: string[]) => string;
+
+  /**
+   * Builds a 401 (or 400/403) response carrying the `WWW-Authenticate`
+   * challenge
+   */
+  challenge: (error?: AuthError) => Response;
+
+  /**
+   * Serves the metadata document
+   */
+  metadataResponse: () => Response;
+}
+
+function quote(value: string) {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function toBase64Url(value: string) {
+  const binary = Array.from(new TextEncoder().encode(value), byte =>
+    String.fromCharCode(byte)
+  ).join('');
+
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+
+  return new TextDecoder().decode(
+    Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+  );
+}
+
+/**
+ * Encodes claims for the `x-chatgpt-auth-claims` request header
+ */
+export function encodeAuthClaims(claims: JwtClaims): string {
+  return toBase64Url(JSON.stringify(claims));
+}
+
+/**
+ * Reads the claims the proxy validated for the current request
+ *
+ * The proxy strips this header from incoming requests, so it can only be
+ * trusted on paths the proxy configured with `auth` runs on.
+ *
+ * @example
+ * ```ts
+ * // app/api/orders/route.ts
+ * import { headers } from 'next/headers';
+ * import { getAuthClaims } from 'next-chatgpt-apps/auth';
+ *
+ * export async function GET() {
+ *   const claims = getAuthClaims(await headers());
+ *   return Response.json(await listOrders(claims?.sub));
+ * }
+ * ```
+ */
+export function getAuthClaims(headers: Headers): JwtClaims | null {
+  const value = headers.get(AUTH_CLAIMS_HEADER);
+
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(fromBase64Url(value));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Creates an OAuth 2.1 protected resource that validates bearer JWTs
+ *
+ * Pass it as `auth` to `createChatGPTProxy` to serve the metadata document
+ * and guard `protectedPaths`, and to `createMcpHandler` to authenticate
+ * tool calls.
+ *
+ * @example
+ * ```ts
+ * // lib/auth.ts
+ * import { createProtectedResource } from 'next-chatgpt-apps/auth';
+ *
+ * export const auth = createProtectedResource({
+ *   authorizationServers: ['https://auth.example.com'],
+ *   jwks: { url: 'https://auth.example.com/.well-known/jwks.json' },
+ *   scopesSupported: ['orders:read'],
+ *   protectedPaths: ['/api/orders'],
+ * });
+ * ```
+ */
+export function createProtectedResource(
+  options: ProtectedResourceOptions
+): ProtectedResource {
+  const getResource = () => options.resource ?? getBaseURL();
+
+  const getMetadataPathFor = (resource: string) => {
+    const { pathname } = new URL(resource);
+
+    // RFC 9728: the resource path is appended to the well-known path
+    return pathname === '/'
+      ? PROTECTED_RESOURCE_METADATA_PATH
+      : `${PROTECTED_RESOURCE_METADATA_PATH}${pathname.replace(/\/$/, '')}`;
+  };
+
+  const getChallenge = (error?: AuthError, scopes = options.requiredScopes) => {
+    const params = [];
+
+    if (error) {
+      params.push(`error=${quote(error.code)}`);
+      params.push(`error_description=${quote(error.message)}`);
+    }
+
+    if (scopes?.length) {
+      params.push(`scope=${quote(scopes.join(' '))}`);
+    }
+
+    params.push(`resource_metadata=${quote(resource.getMetadataUrl())}`);
+
+    return `Bearer ${params.join(', ')}`;
+  };
+
+  const resource: ProtectedResource = {
+    get metadataPath() {
+      return getMetadataPathFor(getResource());
+    },
+
+    isProtectedPath: pathname =>
+      (options.protectedPaths ?? []).some(path =>
+        typeof path === 'string'
+          ? pathname.startsWith(path)
+          : path.test(pathname)
+      ),
+
+    getMetadata: () => ({
+      resource: getResource(),
+      authorization_servers: options.authorizationServers,
+      bearer_methods_supported: ['header'],
+      ...(options.scopesSupported
+        ? { scopes_supported: options.scopesSupported }
+        : {}),
+      ...(options.resourceName ? { resource_name: options.resourceName } : {}),
+      ...(options.resourceDocumentation
+        ? { resource_documentation: options.resourceDocumentation }
+        : {}),
+    }),
+
+    getMetadataUrl: () => {
+      const current = getResource();
+
+      return new URL(getMetadataPathFor(current), current).toString();
+    },
+
+    authenticate: async request => {
+      const authorization = request.headers.get('authorization');
+
+      if (!authorization) {
+        return null;
+      }
+
+      const [scheme = '', token] = authorization.split(' ');
+
+      if (scheme.toLowerCase() !== 'bearer' || !token) {
+        throw new AuthError(
+          'invalid_request',
+          'Expected an "Authorization: Bearer <token>" header'
+        );
+      }
+
+      const claims = await verifyJwt(token, {
+        jwks: options.jwks,
+        issuer: options.issuer ?? options.authorizationServers,
+        audience: options.audience ?? getResource(),
+        clockTolerance: options.clockTolerance,
+      });
+      const scopes = getTokenScopes(claims);
+      const missing = (options.requiredScopes ?? []).filter(
+        scope => !scopes.includes(scope)
+      );
+
+      if (missing.length > 0) {
+        throw new AuthError(
+          'insufficient_scope',
+          `Missing required scopes: ${missing.join(' ')}`
+        );
+      }
+
+      return { token, claims, scopes, subject: claims.sub };
+    },
+
+    getChallenge,
+
+    challenge: error =>
+      Response.json(
+        error
+          ? { error: error.code, error_description: error.message }
+          : { error: 'unauthorized', error_description: 'Missing token' },
+        {
+          status: error?.status ?? 401,
+          headers: { 'WWW-Authenticate': getChallenge(error) },
+        }
+      ),
+
+    metadataResponse: () =>
+      Response.json(resource.getMetadata(), {
+        headers: { 'Cache-Control': 'public, max-age=3600' },
+      }),
+  };
+
+  return resource;
+}
+
+/**
+ * Wraps an App Router route handler so it only runs with a valid bearer
+ * token, for routes the proxy does not guard
+ *
+ * @example
+ * ```ts
+ * // app/api/orders/route.ts
+ * import { withAuth } from 'next-chatgpt-apps/auth';
+ * import { auth } from '@/lib/auth';
+ *
+ * export const GET = withAuth(auth, async (request, { auth }) =>
+ *   Response.json(await listOrders(auth.subject))
+ * );
+ * ```
+ */
+export function withAuth<TContext extends object = object>(
+  resource: ProtectedResource,
+  handler: (
+    request: Request,
+    context: TContext & { auth: AuthInfo }
+  ) => Response | Promise<Response>
+) {
+  return async function authenticatedHandler(
+    request: Request,
+    context: TContext
+  ): Promise<Response> {
+    try {
+      const auth = await resource.authenticate(request);
+
+      if (!auth) {
+        return resource.challenge();
+      }
+
+      return await handler(request, { ...context, auth });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return resource.challenge(error);
+      }
+
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,130 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+
+/**
+ * next-chatgpt-apps command line
+ *
+ * Runs under plain Node.js, so relative imports carry their `.js` extension.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import {
+  renderRouteToolManifest,
+  scanAppRoutes,
+} from '../mcp/route-scanner.js';
+import {
+  fetchMcpTools,
+  readToolDescriptors,
+  renderToolTypes,
+} from '../mcp/tool-types.js';
+
+const HELP = `Usage: next-chatgpt-apps <command> [options]
+
+Commands:
+  generate-tools   Generate MCP tools from pages exporting \`chatgptTool\`
+    --app <dir>      App Router directory (default: app or src/app)
+    --out <file>     Output module (default: chatgpt-tools.generated.ts)
+    --export <name>  Page export to read (default: chatgptTool)
+    --all            Include pages without a config
+
+  generate-types   Generate tool types for \`createToolClient\`
+    --url <url>      MCP endpoint to list tools from (e.g. http://localhost:3000/mcp)
+    --file <file>    JSON file with a tools/list result instead of --url
+    --header <h>     Request header for --url (e.g. "Authorization: Bearer ...")
+    --out <file>     Output declarations (default: chatgpt-tools.d.ts)
+    --name <name>    Interface name (default: ChatGPTTools)
+`;
+
+function parseFlags(args: string[]) {
+  const flags: Record<string, string | boolean> = {};
+
+  args.forEach((arg, index) => {
+    if (!arg.startsWith('--')) return;
+
+    const next = args[index + 1];
+
+    flags[arg.slice(2)] = next && !next.startsWith('--') ? next : true;
+  });
+
+  return flags;
+}
+
+async function writeOutput(out: string, contents: string) {
+  await mkdir(dirname(out), { recursive: true });
+  await writeFile(out, contents);
+}
+
+async function generateTools(flags: Record<string, string | boolean>) {
+  const out =
+    typeof flags.out === 'string' ? flags.out : 'chatgpt-tools.generated.ts';
+  const tools = await scanAppRoutes({
+    appDir: typeof flags.app === 'string' ? flags.app : undefined,
+    exportName: typeof flags.export === 'string' ? flags.export : undefined,
+    includeAll: flags.all === true,
+  });
+
+  await writeOutput(out, renderRouteToolManifest(tools));
+
+  console.log(`Generated ${tools.length} route tool(s) in ${out}`);
+  tools.forEach(tool => console.log(`  ${tool.route}  (${tool.file})`));
+}
+
+async function generateTypes(flags: Record<string, string | boolean>) {
+  const out = typeof flags.out === 'string' ? flags.out : 'chatgpt-tools.d.ts';
+  const [headerName = '', ...headerValue] =
+    typeof flags.header === 'string' ? flags.header.split(':') : [];
+  let tools;
+
+  if (typeof flags.file === 'string') {
+    tools = readToolDescriptors(JSON.parse(await readFile(flags.file, 'utf8')));
+  } else if (typeof flags.url === 'string') {
+    tools = await fetchMcpTools(flags.url, {
+      headers: headerName
+        ? { [headerName.trim()]: headerValue.join(':').trim() }
+        : undefined,
+    });
+  } else {
+    throw new Error('generate-types needs --url or --file');
+  }
+
+  await writeOutput(
+    out,
+    renderToolTypes(tools, {
+      interfaceName: typeof flags.name === 'string' ? flags.name : undefined,
+    })
+  );
+
+  console.log(`Generated types for ${tools.length} tool(s) in ${out}`);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const flags = parseFlags(args);
+
+  switch (command) {
+    case 'generate-tools':
+      return generateTools(flags);
+
+    case 'generate-types':
+      return generateTypes(flags);
+
+    case undefined:
+    case 'help':
+    case '--help':
+      console.log(HELP);
+
+      return undefined;
+
+    default:
+      console.error(`Unknown command: ${command}\n\n${HELP}`);
+      process.exitCode = 1;
+
+      return undefined;
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
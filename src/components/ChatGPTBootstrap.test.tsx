@@ -0,0 +1,209 @@
+import { afterEach, describe, expect, mock, test } from 'bun:test';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { setupDom } from '../test-utils/render';
+import {
+  ChatGPTBootstrap,
+  type ChatGPTBootstrapPatches,
+} from './ChatGPTBootstrap';
+
+setupDom();
+
+const APP = 'https://app.test';
+const SANDBOX = 'https://abc123.web-sandbox.oaiusercontent.com';
+
+const NO_PATCHES: ChatGPTBootstrapPatches = {
+  history: false,
+  fetch: false,
+  xhr: false,
+  eventSource: false,
+  webSocket: false,
+  beacon: false,
+  links: false,
+  htmlAttributes: false,
+};
+
+/**
+ * Returns the patch script `ChatGPTBootstrap` renders with `patches`
+ */
+function renderPatchScript(patches: ChatGPTBootstrapPatches) {
+  const markup = renderToStaticMarkup(
+    <ChatGPTBootstrap
+      baseUrl={APP}
+      devtools={false}
+      patches={{ ...NO_PATCHES, ...patches }}
+    />
+  );
+
+  return [...markup.matchAll(/<script>([\s\S]*?)<\/script>/g)][2]![1]!;
+}
+
+/**
+ * Runs the rendered patch script against a fake sandbox window and returns
+ * the patched `fetch` with the mock it forwards to
+ */
+function installFetchPatch() {
+  const script = renderPatchScript({ fetch: true });
+  const originalFetch = mock(
+    async (_input: RequestInfo | URL, _init?: RequestInit) =>
+      new Response(null, { headers: { 'X-Action-Revalidated': '[[],1,0]' } })
+  );
+  const window = {
+    innerBaseUrl: APP,
+    __isChatGptApp: true,
+    location: { href: `${SANDBOX}/products?page=2`, origin: SANDBOX },
+    self: {},
+    top: {},
+    fetch: originalFetch,
+  };
+
+  new Function('window', script)(window);
+
+  return {
+    fetch: window.fetch as unknown as typeof fetch,
+    originalFetch,
+  };
+}
+
+describe('ChatGPTBootstrap fetch patch', () => {
+  test('sends RSC navigations and prefetches to the app origin', async () => {
+    const { fetch, originalFetch } = installFetchPatch();
+    const headers = {
+      RSC: '1',
+      'Next-Router-State-Tree': '%5B%22%22%5D',
+      'Next-Router-Prefetch': '1',
+    };
+
+    await fetch(`${SANDBOX}/products/42?_rsc=x1`, { headers });
+
+    expect(originalFetch).toHaveBeenCalledWith(`${APP}/products/42?_rsc=x1`, {
+      headers,
+      mode: 'cors',
+    });
+  });
+
+  test('sends Server Actions to the current page on the app origin', async () => {
+    const { fetch, originalFetch } = installFetchPatch();
+    const body = new FormData();
+
+    body.append('quantity', '2');
+
+    const response = await fetch('', {
+      method: 'POST',
+      headers: { Accept: 'text/x-component', 'Next-Action': 'abc123' },
+      body,
+    });
+
+    expect(originalFetch).toHaveBeenCalledWith(`${APP}/products?page=2`, {
+      method: 'POST',
+      headers: { Accept: 'text/x-component', 'Next-Action': 'abc123' },
+      body,
+      mode: 'cors',
+    });
+    // The router reads the `revalidatePath` result from the response
+    expect(response.headers.get('X-Action-Revalidated')).toBe('[[],1,0]');
+  });
+
+  test('copies Request objects with their headers and body', async () => {
+    const { fetch, originalFetch } = installFetchPatch();
+
+    await fetch(
+      new Request(`${SANDBOX}/checkout`, {
+        method: 'POST',
+        headers: { 'Next-Action': 'abc123' },
+        body: '["cart-1"]',
+      })
+    );
+
+    const request = originalFetch.mock.calls[0]![0] as Request;
+
+    expect(request.url).toBe(`${APP}/checkout`);
+    expect(request.headers.get('Next-Action')).toBe('abc123');
+    expect(await request.text()).toBe('["cart-1"]');
+  });
+
+  test('leaves requests to other origins alone', async () => {
+    const { fetch, originalFetch } = installFetchPatch();
+    const init = { headers: { RSC: '1' } };
+
+    await fetch('https://api.example.com/data', init);
+
+    expect(originalFetch).toHaveBeenCalledWith(
+      'https://api.example.com/data',
+      init
+    );
+  });
+});
+
+describe('ChatGPTBootstrap html attribute guard', () => {
+  const observers: MutationObserver[] = [];
+  const html = () => document.documentElement;
+
+  afterEach(() => {
+    observers.splice(0).forEach(observer => observer.disconnect());
+    ['lang', 'data-theme', 'data-injected'].forEach(name =>
+      html().removeAttribute(name)
+    );
+    delete window.__chatGptHtmlAttributes;
+    delete window.__isChatGptApp;
+    delete window.innerBaseUrl;
+  });
+
+  /**
+   * Runs the guard in the DOM, keeping its observer to disconnect later
+   */
+  function installGuard(htmlAttributes: boolean | string[]) {
+    const script = renderPatchScript({ htmlAttributes });
+    const { MutationObserver } = globalThis;
+
+    Object.assign(window, { innerBaseUrl: APP, __isChatGptApp: true });
+    globalThis.MutationObserver = class extends MutationObserver {
+      constructor(callback: MutationCallback) {
+        super(callback);
+        observers.push(this);
+      }
+    };
+
+    try {
+      new Function(script)();
+    } finally {
+      globalThis.MutationObserver = MutationObserver;
+    }
+  }
+
+  const setAttributes = async (attributes: Record<string, string>) => {
+    Object.entries(attributes).forEach(([name, value]) =>
+      html().setAttribute(name, value)
+    );
+    // Mutation records are delivered in a microtask
+    await Bun.sleep(0);
+  };
+
+  test('removes attributes the host injects into <html>', async () => {
+    installGuard(true);
+
+    await setAttributes({ 'data-injected': '1', suppressHydrationWarning: '' });
+
+    expect(html().hasAttribute('data-injected')).toBe(false);
+    expect(html().hasAttribute('suppresshydrationwarning')).toBe(true);
+  });
+
+  test('keeps the attributes listed in the patch option', async () => {
+    installGuard(['lang']);
+
+    await setAttributes({ lang: 'pt', 'data-injected': '1' });
+
+    expect(html().getAttribute('lang')).toBe('pt');
+    expect(html().hasAttribute('data-injected')).toBe(false);
+  });
+
+  test('keeps attributes registered at runtime', async () => {
+    installGuard(true);
+    await setAttributes({ 'data-theme': 'dark' });
+    expect(html().hasAttribute('data-theme')).toBe(false);
+
+    window.__chatGptHtmlAttributes = ['data-theme'];
+    await setAttributes({ 'data-theme': 'dark' });
+
+    expect(html().getAttribute('data-theme')).toBe('dark');
+  });
+});
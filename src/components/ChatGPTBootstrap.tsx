@@ -5,144 +5,462 @@
  * Sets up ChatGPT integration with all necessary patches and base URL configuration
  */
 
-import { getBaseURL } from '../utils/base-url';
+import type { ChatGPTConfig } from '../types/chatgpt';
+import { checkBaseURLConsistency, getBaseURL } from '../utils/base-url';
 
 declare global {
   interface Window {
     innerBaseUrl?: string;
     __isChatGptApp?: boolean;
+    /**
+     * `<html>` attributes the attribute guard leaves alone, registered at
+     * runtime (e.g. by `ChatGPTThemeProvider`)
+     */
+    __chatGptHtmlAttributes?: string[];
+    /**
+     * URL rewrites recorded for `ChatGPTDevtools`, oldest first
+     */
+    __chatGptRewrites?: BootstrapRewrite[];
+  }
+
+  interface WindowEventMap {
+    [BOOTSTRAP_REWRITE_EVENT_TYPE]: CustomEvent<BootstrapRewrite>;
+  }
+}
+
+/**
+ * Event dispatched on `window` for each URL the patches rewrite, when
+ * `devtools` is on
+ */
+export const BOOTSTRAP_REWRITE_EVENT_TYPE = 'next-chatgpt-apps:rewrite';
+
+/**
+ * A URL the bootstrap patches sent somewhere else
+ */
+export interface BootstrapRewrite {
+  kind:
+    | 'push'
+    | 'replace'
+    | 'fetch'
+    | 'xhr'
+    | 'event source'
+    | 'websocket'
+    | 'beacon';
+  from: string;
+  to: string;
+  timestamp: number;
+}
+
+export interface ChatGPTBootstrapPatches {
+  /**
+   * Rewrite `history.pushState`/`replaceState` URLs onto the iframe origin
+   */
+  history?: boolean;
+
+  /**
+   * Send same-origin `fetch` requests to the app origin
+   */
+  fetch?: boolean;
+
+  /**
+   * Send same-origin `XMLHttpRequest`s (e.g. axios) to the app origin
+   */
+  xhr?: boolean;
+
+  /**
+   * Open same-origin `EventSource` streams on the app origin
+   */
+  eventSource?: boolean;
+
+  /**
+   * Open same-origin `WebSocket`s on the app origin
+   */
+  webSocket?: boolean;
+
+  /**
+   * Send same-origin `navigator.sendBeacon` requests to the app origin
+   */
+  beacon?: boolean;
+
+  /**
+   * Open links to other origins through `openai.openExternal` (defaults to
+   * `enableExternalLinks`)
+   */
+  links?: boolean;
+
+  /**
+   * Remove attributes set on `<html>` after load. Pass the attribute names a
+   * library such as next-themes needs to set (e.g. `['class']`) to keep
+   * those, or `false` to turn the guard off.
+   */
+  htmlAttributes?: boolean | string[];
+}
+
+export interface ChatGPTBootstrapProps extends Partial<ChatGPTConfig> {
+  /**
+   * Browser patches to apply inside ChatGPT (all enabled by default)
+   */
+  patches?: ChatGPTBootstrapPatches;
+
+  /**
+   * Record URL rewrites for `ChatGPTDevtools` (defaults to `true` in
+   * development)
+   */
+  devtools?: boolean;
+}
+
+interface BootstrapScriptConfig {
+  baseUrl: string;
+  debug: boolean;
+  devtools: boolean;
+  patches: Required<ChatGPTBootstrapPatches>;
+}
+
+let warnedBaseUrl: string | undefined;
+
+function warnOnBaseUrlMismatch(baseUrl: string) {
+  const mismatch = checkBaseURLConsistency(baseUrl);
+
+  if (mismatch && warnedBaseUrl !== baseUrl) {
+    warnedBaseUrl = baseUrl;
+    // eslint-disable-next-line no-console
+    console.warn(`[next-chatgpt-apps] ${mismatch}`);
+  }
+}
+
+/**
+ * Runs in the page before hydration, so it must not reference anything
+ * outside its own body
+ */
+function installBootstrapPatches(config: BootstrapScriptConfig) {
+  const baseUrl = window.innerBaseUrl;
+
+  if (!window.__isChatGptApp || !baseUrl) {
+    return;
+  }
+
+  const log = (...args: unknown[]) => {
+    if (config.debug) {
+      // eslint-disable-next-line no-console
+      console.log('[next-chatgpt-apps]', ...args);
+    }
+  };
+
+  // The event type repeats BOOTSTRAP_REWRITE_EVENT_TYPE, as this function
+  // is serialized into the page
+  const record = (
+    kind: BootstrapRewrite['kind'],
+    from: string | URL,
+    to: string
+  ) => {
+    if (!config.devtools) return;
+
+    const rewrite = { kind, from: String(from), to, timestamp: Date.now() };
+    const rewrites = (window.__chatGptRewrites =
+      window.__chatGptRewrites ?? []);
+
+    rewrites.push(rewrite);
+
+    if (rewrites.length > 200) {
+      rewrites.shift();
+    }
+
+    window.dispatchEvent(
+      new CustomEvent('next-chatgpt-apps:rewrite', { detail: rewrite })
+    );
+  };
+
+  if (config.patches.htmlAttributes) {
+    const htmlElement = document.documentElement;
+    const allowed = Array.isArray(config.patches.htmlAttributes)
+      ? config.patches.htmlAttributes
+      : [];
+    const isAllowed = (name: string) =>
+      name === 'suppresshydrationwarning' ||
+      allowed.includes(name) ||
+      (window.__chatGptHtmlAttributes ?? []).includes(name);
+    const observer = new MutationObserver(mutations => {
+      mutations.forEach(mutation => {
+        if (mutation.type === 'attributes' && mutation.target === htmlElement) {
+          const attrName = mutation.attributeName;
+
+          if (attrName && !isAllowed(attrName)) {
+            log('remove html attribute', attrName);
+            htmlElement.removeAttribute(attrName);
+          }
+        }
+      });
+    });
+
+    observer.observe(htmlElement, {
+      attributes: true,
+      attributeOldValue: true,
+    });
+  }
+
+  if (config.patches.history) {
+    const originalReplaceState = history.replaceState;
+
+    history.replaceState = (state, unused, url) => {
+      const u = new URL(url ?? '', window.location.href);
+      const href = u.pathname + u.search + u.hash;
+
+      log('replace', href);
+
+      if (url != null && String(url) !== href) {
+        record('replace', url, href);
+      }
+      originalReplaceState.call(history, state, unused, href);
+    };
+
+    const originalPushState = history.pushState;
+
+    history.pushState = (state, unused, url) => {
+      const u = new URL(url ?? '', window.location.href);
+      const href = u.pathname + u.search + u.hash;
+
+      log('push', href);
+
+      if (url != null && String(url) !== href) {
+        record('push', url, href);
+      }
+      originalPushState.call(history, state, unused, href);
+    };
+  }
+
+  const appOrigin = new URL(baseUrl).origin;
+  const isInIframe = window.self !== window.top;
+
+  if (config.patches.links) {
+    window.addEventListener(
+      'click',
+      e => {
+        const a = (e?.target as HTMLElement)?.closest('a');
+
+        if (!a || !a.href) return;
+
+        const url = new URL(a.href, window.location.href);
+
+        if (url.origin !== window.location.origin && url.origin != appOrigin) {
+          try {
+            if (window.openai) {
+              log('open external', a.href);
+              window.openai?.openExternal({ href: a.href });
+              e.preventDefault();
+            }
+          } catch {
+            log('openExternal failed, likely not in OpenAI client');
+          }
+        }
+      },
+      true
+    );
+  }
+
+  // Everything below rewrites requests to the sandbox origin
+  if (!isInIframe || window.location.origin === appOrigin) {
+    return;
+  }
+
+  /**
+   * Points a same-origin or app-origin URL at the app origin, keeping
+   * WebSocket schemes. Returns `null` for other origins.
+   */
+  const rewriteUrl = (input: string | URL): string | null => {
+    const url = new URL(input, window.location.href);
+    const isSocket = url.protocol === 'ws:' || url.protocol === 'wss:';
+    const origin = `${url.protocol.replace(/^ws/, 'http')}//${url.host}`;
+
+    if (origin !== appOrigin && origin !== window.location.origin) {
+      return null;
+    }
+
+    const target = new URL(url.pathname + url.search + url.hash, baseUrl);
+
+    if (isSocket) {
+      target.protocol = target.protocol.replace(/^http/, 'ws');
+    }
+
+    return target.toString();
+  };
+
+  if (config.patches.fetch) {
+    const originalFetch = window.fetch;
+
+    /**
+     * Copies a `Request` onto the app origin with every header and option.
+     * The body is buffered: passing its stream on needs `duplex: 'half'`,
+     * which only Chromium supports.
+     */
+    const toAppRequest = async (request: Request, target: string) =>
+      new Request(target, {
+        method: request.method,
+        headers: request.headers,
+        body:
+          request.method === 'GET' || request.method === 'HEAD'
+            ? null
+            : await request.arrayBuffer(),
+        mode: 'cors',
+        credentials: request.credentials,
+        cache: request.cache,
+        redirect: request.redirect,
+        referrerPolicy: request.referrerPolicy,
+        integrity: request.integrity,
+        keepalive: request.keepalive,
+        signal: request.signal,
+      });
+
+    // @ts-expect-error ignore fetch patching
+    window.fetch = (input: URL | RequestInfo, init?: RequestInit) => {
+      const isUrl = typeof input === 'string' || input instanceof URL;
+      const target = rewriteUrl(isUrl ? input : input.url);
+
+      if (!target) {
+        return originalFetch.call(window, input, init);
+      }
+
+      log('fetch', target);
+      record('fetch', isUrl ? input : input.url, target);
+
+      // With a URL, `init` passes through untouched, keeping RSC and Server
+      // Action headers, `FormData` boundaries and streaming bodies. A
+      // `Request` is rebuilt around its buffered body.
+      if (isUrl) {
+        return originalFetch.call(window, target, { ...init, mode: 'cors' });
+      }
+
+      return toAppRequest(init ? new Request(input, init) : input, target).then(
+        request => originalFetch.call(window, request)
+      );
+    };
+  }
+
+  if (config.patches.xhr) {
+    const originalOpen = XMLHttpRequest.prototype.open;
+
+    XMLHttpRequest.prototype.open = function open(
+      this: XMLHttpRequest,
+      method: string,
+      url: string | URL,
+      ...rest: unknown[]
+    ) {
+      const target = rewriteUrl(url);
+
+      if (target) {
+        log('xhr', target);
+        record('xhr', url, target);
+      }
+
+      return (originalOpen as (...args: unknown[]) => void).call(
+        this,
+        method,
+        target ?? url,
+        ...rest
+      );
+    };
+  }
+
+  if (config.patches.eventSource && typeof EventSource !== 'undefined') {
+    const OriginalEventSource = EventSource;
+
+    window.EventSource = class extends OriginalEventSource {
+      constructor(url: string | URL, init?: EventSourceInit) {
+        const target = rewriteUrl(url);
+
+        if (target) {
+          log('event source', target);
+          record('event source', url, target);
+        }
+
+        super(target ?? url, init);
+      }
+    };
+  }
+
+  if (config.patches.webSocket && typeof WebSocket !== 'undefined') {
+    const OriginalWebSocket = WebSocket;
+
+    window.WebSocket = class extends OriginalWebSocket {
+      constructor(url: string | URL, protocols?: string | string[]) {
+        // Relative URLs resolve to http(s), which sockets map to ws(s)
+        const target = rewriteUrl(url)?.replace(/^http/, 'ws');
+
+        if (target) {
+          log('websocket', target);
+          record('websocket', url, target);
+        }
+
+        super(target ?? url, protocols);
+      }
+    };
+  }
+
+  if (config.patches.beacon && typeof navigator.sendBeacon === 'function') {
+    const originalSendBeacon = navigator.sendBeacon;
+
+    navigator.sendBeacon = (url: string | URL, data?: BodyInit | null) => {
+      const target = rewriteUrl(url);
+
+      if (target) {
+        log('beacon', target);
+        record('beacon', url, target);
+      }
+
+      return originalSendBeacon.call(navigator, target ?? url, data);
+    };
   }
 }
 
-const baseUrl = getBaseURL();
+/**
+ * Sets the base URL and patches navigation, fetch and links so a Next.js
+ * app works inside the ChatGPT iframe
+ *
+ * @example
+ * ```tsx
+ * // app/layout.tsx
+ * <head>
+ *   <ChatGPTBootstrap
+ *     debug={process.env.NODE_ENV === 'development'}
+ *     // Let next-themes set <html class>
+ *     patches={{ htmlAttributes: ['class'] }}
+ *   />
+ * </head>
+ * ```
+ */
+export function ChatGPTBootstrap({
+  baseUrl = getBaseURL(),
+  debug = false,
+  devtools = process.env.NODE_ENV === 'development',
+  enableExternalLinks = true,
+  patches = {},
+}: ChatGPTBootstrapProps) {
+  warnOnBaseUrlMismatch(baseUrl);
+
+  const config: BootstrapScriptConfig = {
+    baseUrl,
+    debug,
+    devtools,
+    patches: {
+      history: patches.history ?? true,
+      fetch: patches.fetch ?? true,
+      xhr: patches.xhr ?? true,
+      eventSource: patches.eventSource ?? true,
+      webSocket: patches.webSocket ?? true,
+      beacon: patches.beacon ?? true,
+      links: patches.links ?? enableExternalLinks,
+      htmlAttributes: patches.htmlAttributes ?? true,
+    },
+  };
 
-export function ChatGPTBootstrap() {
   return (
     <>
       <base href={baseUrl}></base>
       <script>{`window.innerBaseUrl = ${JSON.stringify(baseUrl)}`}</script>
       <script>{`window.__isChatGptApp = typeof window.openai !== "undefined";`}</script>
       <script>
-        {'(' +
-          (() => {
-            const baseUrl = window.innerBaseUrl;
-
-            if (!window.__isChatGptApp || !baseUrl) {
-              return;
-            }
-
-            const htmlElement = document.documentElement;
-            const observer = new MutationObserver(mutations => {
-              mutations.forEach(mutation => {
-                if (
-                  mutation.type === 'attributes' &&
-                  mutation.target === htmlElement
-                ) {
-                  const attrName = mutation.attributeName;
-                  if (attrName && attrName !== 'suppresshydrationwarning') {
-                    htmlElement.removeAttribute(attrName);
-                  }
-                }
-              });
-            });
-            observer.observe(htmlElement, {
-              attributes: true,
-              attributeOldValue: true,
-            });
-
-            const originalReplaceState = history.replaceState;
-            history.replaceState = (s, unused, url) => {
-              const u = new URL(url ?? '', window.location.href);
-              const href = u.pathname + u.search + u.hash;
-              console.log('replace', href);
-              originalReplaceState.call(history, unused, href);
-            };
-
-            const originalPushState = history.pushState;
-            history.pushState = (s, unused, url) => {
-              const u = new URL(url ?? '', window.location.href);
-              const href = u.pathname + u.search + u.hash;
-              console.log('push', href);
-              originalPushState.call(history, unused, href);
-            };
-
-            const appOrigin = new URL(baseUrl).origin;
-            const isInIframe = window.self !== window.top;
-
-            window.addEventListener(
-              'click',
-              e => {
-                const a = (e?.target as HTMLElement)?.closest('a');
-                if (!a || !a.href) return;
-                const url = new URL(a.href, window.location.href);
-                if (
-                  url.origin !== window.location.origin &&
-                  url.origin != appOrigin
-                ) {
-                  try {
-                    if (window.openai) {
-                      window.openai?.openExternal({ href: a.href });
-                      e.preventDefault();
-                    }
-                  } catch {
-                    console.warn(
-                      'openExternal failed, likely not in OpenAI client'
-                    );
-                  }
-                }
-              },
-              true
-            );
-
-            if (isInIframe && window.location.origin !== appOrigin) {
-              const originalFetch = window.fetch;
-
-              // @ts-expect-error ignore fetch patching
-              window.fetch = (input: URL | RequestInfo, init?: RequestInit) => {
-                let url: URL;
-                if (typeof input === 'string' || input instanceof URL) {
-                  url = new URL(input, window.location.href);
-                } else {
-                  url = new URL(input.url, window.location.href);
-                }
-
-                if (url.origin === appOrigin) {
-                  if (typeof input === 'string' || input instanceof URL) {
-                    input = url.toString();
-                  } else {
-                    input = new Request(url.toString(), input);
-                  }
-
-                  return originalFetch.call(window, input, {
-                    ...init,
-                    mode: 'cors',
-                  });
-                }
-
-                if (url.origin === window.location.origin) {
-                  const newUrl = new URL(baseUrl);
-                  newUrl.pathname = url.pathname;
-                  newUrl.search = url.search;
-                  newUrl.hash = url.hash;
-                  url = newUrl;
-
-                  if (typeof input === 'string' || input instanceof URL) {
-                    input = url.toString();
-                  } else {
-                    input = new Request(url.toString(), input);
-                  }
-
-                  return originalFetch.call(window, input, {
-                    ...init,
-                    mode: 'cors',
-                  });
-                }
-
-                return originalFetch.call(window, input, init);
-              };
-            }
-          }).toString() +
-          ')()'}
+        {`(${installBootstrapPatches.toString()})(${JSON.stringify(
+          config
+        ).replace(/</g, '\\u003c')})`}
       </script>
     </>
   );
@@ -0,0 +1,48 @@
+'use client';
+
+import { ChatGPTDevtoolsPanel } from '../devtools/panel';
+
+export interface ChatGPTDevtoolsProps {
+  /**
+   * Open the panel on load (defaults to `false`)
+   */
+  initialIsOpen?: boolean;
+
+  /**
+   * Corner of the widget the panel is pinned to (defaults to
+   * "bottom-right")
+   */
+  position?: 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left';
+}
+
+function DisabledDevtools(_props: ChatGPTDevtoolsProps) {
+  return null;
+}
+
+/**
+ * Floating panel for debugging a widget inside the ChatGPT iframe
+ *
+ * Shows the `window.openai` globals, a timeline of `openai:set_globals`
+ * events with what changed, widget state writes, calls to `callTool`,
+ * `sendFollowUpMessage` and `requestDisplayMode` with their arguments and
+ * results, and the URLs `ChatGPTBootstrap` rewrote. Calls are recorded from
+ * the panel's first render.
+ *
+ * Renders nothing outside development, where bundlers drop the panel
+ * entirely.
+ *
+ * @example
+ * ```tsx
+ * // app/layout.tsx
+ * <body>
+ *   {children}
+ *   <ChatGPTDevtools position='bottom-left' />
+ * </body>
+ * ```
+ */
+export const ChatGPTDevtools =
+  process.env.NODE_ENV === 'development'
+    ? ChatGPTDevtoolsPanel
+    : DisabledDevtools;
+
+export default ChatGPTDevtools;
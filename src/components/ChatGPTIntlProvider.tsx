@@ -0,0 +1,107 @@
+'use client';
+
+import { createContext, useContext, useMemo, type ReactNode } from 'react';
+import { useLocale } from '../hooks';
+import { createFormatter, type Formatter } from '../utils/format';
+import { DEFAULT_LOCALE, normalizeLocale } from '../utils/locale';
+
+export interface ChatGPTIntlProviderProps {
+  children?: ReactNode;
+
+  /**
+   * Locale the page was rendered in on the server, e.g. from
+   * `getRequestLocale(await headers())`. Used until ChatGPT reports the
+   * user's locale, so hydration matches the server output.
+   */
+  locale?: string;
+
+  /**
+   * Locale used outside ChatGPT when `locale` is not set (defaults to
+   * "en-US")
+   */
+  defaultLocale?: string;
+
+  /**
+   * Time zone for dates and times (defaults to the runtime's time zone).
+   * Set it when rendering dates on the server, whose time zone rarely
+   * matches the user's.
+   */
+  timeZone?: string;
+}
+
+const IntlContext = createContext<Formatter | null>(null);
+
+/**
+ * Returns a formatter for the ChatGPT locale
+ *
+ * Inside `ChatGPTIntlProvider` it uses the provider's locale and time zone;
+ * elsewhere it follows `useLocale`, falling back to "en-US".
+ *
+ * @example
+ * ```tsx
+ * const format = useFormatter();
+ *
+ * return (
+ *   <p>
+ *     {format.plural(items.length, { one: '# item', other: '# items' })},{' '}
+ *     {format.currency(total, 'USD')}, updated{' '}
+ *     {format.relativeTime(updatedAt)}
+ *   </p>
+ * );
+ * ```
+ */
+export function useFormatter(): Formatter {
+  const contextFormatter = useContext(IntlContext);
+  const chatGPTLocale = normalizeLocale(useLocale());
+  const locale = chatGPTLocale ?? DEFAULT_LOCALE;
+  const formatter = useMemo(() => createFormatter(locale), [locale]);
+
+  return contextFormatter ?? formatter;
+}
+
+/**
+ * Provides `useFormatter` with the user's ChatGPT locale
+ *
+ * Renders with the server `locale` first and switches to the locale ChatGPT
+ * reports once the widget has hydrated. Pass the locale the proxy forwards
+ * (`createChatGPTProxy({ locale: true })`) or the one widget resources are
+ * rendered in, so server and client output agree.
+ *
+ * @example
+ * ```tsx
+ * // app/layout.tsx
+ * import { headers } from 'next/headers';
+ * import { getRequestLocale } from 'next-chatgpt-apps/proxy';
+ *
+ * export default async function RootLayout({ children }) {
+ *   const locale = getRequestLocale(await headers());
+ *
+ *   return (
+ *     <html lang={locale}>
+ *       <body>
+ *         <ChatGPTIntlProvider locale={locale}>{children}</ChatGPTIntlProvider>
+ *       </body>
+ *     </html>
+ *   );
+ * }
+ * ```
+ */
+export function ChatGPTIntlProvider({
+  children,
+  locale,
+  defaultLocale = DEFAULT_LOCALE,
+  timeZone,
+}: ChatGPTIntlProviderProps) {
+  const chatGPTLocale = normalizeLocale(useLocale());
+  const resolved = chatGPTLocale ?? normalizeLocale(locale) ?? defaultLocale;
+  const formatter = useMemo(
+    () => createFormatter(resolved, { timeZone }),
+    [resolved, timeZone]
+  );
+
+  return (
+    <IntlContext.Provider value={formatter}>{children}</IntlContext.Provider>
+  );
+}
+
+export default ChatGPTIntlProvider;
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { act } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { render, setupDom } from '../test-utils/render';
+import { createMockOpenAI, installMockOpenAI, setGlobals } from '../testing';
+import type { Theme } from '../types/chatgpt';
+import {
+  ChatGPTThemeProvider,
+  useResolvedTheme,
+  type ChatGPTThemeProviderProps,
+} from './ChatGPTThemeProvider';
+
+setupDom();
+
+let uninstall: (() => void) | undefined;
+let matchMedia: typeof window.matchMedia;
+
+beforeEach(() => {
+  ({ matchMedia } = window);
+});
+
+afterEach(() => {
+  uninstall?.();
+  uninstall = undefined;
+  window.matchMedia = matchMedia;
+  document.documentElement.removeAttribute('data-theme');
+  document.documentElement.removeAttribute('class');
+  delete window.__chatGptHtmlAttributes;
+});
+
+/**
+ * Stubs `prefers-color-scheme` and returns a function that changes it
+ */
+function stubSystemTheme(initial: Theme) {
+  let dark = initial === 'dark';
+  const listeners = new Set<() => void>();
+
+  window.matchMedia = (() => ({
+    get matches() {
+      return dark;
+    },
+    addEventListener: (_type: string, listener: () => void) =>
+      listeners.add(listener),
+    removeEventListener: (_type: string, listener: () => void) =>
+      listeners.delete(listener),
+  })) as unknown as typeof window.matchMedia;
+
+  return (next: Theme) => {
+    dark = next === 'dark';
+    act(() => listeners.forEach(listener => listener()));
+  };
+}
+
+const html = () => document.documentElement;
+
+function renderProvider(props: ChatGPTThemeProviderProps = {}) {
+  const resolved: (Theme | null)[] = [];
+
+  function Probe() {
+    resolved.push(useResolvedTheme());
+
+    return null;
+  }
+
+  const view = render(
+    <ChatGPTThemeProvider {...props}>
+      <Probe />
+    </ChatGPTThemeProvider>
+  );
+
+  return { ...view, resolved };
+}
+
+describe('ChatGPTThemeProvider', () => {
+  test('applies the ChatGPT theme to <html> and follows changes', () => {
+    uninstall = installMockOpenAI(createMockOpenAI({ theme: 'dark' }));
+
+    const { resolved } = renderProvider();
+
+    expect(html().getAttribute('data-theme')).toBe('dark');
+    expect(html().classList.contains('dark')).toBe(true);
+    expect(resolved.at(-1)).toBe('dark');
+
+    act(() => setGlobals({ theme: 'light' }));
+
+    expect(html().getAttribute('data-theme')).toBe('light');
+    expect(html().classList.contains('dark')).toBe(false);
+    expect(resolved.at(-1)).toBe('light');
+  });
+
+  test('follows the system theme outside ChatGPT', () => {
+    const setSystemTheme = stubSystemTheme('light');
+    const { resolved } = renderProvider();
+
+    expect(html().getAttribute('data-theme')).toBe('light');
+
+    setSystemTheme('dark');
+
+    expect(html().getAttribute('data-theme')).toBe('dark');
+    expect(resolved.at(-1)).toBe('dark');
+  });
+
+  test('uses the default theme outside ChatGPT', () => {
+    stubSystemTheme('dark');
+    renderProvider({ defaultTheme: 'light' });
+
+    expect(html().getAttribute('data-theme')).toBe('light');
+  });
+
+  test('registers the attributes it sets with the bootstrap guard', () => {
+    window.__chatGptHtmlAttributes = ['lang'];
+    renderProvider();
+
+    expect(window.__chatGptHtmlAttributes).toEqual([
+      'lang',
+      'data-theme',
+      'class',
+    ]);
+  });
+
+  test('sets only data-theme without a dark class', () => {
+    uninstall = installMockOpenAI(createMockOpenAI({ theme: 'dark' }));
+    renderProvider({ darkClass: false });
+
+    expect(html().getAttribute('class')).toBeNull();
+    expect(window.__chatGptHtmlAttributes).toEqual(['data-theme']);
+  });
+
+  test('renders the palette as CSS custom properties', () => {
+    const { container } = renderProvider();
+
+    expect(container.querySelector('style')?.textContent).toContain(
+      '[data-theme="dark"]{color-scheme:dark;--chatgpt-bg-primary:#212121;'
+    );
+    expect(
+      renderProvider({ cssVariables: false }).container.querySelector('style')
+    ).toBeNull();
+  });
+
+  test('sets the theme from its inline script before hydration', () => {
+    uninstall = installMockOpenAI(createMockOpenAI({ theme: 'dark' }));
+
+    const markup = renderToStaticMarkup(
+      <ChatGPTThemeProvider darkClass='night' />
+    );
+    const script = /<script>([\s\S]*?)<\/script>/.exec(markup)![1]!;
+
+    new Function(script)();
+
+    expect(html().getAttribute('data-theme')).toBe('dark');
+    expect(html().classList.contains('night')).toBe(true);
+    expect(window.__chatGptHtmlAttributes).toEqual(['data-theme', 'class']);
+  });
+});
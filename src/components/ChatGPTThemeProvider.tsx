@@ -0,0 +1,204 @@
+'use client';
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react';
+import { useTheme } from '../hooks';
+import type { Theme } from '../types/chatgpt';
+
+/**
+ * Colors of the ChatGPT interface, exposed as `--chatgpt-*` CSS custom
+ * properties by `ChatGPTThemeProvider`
+ */
+export const CHATGPT_PALETTE: Record<Theme, Record<string, string>> = {
+  light: {
+    'bg-primary': '#ffffff',
+    'bg-secondary': '#f9f9f9',
+    'bg-tertiary': '#ececec',
+    'text-primary': '#0d0d0d',
+    'text-secondary': '#5d5d5d',
+    'text-tertiary': '#8f8f8f',
+    border: 'rgba(13, 13, 13, 0.1)',
+    accent: '#0285ff',
+    danger: '#e02e2a',
+    success: '#008635',
+  },
+  dark: {
+    'bg-primary': '#212121',
+    'bg-secondary': '#303030',
+    'bg-tertiary': '#414141',
+    'text-primary': '#ffffff',
+    'text-secondary': '#afafaf',
+    'text-tertiary': '#7d7d7d',
+    border: 'rgba(255, 255, 255, 0.15)',
+    accent: '#48aaff',
+    danger: '#ff8583',
+    success: '#40c977',
+  },
+};
+
+export interface ChatGPTThemeProviderProps {
+  children?: ReactNode;
+
+  /**
+   * Theme used outside ChatGPT; "system" follows `prefers-color-scheme`
+   * (defaults to "system")
+   */
+  defaultTheme?: Theme | 'system';
+
+  /**
+   * Class toggled on `<html>` in dark mode, for Tailwind's `dark:` variant
+   * (defaults to "dark"); `false` sets only `data-theme`
+   */
+  darkClass?: string | false;
+
+  /**
+   * Render the `--chatgpt-*` CSS custom properties (defaults to true)
+   */
+  cssVariables?: boolean;
+}
+
+interface ThemeScriptConfig {
+  defaultTheme: Theme | 'system';
+  darkClass: string | false;
+}
+
+const ThemeContext = createContext<Theme | null>(null);
+
+/**
+ * Sets the theme on `<html>`, resolving it from `window.openai` or the
+ * system when `theme` is omitted. Also runs in the page before hydration, so
+ * it must not reference anything outside its own body.
+ */
+function applyTheme(config: ThemeScriptConfig, theme?: Theme) {
+  const root = document.documentElement;
+  const allowed = window.__chatGptHtmlAttributes ?? [];
+  const resolved =
+    theme ??
+    window.openai?.theme ??
+    (config.defaultTheme !== 'system' ? config.defaultTheme : undefined) ??
+    (window.matchMedia('(prefers-color-scheme: dark)').matches
+      ? 'dark'
+      : 'light');
+
+  // Register with the ChatGPTBootstrap attribute guard before writing
+  window.__chatGptHtmlAttributes = Array.from(
+    new Set(
+      allowed.concat(
+        config.darkClass ? ['data-theme', 'class'] : ['data-theme']
+      )
+    )
+  );
+
+  root.setAttribute('data-theme', resolved);
+
+  if (config.darkClass) {
+    root.classList.toggle(config.darkClass, resolved === 'dark');
+  }
+}
+
+function renderCssVariables() {
+  const declarations = (theme: Theme) =>
+    Object.entries(CHATGPT_PALETTE[theme])
+      .map(([name, value]) => `--chatgpt-${name}:${value};`)
+      .join('');
+
+  return (
+    `:root,[data-theme="light"]{color-scheme:light;${declarations('light')}}` +
+    `[data-theme="dark"]{color-scheme:dark;${declarations('dark')}}`
+  );
+}
+
+/**
+ * Returns the theme applied by `ChatGPTThemeProvider`: ChatGPT's theme, or
+ * the fallback outside ChatGPT. `null` until it is known on the client.
+ *
+ * @example
+ * ```tsx
+ * const theme = useResolvedTheme();
+ *
+ * return <Chart palette={theme === 'dark' ? darkPalette : lightPalette} />;
+ * ```
+ */
+export function useResolvedTheme(): Theme | null {
+  const contextTheme = useContext(ThemeContext);
+  const chatGPTTheme = useTheme();
+
+  return contextTheme ?? chatGPTTheme;
+}
+
+/**
+ * Applies ChatGPT's theme to `<html>` as `data-theme` and a `dark` class,
+ * and defines `--chatgpt-*` CSS custom properties for both themes
+ *
+ * An inline script sets the theme before the first paint, so there is no
+ * flash of the wrong theme. The attributes are registered with
+ * `ChatGPTBootstrap`'s `<html>` attribute guard, which leaves them in place.
+ * Add `suppressHydrationWarning` to `<html>`, since they are set before
+ * React hydrates.
+ *
+ * @example
+ * ```tsx
+ * // app/layout.tsx
+ * <html lang="en" suppressHydrationWarning>
+ *   <head>
+ *     <ChatGPTBootstrap />
+ *   </head>
+ *   <body>
+ *     <ChatGPTThemeProvider>{children}</ChatGPTThemeProvider>
+ *   </body>
+ * </html>
+ * ```
+ */
+export function ChatGPTThemeProvider({
+  children,
+  defaultTheme = 'system',
+  darkClass = 'dark',
+  cssVariables = true,
+}: ChatGPTThemeProviderProps) {
+  const chatGPTTheme = useTheme();
+  const [systemTheme, setSystemTheme] = useState<Theme | null>(null);
+  const config = useMemo<ThemeScriptConfig>(
+    () => ({ defaultTheme, darkClass }),
+    [defaultTheme, darkClass]
+  );
+
+  const fallbackTheme = defaultTheme === 'system' ? systemTheme : defaultTheme;
+  const theme = chatGPTTheme ?? fallbackTheme;
+
+  useEffect(() => {
+    if (defaultTheme !== 'system') return undefined;
+
+    const query = window.matchMedia('(prefers-color-scheme: dark)');
+    const update = () => setSystemTheme(query.matches ? 'dark' : 'light');
+
+    update();
+    query.addEventListener('change', update);
+
+    return () => query.removeEventListener('change', update);
+  }, [defaultTheme]);
+
+  useEffect(() => {
+    applyTheme(config, theme ?? undefined);
+  }, [config, theme]);
+
+  return (
+    <ThemeContext.Provider value={theme}>
+      {cssVariables && <style>{renderCssVariables()}</style>}
+      <script suppressHydrationWarning>
+        {`(${applyTheme.toString()})(${JSON.stringify(config).replace(
+          /</g,
+          '\\u003c'
+        )})`}
+      </script>
+      {children}
+    </ThemeContext.Provider>
+  );
+}
+
+export default ChatGPTThemeProvider;
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { act } from 'react';
+import { render, setupDom } from '../test-utils/render';
+import {
+  installResizeObservers,
+  type FakeResizeObservers,
+} from '../test-utils/resize-observer';
+import { createMockOpenAI, installMockOpenAI, setGlobals } from '../testing';
+import { ChatGPTViewport } from './ChatGPTViewport';
+
+setupDom();
+
+let observers: FakeResizeObservers;
+let uninstall: () => void;
+let heights: number[];
+
+beforeEach(() => {
+  heights = [];
+  observers = installResizeObservers();
+  uninstall = installMockOpenAI(
+    createMockOpenAI({
+      safeArea: { insets: { top: 12, bottom: 8, left: 4, right: 4 } },
+      notifyIntrinsicHeight: height => heights.push(height),
+    })
+  );
+});
+
+afterEach(() => {
+  uninstall();
+  observers.restore();
+});
+
+const nextFrame = () => act(() => Bun.sleep(20));
+
+const renderViewport = (props: {
+  autoHeight?: boolean;
+  safeArea?: boolean;
+}) => {
+  const { container } = render(
+    <ChatGPTViewport {...props}>
+      <p>Forecast</p>
+    </ChatGPTViewport>
+  );
+  const viewport = container.firstElementChild as HTMLElement;
+
+  return { viewport, content: viewport.firstElementChild! };
+};
+
+describe('ChatGPTViewport', () => {
+  test('pads by the safe area and reports the padded content height', async () => {
+    const { viewport, content } = renderViewport({});
+
+    expect(viewport.style.paddingTop).toBe('12px');
+    expect(viewport.style.paddingLeft).toBe('4px');
+    expect(viewport.style.maxHeight).toBe('600px');
+    expect(viewport.dataset.displayMode).toBe('inline');
+
+    observers.resize(content, 300);
+    await nextFrame();
+
+    expect(heights.at(-1)).toBe(320);
+  });
+
+  test('reports the content height alone without safe area padding', async () => {
+    const { viewport, content } = renderViewport({ safeArea: false });
+
+    expect(viewport.style.paddingTop).toBe('');
+
+    observers.resize(content, 300);
+    await nextFrame();
+
+    expect(heights.at(-1)).toBe(300);
+  });
+
+  test('does not report heights with autoHeight off', async () => {
+    const { content } = renderViewport({ autoHeight: false });
+
+    observers.resize(content, 300);
+    await nextFrame();
+
+    expect(heights).toEqual([]);
+  });
+
+  test('fills the frame outside inline mode', () => {
+    const { viewport } = renderViewport({});
+
+    act(() => setGlobals({ displayMode: 'fullscreen', maxHeight: undefined }));
+
+    expect(viewport.dataset.displayMode).toBe('fullscreen');
+    expect(viewport.style.height).toBe('100vh');
+    expect(viewport.style.maxHeight).toBe('');
+    expect(observers.observed).toBe(0);
+  });
+});
@@ -0,0 +1,89 @@
+'use client';
+
+import type { CSSProperties, ReactNode } from 'react';
+import {
+  useAutoHeight,
+  useDisplayMode,
+  useMaxHeight,
+  useSafeArea,
+} from '../hooks';
+
+export interface ChatGPTViewportProps {
+  children?: ReactNode;
+  className?: string;
+  style?: CSSProperties;
+
+  /**
+   * Report the content height to ChatGPT in inline mode (defaults to true)
+   */
+  autoHeight?: boolean;
+
+  /**
+   * Pad the content by the host's safe area insets (defaults to true)
+   */
+  safeArea?: boolean;
+}
+
+/**
+ * Container sized for the widget's display mode
+ *
+ * - inline: grows with its content up to `maxHeight`, then scrolls, and
+ *   reports the content height to ChatGPT
+ * - pip and fullscreen: fills the frame (`maxHeight` or the viewport) and
+ *   scrolls
+ *
+ * Safe area insets are applied as padding in every mode. The current mode is
+ * exposed as `data-display-mode` for styling.
+ *
+ * @example
+ * ```tsx
+ * // app/layout.tsx
+ * <body>
+ *   <ChatGPTViewport className="bg-white dark:bg-neutral-900">
+ *     {children}
+ *   </ChatGPTViewport>
+ * </body>
+ * ```
+ */
+export function ChatGPTViewport({
+  children,
+  className,
+  style,
+  autoHeight = true,
+  safeArea = true,
+}: ChatGPTViewportProps) {
+  const displayMode = useDisplayMode() ?? 'inline';
+  const maxHeight = useMaxHeight();
+  const insets = useSafeArea()?.insets;
+  const padding = safeArea && insets ? insets : undefined;
+  const contentRef = useAutoHeight<HTMLDivElement>({
+    enabled: autoHeight,
+    offset: (padding?.top ?? 0) + (padding?.bottom ?? 0),
+  });
+
+  const sizing: CSSProperties =
+    displayMode === 'inline'
+      ? { maxHeight: maxHeight ?? undefined }
+      : { height: maxHeight ?? '100vh' };
+
+  return (
+    <div
+      className={className}
+      data-display-mode={displayMode}
+      style={{
+        boxSizing: 'border-box',
+        overflowY: 'auto',
+        paddingTop: padding?.top,
+        paddingRight: padding?.right,
+        paddingBottom: padding?.bottom,
+        paddingLeft: padding?.left,
+        ...sizing,
+        ...style,
+      }}
+    >
+      <div ref={contentRef}>{children}</div>
+    </div>
+  );
+}
+
+export default ChatGPTViewport;
@@ -0,0 +1,52 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { useDisplayMode } from '../hooks';
+
+export interface DisplayModeSwitchProps {
+  /**
+   * Rendered in inline mode, and in modes without their own children
+   */
+  inline?: ReactNode;
+  pip?: ReactNode;
+  fullscreen?: ReactNode;
+
+  /**
+   * Rendered outside ChatGPT (defaults to `inline`)
+   */
+  fallback?: ReactNode;
+}
+
+/**
+ * Renders different children for each display mode the host reports
+ *
+ * @example
+ * ```tsx
+ * <DisplayModeSwitch
+ *   inline={<Summary />}
+ *   fullscreen={<FullReport />}
+ *   pip={<MiniPlayer />}
+ * />
+ * ```
+ */
+export function DisplayModeSwitch({
+  inline = null,
+  pip,
+  fullscreen,
+  fallback,
+}: DisplayModeSwitchProps) {
+  const displayMode = useDisplayMode();
+
+  switch (displayMode) {
+    case 'fullscreen':
+      return <>{fullscreen ?? inline}</>;
+    case 'pip':
+      return <>{pip ?? inline}</>;
+    case 'inline':
+      return <>{inline}</>;
+    default:
+      return <>{fallback ?? inline}</>;
+  }
+}
+
+export default DisplayModeSwitch;
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { act } from 'react';
+import { render, setupDom } from '../test-utils/render';
+import { createMockOpenAI, installMockOpenAI } from '../testing';
+import { FullscreenToggle } from './FullscreenToggle';
+
+setupDom();
+
+let uninstall: (() => void) | undefined;
+
+afterEach(() => {
+  uninstall?.();
+  uninstall = undefined;
+});
+
+const click = (button: HTMLButtonElement) =>
+  act(async () => {
+    button.click();
+    await Bun.sleep(0);
+  });
+
+describe('FullscreenToggle', () => {
+  test('renders nothing outside ChatGPT', () => {
+    expect(render(<FullscreenToggle />).container.innerHTML).toBe('');
+  });
+
+  test('toggles between inline and fullscreen', async () => {
+    const openai = createMockOpenAI();
+
+    uninstall = installMockOpenAI(openai);
+
+    const { container } = render(<FullscreenToggle />);
+    const button = container.querySelector('button')!;
+
+    expect(button.textContent).toBe('Expand');
+
+    await click(button);
+    expect(button.textContent).toBe('Collapse');
+    expect(button.getAttribute('aria-pressed')).toBe('true');
+
+    await click(button);
+    expect(openai.requestDisplayMode.calls).toEqual([
+      [{ mode: 'fullscreen' }],
+      [{ mode: 'inline' }],
+    ]);
+    expect(button.textContent).toBe('Expand');
+  });
+
+  test('reports a rejected request as denied', async () => {
+    const denied: string[] = [];
+
+    uninstall = installMockOpenAI(
+      createMockOpenAI({
+        requestDisplayMode: () => Promise.reject(new Error('Not allowed')),
+      })
+    );
+
+    const { container } = render(
+      <FullscreenToggle onDenied={({ requested }) => denied.push(requested)} />
+    );
+    const button = container.querySelector('button')!;
+
+    await click(button);
+
+    expect(denied).toEqual(['fullscreen']);
+    expect(button.textContent).toBe('Expand');
+    expect(button.disabled).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+'use client';
+
+import type { ButtonHTMLAttributes, ReactNode } from 'react';
+import {
+  useDisplayMode,
+  useDisplayModeRequest,
+  useIsInChatGPT,
+  type UseDisplayModeRequestOptions,
+} from '../hooks';
+
+export interface FullscreenToggleState {
+  isFullscreen: boolean;
+  pending: boolean;
+}
+
+export interface FullscreenToggleProps
+  extends Omit<ButtonHTMLAttributes<HTMLButtonElement>, 'children'>,
+    UseDisplayModeRequestOptions {
+  /**
+   * Button content, or a function of the current state (defaults to
+   * "Expand" / "Collapse")
+   */
+  children?: ReactNode | ((state: FullscreenToggleState) => ReactNode);
+}
+
+/**
+ * Button that switches the widget between inline and fullscreen
+ *
+ * The label follows the mode the host actually granted, not the one
+ * requested. Nothing is rendered outside ChatGPT.
+ *
+ * @example
+ * ```tsx
+ * <FullscreenToggle
+ *   className="btn"
+ *   onDenied={() => console.warn('Fullscreen was denied')}
+ * >
+ *   {({ isFullscreen }) => (isFullscreen ? <CollapseIcon /> : <ExpandIcon />)}
+ * </FullscreenToggle>
+ * ```
+ */
+export function FullscreenToggle({
+  children,
+  onDenied,
+  onDowngraded,
+  onClick,
+  disabled,
+  ...props
+}: FullscreenToggleProps) {
+  const isInChatGPT = useIsInChatGPT();
+  const displayMode = useDisplayMode();
+  const { request, pending } = useDisplayModeRequest({
+    onDenied,
+    onDowngraded,
+  });
+
+  if (!isInChatGPT) {
+    return null;
+  }
+
+  const isFullscreen = displayMode === 'fullscreen';
+  const state = { isFullscreen, pending };
+
+  return (
+    <button
+      type='button'
+      aria-pressed={isFullscreen}
+      {...props}
+      disabled={disabled || pending}
+      onClick={event => {
+        onClick?.(event);
+
+        if (!event.defaultPrevented) {
+          request(isFullscreen ? 'inline' : 'fullscreen');
+        }
+      }}
+    >
+      {typeof children === 'function'
+        ? children(state)
+        : (children ?? (isFullscreen ? 'Collapse' : 'Expand'))}
+    </button>
+  );
+}
+
+export default FullscreenToggle;
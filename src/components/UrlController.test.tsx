@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test';
+import { act } from 'react';
+import { hydrate, render, setupDom } from '../test-utils/render';
+import {
+  createMockOpenAI,
+  createMockRouter,
+  installMockOpenAI,
+  type MockOpenAI,
+  type MockRouter,
+} from '../testing';
+
+setupDom();
+
+let mockRouter: MockRouter;
+
+mock.module('next/navigation', () => ({
+  useRouter: () => mockRouter.navigation.useRouter(),
+  usePathname: () => mockRouter.navigation.usePathname(),
+  useSearchParams: () => mockRouter.navigation.useSearchParams(),
+  useParams: () => mockRouter.navigation.useParams(),
+}));
+
+const { UrlController } = await import('./UrlController');
+
+let openai: MockOpenAI;
+let uninstall: () => void;
+
+const install = (overrides: Parameters<typeof createMockOpenAI>[0]) => {
+  openai = createMockOpenAI(overrides);
+  uninstall = installMockOpenAI(openai);
+};
+
+/**
+ * Lets widget state writes, which the host applies asynchronously, settle
+ */
+const flush = () => act(() => Bun.sleep(0));
+
+const savedUrls = () => openai.setWidgetState.calls.map(([state]) => state.url);
+
+beforeEach(() => {
+  mockRouter = createMockRouter({ pathname: '/' });
+});
+
+afterEach(() => {
+  uninstall();
+});
+
+describe('UrlController', async () => {
+  test('navigates to the tool output URL and saves app navigation', async () => {
+    install({
+      toolOutput: {
+        url: { pathname: '/products/[id]', params: { id: '42' } },
+      },
+    });
+    render(<UrlController />);
+    await flush();
+
+    expect(mockRouter.router.push.calls).toEqual([['/products/42']]);
+
+    act(() => mockRouter.navigate('/products/42?tab=reviews'));
+    await flush();
+
+    expect(savedUrls()).toContainEqual({
+      pathname: '/products/42',
+      searchParams: { tab: 'reviews' },
+    });
+  });
+
+  test('restores the saved URL on a server-rendered page', async () => {
+    install({
+      toolOutput: { url: '/products' },
+      widgetState: { url: { pathname: '/cart' }, coupon: 'SAVE10' },
+    });
+    hydrate(<UrlController />);
+    await flush();
+
+    expect(mockRouter.router.push.calls).toEqual([['/cart']]);
+    expect(savedUrls()).not.toContainEqual({ pathname: '/' });
+    expect(openai.widgetState).toEqual({
+      url: { pathname: '/cart' },
+      coupon: 'SAVE10',
+    });
+  });
+
+  test('saves the current URL after hydrating without one saved', async () => {
+    install({ widgetState: { coupon: 'SAVE10' } });
+    hydrate(<UrlController />);
+    await flush();
+
+    expect(mockRouter.router.push.calls).toEqual([]);
+    expect(openai.widgetState).toEqual({
+      url: { pathname: '/' },
+      coupon: 'SAVE10',
+    });
+  });
+
+  test('lets onNavigate cancel navigation', async () => {
+    install({ toolOutput: { url: '/admin' } });
+    render(
+      <UrlController
+        restore={false}
+        onNavigate={({ url }) => !url.startsWith('/admin')}
+      />
+    );
+    await flush();
+
+    expect(mockRouter.router.push.calls).toEqual([]);
+  });
+});
@@ -1,47 +1,146 @@
 'use client';
 
-import { usePathname, useRouter, useSearchParams } from 'next/navigation';
-import { useEffect, useRef } from 'react';
-import { useToolOutput, useWidgetState } from '../hooks';
+import {
+  useParams,
+  usePathname,
+  useRouter,
+  useSearchParams,
+} from 'next/navigation';
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { useOpenAiGlobal, useToolOutput, useWidgetState } from '../hooks';
 
 export interface UrlData {
   /**
-   * The pathname part of the URL (e.g., "/products/123")
+   * The pathname part of the URL (e.g., "/products/123"). May be a route
+   * pattern (e.g., "/products/[id]") filled in from `params`.
    */
   pathname: string;
   /**
    * Dynamic route parameters (e.g., { id: "123", slug: "example" })
    */
-  params?: Record<string, string>;
+  params?: Record<string, string | string[]>;
   /**
    * URL search parameters (e.g., { filter: "active", sort: ["name", "asc"] })
    */
   searchParams?: Record<string, string | string[]>;
 }
 
+export interface UrlNavigation {
+  /**
+   * URL about to be navigated to
+   */
+  url: string;
+
+  /**
+   * URL the app is currently on
+   */
+  from: string;
+
+  /**
+   * Where the URL came from: a tool result or the URL saved in widget state
+   */
+  source: 'toolOutput' | 'widgetState';
+}
+
 export interface UrlControllerProps {
   /**
-   * Custom tool output key to read from (defaults to "url")
+   * Custom tool output key to read from (defaults to "url"). The current URL
+   * is saved under the same key in widget state.
    */
   urlKey?: string;
   /**
    * Whether to enable debug logging
    */
   debug?: boolean;
+  /**
+   * Whether ChatGPT-driven navigation adds a history entry (defaults to
+   * "push")
+   */
+  mode?: 'push' | 'replace';
+  /**
+   * Whether to return to the URL saved in widget state when the widget
+   * remounts (defaults to true)
+   */
+  restore?: boolean;
+  /**
+   * Called before navigating; return `false` to cancel
+   */
+  onNavigate?: (navigation: UrlNavigation) => boolean | void;
 }
 
-interface ToolOutputData {
-  url?: {
-    pathname: string;
-    searchParams?: Record<string, string>;
-  };
+/**
+ * Fills `[param]`, `[...param]` and `[[...param]]` segments from `params`
+ *
+ * @returns `null` when a required parameter is missing
+ */
+function resolvePathname(
+  pathname: string,
+  params: UrlData['params'] = {}
+): string | null {
+  let missing = false;
+
+  const resolved = pathname
+    .split('/')
+    .flatMap(segment => {
+      const match = /^\[(\[)?(?:\.\.\.)?([^\]]+)\]\]?$/.exec(segment);
+
+      if (!match) return [segment];
+
+      const [, optional, name = ''] = match;
+      const value = params[name];
+      const values = ([] as string[]).concat(value ?? []);
+
+      if (values.length === 0 && !optional) {
+        missing = true;
+      }
+
+      return values.map(encodeURIComponent);
+    })
+    .join('/');
+
+  return missing ? null : resolved || '/';
+}
+
+const subscribeToNothing = () => () => undefined;
+
+/**
+ * Builds a URL from `UrlData` or a URL string
+ */
+function toUrl(value: unknown): string | null {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  const urlData = value as UrlData | null | undefined;
+
+  if (!urlData?.pathname) return null;
+
+  // Build the target URL
+  const pathname = resolvePathname(urlData.pathname, urlData.params);
+
+  if (!pathname) return null;
+
+  // Add search params if provided
+  const params = new URLSearchParams();
+
+  Object.entries(urlData.searchParams ?? {}).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      value.forEach(v => params.append(key, v));
+    } else {
+      params.set(key, value);
+    }
+  });
+  const queryString = params.toString();
+
+  return queryString ? `${pathname}?${queryString}` : pathname;
 }
 
 /**
  * UrlController component synchronizes URL state between Next.js routing and ChatGPT.
  *
  * When ChatGPT sends URL data via tool output, it navigates the Next.js app accordingly.
- * When the user navigates within the app, it syncs the URL back to ChatGPT via widget state.
+ * When the user navigates within the app, it syncs the URL back to ChatGPT via widget state,
+ * and a widget reopened later returns to that URL.
  *
  * @example
  * ```tsx
@@ -63,81 +162,131 @@ interface ToolOutputData {
  * // With custom URL key and debug mode
  * <UrlController urlKey="navigation" debug={true} />
  * ```
+ *
+ * @example
+ * ```tsx
+ * // Tool output: { url: { pathname: '/products/[id]', params: { id: '42' } } }
+ * <UrlController
+ *   mode="replace"
+ *   onNavigate={({ url }) => !url.startsWith('/admin')}
+ * />
+ * ```
  */
-export function UrlController() {
+export function UrlController({
+  urlKey = 'url',
+  debug = false,
+  mode = 'push',
+  restore = true,
+  onNavigate,
+}: UrlControllerProps = {}) {
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
-  const toolOutput = useToolOutput<ToolOutputData>();
-  const [, setWidgetState] = useWidgetState<{ url: UrlData }>();
+  const routeParams = useParams();
+  const toolOutput = useToolOutput<Record<string, unknown>>();
+  const persistedState = useOpenAiGlobal('widgetState');
+  const [, setWidgetState] = useWidgetState<Record<string, unknown>>();
+  // False while hydrating, when the globals above still hold server values
+  const hydrated = useSyncExternalStore(
+    subscribeToNothing,
+    () => true,
+    () => false
+  );
 
-  // Track the last URL we navigated to from ChatGPT to avoid circular updates
-  const lastChatGPTUrlRef = useRef<string | null>(null);
-  const lastAppUrlRef = useRef<string | null>(null);
+  const toolUrl = toUrl(toolOutput?.[urlKey]);
+  const savedUrl = restore ? toUrl(persistedState?.[urlKey]) : null;
+  const currentUrl =
+    pathname + (searchParams?.toString() ? `?${searchParams.toString()}` : '');
 
-  // Listen to tool output changes from ChatGPT and navigate accordingly
-  useEffect(() => {
-    if (!toolOutput || !router) return;
+  // Latest values for the effects below, without re-running them
+  const currentUrlRef = useRef(currentUrl);
+  const onNavigateRef = useRef(onNavigate);
+  const savedUrlRef = useRef(savedUrl);
 
-    const urlData = toolOutput.url;
+  currentUrlRef.current = currentUrl;
+  onNavigateRef.current = onNavigate;
+  savedUrlRef.current = savedUrl;
 
-    if (!urlData?.pathname) return;
+  // The last tool URL handled, `undefined` until the restore decision
+  const lastToolUrlRef = useRef<string | null | undefined>(undefined);
+  // URL a navigation started by the controller is leaving
+  const pendingFromRef = useRef<string | null>(null);
+  const lastAppUrlRef = useRef<string | null>(null);
 
-    // Build the target URL
-    let targetUrl = urlData.pathname;
+  const log = useCallback(
+    (message: string, data: Record<string, unknown>) => {
+      if (debug) {
+        // eslint-disable-next-line no-console
+        console.log(`[UrlController] ${message}`, data);
+      }
+    },
+    [debug]
+  );
 
-    // Add search params if provided
-    if (urlData.searchParams) {
-      const params = new URLSearchParams();
+  const navigate = useCallback(
+    (url: string, source: UrlNavigation['source']) => {
+      const from = currentUrlRef.current;
 
-      Object.entries(urlData.searchParams).forEach(([key, value]) => {
-        if (Array.isArray(value)) {
-          value.forEach(v => params.append(key, v));
-        } else {
-          params.set(key, value);
-        }
-      });
-      const queryString = params.toString();
+      if (url === from) return;
+
+      if (onNavigateRef.current?.({ url, from, source }) === false) {
+        log('Navigation cancelled:', { from, to: url, source });
 
-      if (queryString) {
-        targetUrl += `?${queryString}`;
+        return;
       }
-    }
 
-    // Only navigate if the URL is different from our current URL
-    const currentUrl =
-      pathname +
-      (searchParams?.toString() ? `?${searchParams.toString()}` : '');
+      log(
+        source === 'widgetState'
+          ? 'Restoring from widget state:'
+          : 'Navigating from ChatGPT:',
+        { from, to: url }
+      );
 
-    if (targetUrl !== currentUrl && targetUrl !== lastChatGPTUrlRef.current) {
-      if (process.env.NODE_ENV !== 'production') {
-        // eslint-disable-next-line no-console
-        console.log('[UrlController] Navigating from ChatGPT:', {
-          from: currentUrl,
-          to: targetUrl,
-          urlData,
-        });
+      pendingFromRef.current = from;
+      router[mode](url);
+    },
+    [router, mode, log]
+  );
+
+  // Listen to tool output changes from ChatGPT and navigate accordingly
+  useEffect(() => {
+    if (!router || !hydrated) return;
+
+    // On mount, the URL saved in widget state is newer than the tool output
+    if (lastToolUrlRef.current === undefined) {
+      lastToolUrlRef.current = toolUrl;
+
+      const savedUrl = savedUrlRef.current;
+
+      if (savedUrl) {
+        navigate(savedUrl, 'widgetState');
+      } else if (toolUrl) {
+        navigate(toolUrl, 'toolOutput');
       }
 
-      lastChatGPTUrlRef.current = targetUrl;
-      router.push(targetUrl);
+      return;
     }
-  }, [toolOutput, router, pathname, searchParams]);
+
+    if (!toolUrl || toolUrl === lastToolUrlRef.current) return;
+
+    lastToolUrlRef.current = toolUrl;
+    navigate(toolUrl, 'toolOutput');
+  }, [router, hydrated, toolUrl, navigate]);
 
   // Listen to route changes in the app and sync back to ChatGPT
   useEffect(() => {
-    if (!pathname) return;
-
-    // Build current URL data
-    const currentUrl =
-      pathname +
-      (searchParams?.toString() ? `?${searchParams.toString()}` : '');
+    // Wait for the restore decision, so the saved URL isn't overwritten
+    if (!pathname || !hydrated || lastToolUrlRef.current === undefined) {
+      return;
+    }
 
-    // Don't update if this is the URL we just navigated to from ChatGPT
-    if (currentUrl === lastChatGPTUrlRef.current) {
+    // Don't save the URL we're navigating away from
+    if (pendingFromRef.current === currentUrl) {
       return;
     }
 
+    pendingFromRef.current = null;
+
     // Don't send duplicate updates
     if (currentUrl === lastAppUrlRef.current) {
       return;
@@ -147,6 +296,17 @@ export function UrlController() {
       pathname,
     };
 
+    // Dynamic route params, so the URL can be rebuilt from its pattern
+    const params = Object.fromEntries(
+      Object.entries(routeParams ?? {}).filter(
+        (entry): entry is [string, string | string[]] => entry[1] !== undefined
+      )
+    );
+
+    if (Object.keys(params).length > 0) {
+      urlData.params = params;
+    }
+
     // Extract search params
     if (searchParams && searchParams.toString()) {
       const searchParamsObj: Record<string, string | string[]> = {};
@@ -169,17 +329,21 @@ export function UrlController() {
       }
     }
 
-    if (process.env.NODE_ENV !== 'production') {
-      // eslint-disable-next-line no-console
-      console.log('[UrlController] Syncing to ChatGPT:', {
-        url: currentUrl,
-        urlData,
-      });
-    }
+    log('Syncing to ChatGPT:', { url: currentUrl, urlData });
 
     lastAppUrlRef.current = currentUrl;
-    setWidgetState({ url: urlData });
-  }, [pathname, searchParams, setWidgetState]);
+    // Keep whatever else the app stores in widget state
+    setWidgetState(prev => ({ ...prev, [urlKey]: urlData }));
+  }, [
+    hydrated,
+    pathname,
+    searchParams,
+    routeParams,
+    currentUrl,
+    urlKey,
+    setWidgetState,
+    log,
+  ]);
 
   // This component doesn't render anything
   return null;
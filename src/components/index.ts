@@ -3,6 +3,40 @@
  */
 
 export { ChatGPTBootstrap } from './ChatGPTBootstrap';
+export type {
+  BootstrapRewrite,
+  ChatGPTBootstrapPatches,
+  ChatGPTBootstrapProps,
+} from './ChatGPTBootstrap';
+
+export { ChatGPTDevtools } from './ChatGPTDevtools';
+export type { ChatGPTDevtoolsProps } from './ChatGPTDevtools';
+
+export { ChatGPTIntlProvider, useFormatter } from './ChatGPTIntlProvider';
+export type { ChatGPTIntlProviderProps } from './ChatGPTIntlProvider';
+
+export {
+  CHATGPT_PALETTE,
+  ChatGPTThemeProvider,
+  useResolvedTheme,
+} from './ChatGPTThemeProvider';
+export type { ChatGPTThemeProviderProps } from './ChatGPTThemeProvider';
+
+export { ChatGPTViewport } from './ChatGPTViewport';
+export type { ChatGPTViewportProps } from './ChatGPTViewport';
+
+export { DisplayModeSwitch } from './DisplayModeSwitch';
+export type { DisplayModeSwitchProps } from './DisplayModeSwitch';
+
+export { FullscreenToggle } from './FullscreenToggle';
+export type {
+  FullscreenToggleProps,
+  FullscreenToggleState,
+} from './FullscreenToggle';
 
 export { UrlController } from './UrlController';
-export type { UrlControllerProps, UrlData } from './UrlController';
+export type {
+  UrlControllerProps,
+  UrlData,
+  UrlNavigation,
+} from './UrlController';
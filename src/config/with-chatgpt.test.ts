@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { CHATGPT_SANDBOX_HOSTS } from '../proxy/cors';
+import {
+  ChatGPTConfigError,
+  validateBaseUrlEnv,
+  withChatGPT,
+} from './with-chatgpt';
+
+const env = process.env as Record<string, string | undefined>;
+const originalEnv = { ...env };
+
+const BASE_URL_VARIABLES = [
+  'NEXT_PUBLIC_WEBSITE_URL',
+  'NEXT_PUBLIC_CHATGPT_BASE_URL',
+  'VERCEL_ENV',
+  'VERCEL_PROJECT_PRODUCTION_URL',
+  'VERCEL_BRANCH_URL',
+  'VERCEL_URL',
+  'NETLIFY',
+  'CF_PAGES_URL',
+  'FLY_APP_NAME',
+  'RENDER_EXTERNAL_URL',
+  'APP_URL',
+  'PORT',
+];
+
+beforeEach(() => {
+  BASE_URL_VARIABLES.forEach(name => delete env[name]);
+  env.NODE_ENV = 'production';
+});
+
+afterEach(() => {
+  Object.keys(env).forEach(name => delete env[name]);
+  Object.assign(env, originalEnv);
+});
+
+function expectConfigError(
+  run: () => unknown,
+  code: ChatGPTConfigError['code']
+) {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ChatGPTConfigError);
+    expect((error as ChatGPTConfigError).code).toBe(code);
+
+    return;
+  }
+
+  throw new Error('Expected a ChatGPTConfigError');
+}
+
+describe('validateBaseUrlEnv', () => {
+  test('returns the origin of a valid base URL', () => {
+    env.NEXT_PUBLIC_WEBSITE_URL = 'https://app.test/';
+
+    expect(validateBaseUrlEnv()).toBe('https://app.test');
+    expect(validateBaseUrlEnv('http://staging.test:8080/shop')).toBe(
+      'http://staging.test:8080'
+    );
+  });
+
+  test('rejects relative and non-http URLs', () => {
+    env.NEXT_PUBLIC_WEBSITE_URL = 'app.test';
+    expectConfigError(() => validateBaseUrlEnv(), 'invalid_base_url');
+    expectConfigError(
+      () => validateBaseUrlEnv('ftp://app.test'),
+      'invalid_base_url'
+    );
+  });
+
+  test('requires the Vercel production URL in Vercel production', () => {
+    env.VERCEL_ENV = 'production';
+    expectConfigError(() => validateBaseUrlEnv(), 'missing_base_url');
+
+    env.VERCEL_PROJECT_PRODUCTION_URL = 'app.vercel.app';
+    expect(validateBaseUrlEnv()).toBe('https://app.vercel.app');
+  });
+
+  test('rejects localhost in production', () => {
+    expectConfigError(() => validateBaseUrlEnv(), 'missing_base_url');
+
+    env.NODE_ENV = 'development';
+    expect(validateBaseUrlEnv('http://localhost:3000')).toBe(
+      'http://localhost:3000'
+    );
+  });
+});
+
+describe('withChatGPT', () => {
+  test('validates the environment in production unless disabled', () => {
+    expectConfigError(() => withChatGPT({}), 'missing_base_url');
+    expect(withChatGPT({}, { validateEnv: false }).assetPrefix).toBe(
+      'http://localhost:3000'
+    );
+  });
+
+  test('serves next/image from the app origin under basePath', () => {
+    const options = { baseUrl: 'https://app.test' };
+
+    expect(withChatGPT({}, options).images?.path).toBe(
+      'https://app.test/_next/image'
+    );
+    expect(withChatGPT({ basePath: '/docs' }, options).images?.path).toBe(
+      'https://app.test/docs/_next/image'
+    );
+    expect(
+      withChatGPT({
+        basePath: '/docs',
+        assetPrefix: 'https://app.test/docs',
+      }).images?.path
+    ).toBe('https://app.test/docs/_next/image');
+    expect(
+      withChatGPT(
+        { basePath: '/docs', images: { path: 'https://img.test/optimize' } },
+        options
+      ).images?.path
+    ).toBe('https://img.test/optimize');
+  });
+
+  test('allows Server Actions from the configured sandbox hosts', () => {
+    const allowedOrigins = (sandboxHosts?: string[]) =>
+      withChatGPT(
+        { experimental: { serverActions: { allowedOrigins: ['app.test'] } } },
+        { baseUrl: 'https://app.test', sandboxHosts }
+      ).experimental?.serverActions?.allowedOrigins;
+
+    expect(allowedOrigins()).toEqual(['app.test', ...CHATGPT_SANDBOX_HOSTS]);
+    expect(allowedOrigins(['abc123.web-sandbox.oaiusercontent.com'])).toEqual([
+      'app.test',
+      'abc123.web-sandbox.oaiusercontent.com',
+    ]);
+  });
+});
@@ -3,29 +3,303 @@
  */
 
 import type { NextConfig } from 'next';
-import { getBaseURL } from '../utils/base-url';
+import { CHATGPT_SANDBOX_HOSTS } from '../proxy/cors';
+import { describeBaseURL, getBaseURL } from '../utils/base-url';
+import {
+  buildContentSecurityPolicy,
+  isCspReportOnly,
+  type ContentSecurityPolicyOptions,
+} from '../utils/csp';
 
 /**
- * Wraps Next.js config to add ChatGPT compatibility
+ * A `next.config` exporting a function of the build phase
+ */
+export type NextConfigFunction = (
+  phase: string,
+  context: { defaultConfig: NextConfig }
+) => NextConfig | Promise<NextConfig>;
+
+type NextHeaders = Awaited<ReturnType<NonNullable<NextConfig['headers']>>>;
+
+export interface WithChatGPTOptions {
+  /**
+   * Origin the app is served from (defaults to `assetPrefix`, then
+   * `getBaseURL()`)
+   */
+  baseUrl?: string;
+
+  /**
+   * Serve `next/image` optimization from the app origin and allow images
+   * hosted on it (defaults to `true`; skipped for custom loaders)
+   */
+  images?: boolean;
+
+  /**
+   * Send CORS headers with `/_next` and `public/` assets, so fonts, images
+   * and scripts load in the widget sandbox (defaults to `true`)
+   */
+  assetHeaders?: boolean;
+
+  /**
+   * Send a Content-Security-Policy with every page, allowing the same
+   * domains as the widgets' `openai/widgetCSP` metadata. Use this when the
+   * proxy is not configured with `csp`.
+   */
+  csp?: boolean | ContentSecurityPolicyOptions;
+
+  /**
+   * Hosts allowed to call Server Actions across origins (defaults to
+   * `CHATGPT_SANDBOX_HOSTS`). Set it to your app's own sandbox host, e.g.
+   * `['abc123.web-sandbox.oaiusercontent.com']`, so other apps' widgets
+   * cannot call your actions.
+   */
+  sandboxHosts?: string[];
+
+  /**
+   * Check the base URL environment variables and throw a
+   * `ChatGPTConfigError` when they are missing or invalid (defaults to
+   * `true` in production)
+   */
+  validateEnv?: boolean;
+}
+
+/**
+ * Thrown by `withChatGPT` when the app's base URL is misconfigured
+ */
+export class ChatGPTConfigError extends Error {
+  declare readonly code: 'invalid_base_url' | 'missing_base_url';
+
+  constructor(code: ChatGPTConfigError['code'], message: string) {
+    super(`[next-chatgpt-apps] ${message}`);
+    this.name = 'ChatGPTConfigError';
+    this.code = code;
+  }
+}
+
+// Public files served with CORS headers: images, fonts, media and data
+const PUBLIC_ASSET_SOURCE =
+  '/:file((?!_next/).+\\.(?:avif|bmp|css|eot|gif|ico|jpe?g|js|json|mp3|mp4|otf|png|svg|ttf|txt|wasm|wav|webm|webp|woff2?))';
+
+const ASSET_HEADERS = [
+  { key: 'Access-Control-Allow-Origin', value: '*' },
+  { key: 'Cross-Origin-Resource-Policy', value: 'cross-origin' },
+];
+
+/**
+ * Checks the environment variables the base URL is derived from
  *
  * @example
  * ```ts
- * // next.config.ts
- * import { withChatGPT } from 'next-chatgpt-apps';
- *
- * export default withChatGPT({
- *   nextConfig: {
- *     // your existing Next.js config
- *   }
- * });
+ * validateBaseUrlEnv(); // throws ChatGPTConfigError when misconfigured
  * ```
  */
-export function withChatGPT(nextConfig: NextConfig = {}): NextConfig {
-  const baseUrl = nextConfig.assetPrefix || getBaseURL();
+export function validateBaseUrlEnv(baseUrl?: string): string {
+  const explicit = baseUrl ?? process.env.NEXT_PUBLIC_WEBSITE_URL;
+  const source = baseUrl ? 'baseUrl' : 'NEXT_PUBLIC_WEBSITE_URL';
+
+  if (
+    !explicit &&
+    process.env.VERCEL_ENV === 'production' &&
+    !process.env.VERCEL_PROJECT_PRODUCTION_URL
+  ) {
+    throw new ChatGPTConfigError(
+      'missing_base_url',
+      'VERCEL_PROJECT_PRODUCTION_URL is not set. Enable "Automatically expose System Environment Variables" in the Vercel project or set NEXT_PUBLIC_WEBSITE_URL.'
+    );
+  }
+
+  const { url: resolved, description } = explicit
+    ? { url: explicit, description: source }
+    : describeBaseURL();
+  let url: URL;
+
+  try {
+    url = new URL(resolved);
+  } catch {
+    throw new ChatGPTConfigError(
+      'invalid_base_url',
+      `${explicit ? source : 'The base URL'} must be an absolute URL such as "https://app.example.com", got "${resolved}".`
+    );
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new ChatGPTConfigError(
+      'invalid_base_url',
+      `${source} must use http or https, got "${resolved}".`
+    );
+  }
+
+  if (
+    process.env.NODE_ENV === 'production' &&
+    /^(localhost|127\.0\.0\.1|\[::1\])$/.test(url.hostname)
+  ) {
+    throw new ChatGPTConfigError(
+      'missing_base_url',
+      `The base URL resolves to ${url.origin} (from ${description}) in production, which ChatGPT cannot load. Set NEXT_PUBLIC_WEBSITE_URL to the public origin of the app.`
+    );
+  }
+
+  return url.origin;
+}
+
+function chatGPTHeaders(options: WithChatGPTOptions): NextHeaders {
+  const headers: NextHeaders = [];
+
+  if (options.assetHeaders ?? true) {
+    headers.push(
+      { source: '/_next/:path*', headers: ASSET_HEADERS },
+      { source: PUBLIC_ASSET_SOURCE, headers: ASSET_HEADERS }
+    );
+  }
+
+  if (options.csp) {
+    const cspOptions = typeof options.csp === 'object' ? options.csp : {};
+
+    headers.push({
+      source: '/:path*',
+      headers: [
+        {
+          key: isCspReportOnly(cspOptions)
+            ? 'Content-Security-Policy-Report-Only'
+            : 'Content-Security-Policy',
+          value: buildContentSecurityPolicy({
+            baseUrl: options.baseUrl,
+            ...cspOptions,
+          }),
+        },
+      ],
+    });
+  }
+
+  return headers;
+}
+
+function applyChatGPTConfig(
+  nextConfig: NextConfig,
+  options: WithChatGPTOptions
+): NextConfig {
+  const baseUrl = (
+    options.baseUrl ||
+    nextConfig.assetPrefix ||
+    getBaseURL()
+  ).replace(/\/$/, '');
+
+  if (options.validateEnv ?? process.env.NODE_ENV === 'production') {
+    validateBaseUrlEnv(options.baseUrl || nextConfig.assetPrefix || undefined);
+  }
+
+  const serverActions = nextConfig.experimental?.serverActions;
+  const headers = chatGPTHeaders({ ...options, baseUrl });
+  const { images } = nextConfig;
+  const appOrigin = new URL(baseUrl);
+  const basePath = nextConfig.basePath ?? '';
+  // Next.js serves the optimizer under `basePath`, like every other route
+  const imagePath = `${basePath}/_next/image`;
+  // An `assetPrefix` may already end with `basePath`
+  const imageBaseUrl =
+    basePath && baseUrl.endsWith(basePath)
+      ? baseUrl.slice(0, -basePath.length)
+      : baseUrl;
+  const configureImages =
+    (options.images ?? true) &&
+    !images?.unoptimized &&
+    (images?.loader ?? 'default') === 'default';
 
   return {
     ...nextConfig,
     // Force all /_next/ requests to use the correct origin
     assetPrefix: baseUrl,
+    env: {
+      ...nextConfig.env,
+      // Lets `checkBaseURLConsistency` compare the runtime URL with this one
+      NEXT_PUBLIC_CHATGPT_BASE_URL: baseUrl,
+    },
+    images: configureImages
+      ? {
+          ...images,
+          // The optimizer URL is root-relative by default, which resolves
+          // against the sandbox origin
+          path:
+            images?.path &&
+            images.path !== '/_next/image' &&
+            images.path !== imagePath
+              ? images.path
+              : `${imageBaseUrl}${imagePath}`,
+          remotePatterns: [
+            ...(images?.remotePatterns ?? []),
+            {
+              protocol: appOrigin.protocol === 'http:' ? 'http' : 'https',
+              hostname: appOrigin.hostname,
+              port: appOrigin.port,
+              pathname: '/**',
+            },
+          ],
+        }
+      : images,
+    experimental: {
+      ...nextConfig.experimental,
+      // Server Actions called from the widget sandbox carry its origin,
+      // which Next.js rejects as cross-site unless allowed
+      serverActions: {
+        ...serverActions,
+        allowedOrigins: Array.from(
+          new Set([
+            ...(serverActions?.allowedOrigins ?? []),
+            ...(options.sandboxHosts ?? CHATGPT_SANDBOX_HOSTS),
+          ])
+        ),
+      },
+    },
+    async headers() {
+      return [...headers, ...((await nextConfig.headers?.()) ?? [])];
+    },
   };
 }
+
+/**
+ * Wraps Next.js config to add ChatGPT compatibility
+ *
+ * Sets `assetPrefix` to the app origin, serves `next/image` from it, adds
+ * CORS headers to static assets, allows Server Actions from the widget
+ * sandbox and checks the base URL environment variables in production.
+ * Accepts and returns either a config object or a config function, so it
+ * composes with other wrappers in any order.
+ *
+ * @example
+ * ```ts
+ * // next.config.ts
+ * import { withChatGPT } from 'next-chatgpt-apps';
+ *
+ * export default withChatGPT(
+ *   {
+ *     // your existing Next.js config
+ *   },
+ *   { csp: { connectDomains: ['https://api.example.com'] } }
+ * );
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Composed with other wrappers
+ * export default withBundleAnalyzer(withChatGPT(withMDX(nextConfig)));
+ * ```
+ */
+export function withChatGPT(
+  nextConfig?: NextConfig,
+  options?: WithChatGPTOptions
+): NextConfig;
+export function withChatGPT(
+  nextConfig: NextConfigFunction,
+  options?: WithChatGPTOptions
+): NextConfigFunction;
+export function withChatGPT(
+  nextConfig: NextConfig | NextConfigFunction = {},
+  options: WithChatGPTOptions = {}
+): NextConfig | NextConfigFunction {
+  if (typeof nextConfig === 'function') {
+    return async (phase, context) =>
+      applyChatGPTConfig(await nextConfig(phase, context), options);
+  }
+
+  return applyChatGPTConfig(nextConfig, options);
+}
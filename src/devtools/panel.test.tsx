@@ -0,0 +1,273 @@
+/**
+ * The recorder keeps its listeners and timelines for the life of the page,
+ * so it is tested here with the panel rather than from a second file
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { act } from 'react';
+import { render, setupDom } from '../test-utils/render';
+import {
+  createMockOpenAI,
+  installMockOpenAI,
+  setGlobals,
+  type MockOpenAI,
+} from '../testing';
+import { BOOTSTRAP_REWRITE_EVENT_TYPE } from '../components/ChatGPTBootstrap';
+import { ChatGPTDevtoolsPanel } from './panel';
+import {
+  clearRecording,
+  getSnapshot,
+  startRecording,
+  stringify,
+  subscribe,
+} from './recorder';
+
+setupDom();
+
+let openai: MockOpenAI;
+let uninstall: () => void;
+
+beforeEach(() => {
+  openai = createMockOpenAI();
+  uninstall = installMockOpenAI(openai);
+});
+
+afterEach(async () => {
+  uninstall();
+  clearRecording();
+  await flush();
+});
+
+const flush = () => act(() => Bun.sleep(0));
+
+const rewrite = (from: string, to: string) =>
+  window.dispatchEvent(
+    new CustomEvent(BOOTSTRAP_REWRITE_EVENT_TYPE, {
+      detail: { kind: 'fetch', from, to, timestamp: Date.now() },
+    })
+  );
+
+describe('recorder', () => {
+  test('records set_globals events with what changed', async () => {
+    startRecording();
+    expect(getSnapshot().globals.theme).toBe('light');
+
+    setGlobals({
+      theme: 'dark',
+      safeArea: { insets: { top: 10, bottom: 0, left: 0, right: 0 } },
+    });
+    await flush();
+
+    const { globals, events } = getSnapshot();
+
+    expect(globals.theme).toBe('dark');
+    expect(events.at(-1)).toMatchObject({
+      keys: ['theme', 'safeArea'],
+      changes: [
+        { path: 'theme', before: 'light', after: 'dark' },
+        { path: 'safeArea.insets.top', before: 0, after: 10 },
+      ],
+    });
+  });
+
+  test('records calls with their arguments, results and failures', async () => {
+    openai.callTool.mockImplementation(async name => {
+      if (name === 'broken') throw new Error('Network down');
+
+      return {
+        content: [],
+        structuredContent: { name },
+        isError: name === 'bad',
+      };
+    });
+    startRecording();
+
+    const { openai: recorded } = window;
+
+    await recorded!.callTool('search', { query: 'tea' });
+    await recorded!.callTool('bad', {});
+    await expect(recorded!.callTool('broken', {})).rejects.toThrow();
+    await recorded!.setWidgetState({ count: 1 });
+    await flush();
+
+    expect(
+      getSnapshot().calls.map(({ method, label, args, status, error }) => ({
+        method,
+        label,
+        args,
+        status,
+        error,
+      }))
+    ).toEqual([
+      {
+        method: 'callTool',
+        label: 'search',
+        args: { query: 'tea' },
+        status: 'success',
+        error: undefined,
+      },
+      {
+        method: 'callTool',
+        label: 'bad',
+        args: {},
+        status: 'error',
+        error: undefined,
+      },
+      {
+        method: 'callTool',
+        label: 'broken',
+        args: {},
+        status: 'error',
+        error: 'Network down',
+      },
+      {
+        method: 'setWidgetState',
+        label: 'setWidgetState',
+        args: { count: 1 },
+        status: 'success',
+        error: undefined,
+      },
+    ]);
+    expect(getSnapshot().calls[0]).toMatchObject({
+      result: { structuredContent: { name: 'search' } },
+      durationMs: expect.any(Number),
+    });
+    expect(getSnapshot().recordingCalls).toBe(true);
+  });
+
+  test('reports when window.openai cannot be wrapped', () => {
+    uninstall();
+    uninstall = installMockOpenAI(Object.freeze(createMockOpenAI()));
+    startRecording();
+
+    expect(getSnapshot().recordingCalls).toBe(false);
+  });
+
+  test('records URL rewrites and notifies once per batch', async () => {
+    startRecording();
+
+    let notified = 0;
+    const unsubscribe = subscribe(() => {
+      notified += 1;
+    });
+
+    rewrite('https://sandbox.test/a', 'https://app.test/a');
+    rewrite('https://sandbox.test/b', 'https://app.test/b');
+    await flush();
+    unsubscribe();
+
+    expect(notified).toBe(1);
+    expect(getSnapshot().rewrites.map(({ to }) => to)).toEqual([
+      'https://app.test/a',
+      'https://app.test/b',
+    ]);
+  });
+
+  test('clears the timelines but keeps the globals', async () => {
+    startRecording();
+    setGlobals({ displayMode: 'fullscreen' });
+    clearRecording();
+    await flush();
+
+    expect(getSnapshot()).toMatchObject({
+      globals: { displayMode: 'fullscreen' },
+      events: [],
+      calls: [],
+      rewrites: [],
+    });
+  });
+});
+
+describe('stringify', () => {
+  test('tolerates cycles and functions', () => {
+    const value: Record<string, unknown> = { run: () => undefined };
+
+    value.self = value;
+
+    expect(JSON.parse(stringify(value))).toEqual({
+      run: '[Function]',
+      self: '[Circular]',
+    });
+    expect(stringify(undefined)).toBe('undefined');
+  });
+});
+
+describe('ChatGPTDevtoolsPanel', () => {
+  const buttons = (container: HTMLElement) => [
+    ...container.querySelectorAll('button'),
+  ];
+
+  const click = (container: HTMLElement, label: string) =>
+    act(async () => {
+      buttons(container)
+        .find(button => button.textContent === label)!
+        .click();
+      await Bun.sleep(0);
+    });
+
+  test('opens from its toggle', async () => {
+    const { container } = render(<ChatGPTDevtoolsPanel />);
+
+    expect(buttons(container).map(button => button.textContent)).toEqual([
+      'ChatGPT devtools',
+    ]);
+
+    await click(container, 'ChatGPT devtools');
+
+    expect(buttons(container).map(button => button.textContent)).toEqual([
+      'Close devtools',
+      'Globals',
+      'Events',
+      'Widget state',
+      'Calls',
+      'Rewrites',
+      'Clear',
+    ]);
+    expect(container.textContent).toContain('theme "light"');
+  });
+
+  test('is pinned to the corner given', () => {
+    const { container } = render(<ChatGPTDevtoolsPanel position='top-left' />);
+    const { style } = container.firstElementChild as HTMLElement;
+
+    expect([style.top, style.left, style.bottom]).toEqual(['8px', '8px', '']);
+  });
+
+  test('lists calls made after the first render, then clears them', async () => {
+    const { container } = render(<ChatGPTDevtoolsPanel initialIsOpen />);
+
+    await click(container, 'Calls');
+    expect(container.textContent).toContain('No calls yet');
+
+    await act(async () => {
+      await window.openai!.callTool('get_weather', { city: 'Lisbon' });
+    });
+    await flush();
+
+    const summary = container.querySelector('summary')!.textContent;
+
+    expect(summary).toContain('get_weather');
+    expect(summary).toContain('success');
+
+    await click(container, 'Clear');
+    expect(container.textContent).toContain('No calls yet');
+  });
+
+  test('shows widget state writes and rewrites in their tabs', async () => {
+    const { container } = render(<ChatGPTDevtoolsPanel initialIsOpen />);
+
+    await act(async () => {
+      await window.openai!.setWidgetState({ count: 2 });
+      rewrite('https://sandbox.test/page', 'https://app.test/page');
+    });
+    await flush();
+
+    await click(container, 'Widget state');
+    expect(container.textContent).toContain('setWidgetState');
+
+    await click(container, 'Rewrites');
+    expect(container.textContent).toContain(
+      'fetch https://sandbox.test/page → https://app.test/page'
+    );
+  });
+});
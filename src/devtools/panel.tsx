@@ -0,0 +1,334 @@
+'use client';
+
+/**
+ * The `ChatGPTDevtools` panel, only bundled in development
+ */
+
+import { useState, useSyncExternalStore, type CSSProperties } from 'react';
+import type { ChatGPTDevtoolsProps } from '../components/ChatGPTDevtools';
+import {
+  clearRecording,
+  getServerSnapshot,
+  getSnapshot,
+  startRecording,
+  stringify,
+  subscribe,
+  type CallEntry,
+  type DevtoolsSnapshot,
+} from './recorder';
+
+type Tab = 'globals' | 'events' | 'state' | 'calls' | 'rewrites';
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: 'globals', label: 'Globals' },
+  { id: 'events', label: 'Events' },
+  { id: 'state', label: 'Widget state' },
+  { id: 'calls', label: 'Calls' },
+  { id: 'rewrites', label: 'Rewrites' },
+];
+
+const PREVIEW_LENGTH = 80;
+
+const OFFSETS: Record<
+  NonNullable<ChatGPTDevtoolsProps['position']>,
+  CSSProperties
+> = {
+  'bottom-right': {
+    bottom: 8,
+    right: 8,
+    flexDirection: 'column-reverse',
+    alignItems: 'flex-end',
+  },
+  'bottom-left': {
+    bottom: 8,
+    left: 8,
+    flexDirection: 'column-reverse',
+    alignItems: 'flex-start',
+  },
+  'top-right': { top: 8, right: 8, alignItems: 'flex-end' },
+  'top-left': { top: 8, left: 8, alignItems: 'flex-start' },
+};
+
+const styles = {
+  root: {
+    position: 'fixed',
+    zIndex: 2147483647,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 4,
+    font: '11px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace',
+    color: '#e5e5e5',
+  },
+  toggle: {
+    padding: '4px 8px',
+    border: '1px solid #404040',
+    borderRadius: 6,
+    background: '#171717',
+    color: 'inherit',
+    font: 'inherit',
+    cursor: 'pointer',
+  },
+  panel: {
+    display: 'flex',
+    flexDirection: 'column',
+    width: 'min(480px, calc(100vw - 16px))',
+    height: 'min(360px, 70vh)',
+    border: '1px solid #404040',
+    borderRadius: 8,
+    background: '#0a0a0a',
+    overflow: 'hidden',
+  },
+  tabs: {
+    display: 'flex',
+    gap: 2,
+    padding: 4,
+    borderBottom: '1px solid #262626',
+  },
+  tab: {
+    padding: '2px 6px',
+    border: 'none',
+    borderRadius: 4,
+    background: 'none',
+    color: '#a3a3a3',
+    font: 'inherit',
+    cursor: 'pointer',
+  },
+  activeTab: { background: '#262626', color: '#fafafa' },
+  body: { flex: 1, overflow: 'auto', padding: 4 },
+  entry: { borderBottom: '1px solid #1f1f1f', padding: '2px 0' },
+  summary: { cursor: 'pointer', whiteSpace: 'nowrap', overflow: 'hidden' },
+  muted: { color: '#737373' },
+  error: { color: '#f87171' },
+  pre: {
+    margin: '4px 0 4px 12px',
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-all',
+  },
+} satisfies Record<string, CSSProperties>;
+
+function preview(value: unknown): string {
+  const text = stringify(value).replace(/\s+/g, ' ');
+
+  return text.length > PREVIEW_LENGTH
+    ? `${text.slice(0, PREVIEW_LENGTH)}…`
+    : text;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(11, 23);
+}
+
+function Value({ value }: { value: unknown }) {
+  return <pre style={styles.pre}>{stringify(value)}</pre>;
+}
+
+function Empty({ children }: { children: string }) {
+  return <div style={styles.muted}>{children}</div>;
+}
+
+function CallSummary({ call }: { call: CallEntry }) {
+  return (
+    <summary style={styles.summary}>
+      <span style={styles.muted}>{formatTime(call.timestamp)}</span>{' '}
+      {call.label}{' '}
+      <span style={call.status === 'error' ? styles.error : styles.muted}>
+        {call.status}
+        {call.durationMs !== undefined && ` ${call.durationMs}ms`}
+      </span>
+    </summary>
+  );
+}
+
+function Calls({
+  calls,
+  recording,
+}: {
+  calls: CallEntry[];
+  recording: boolean;
+}) {
+  if (!calls.length) {
+    return (
+      <Empty>
+        {recording
+          ? 'No calls yet'
+          : 'window.openai is read-only here, so calls are not recorded'}
+      </Empty>
+    );
+  }
+
+  return (
+    <>
+      {[...calls].reverse().map(call => (
+        <details key={call.id} style={styles.entry}>
+          <CallSummary call={call} />
+          <div style={styles.muted}>Arguments</div>
+          <Value value={call.args} />
+          {call.status !== 'pending' && (
+            <>
+              <div style={styles.muted}>
+                {call.error === undefined ? 'Result' : 'Error'}
+              </div>
+              <Value value={call.error ?? call.result} />
+            </>
+          )}
+        </details>
+      ))}
+    </>
+  );
+}
+
+function TabContent({
+  tab,
+  snapshot,
+}: {
+  tab: Tab;
+  snapshot: DevtoolsSnapshot;
+}) {
+  switch (tab) {
+    case 'globals': {
+      const entries = Object.entries(snapshot.globals);
+
+      if (!entries.length) {
+        return <Empty>window.openai is not available</Empty>;
+      }
+
+      return (
+        <>
+          {entries.map(([key, value]) => (
+            <details key={key} style={styles.entry}>
+              <summary style={styles.summary}>
+                {key} <span style={styles.muted}>{preview(value)}</span>
+              </summary>
+              <Value value={value} />
+            </details>
+          ))}
+        </>
+      );
+    }
+    case 'events':
+      if (!snapshot.events.length) {
+        return <Empty>No openai:set_globals events yet</Empty>;
+      }
+
+      return (
+        <>
+          {[...snapshot.events].reverse().map(event => (
+            <details key={event.id} style={styles.entry}>
+              <summary style={styles.summary}>
+                <span style={styles.muted}>{formatTime(event.timestamp)}</span>{' '}
+                {event.keys.join(', ')}{' '}
+                <span style={styles.muted}>
+                  {event.changes.length} change(s)
+                </span>
+              </summary>
+              {event.changes.map(change => (
+                <div key={change.path} style={styles.pre}>
+                  {change.path}:{' '}
+                  <span style={styles.error}>{preview(change.before)}</span> →{' '}
+                  {preview(change.after)}
+                </div>
+              ))}
+            </details>
+          ))}
+        </>
+      );
+    case 'state':
+      return (
+        <Calls
+          calls={snapshot.calls.filter(
+            call => call.method === 'setWidgetState'
+          )}
+          recording={snapshot.recordingCalls}
+        />
+      );
+    case 'calls':
+      return (
+        <Calls
+          calls={snapshot.calls.filter(
+            call => call.method !== 'setWidgetState'
+          )}
+          recording={snapshot.recordingCalls}
+        />
+      );
+    case 'rewrites':
+      if (!snapshot.rewrites.length) {
+        return (
+          <Empty>
+            No URLs rewritten yet (only happens inside the widget sandbox)
+          </Empty>
+        );
+      }
+
+      return (
+        <>
+          {[...snapshot.rewrites].reverse().map(rewrite => (
+            <div key={rewrite.id} style={styles.entry}>
+              <span style={styles.muted}>{formatTime(rewrite.timestamp)}</span>{' '}
+              {rewrite.kind} {rewrite.from} <span style={styles.muted}>→</span>{' '}
+              {rewrite.to}
+            </div>
+          ))}
+        </>
+      );
+    default:
+      return null;
+  }
+}
+
+export function ChatGPTDevtoolsPanel({
+  initialIsOpen = false,
+  position = 'bottom-right',
+}: ChatGPTDevtoolsProps) {
+  // Before effects run, so calls made by the page's effects are recorded
+  startRecording();
+
+  const snapshot = useSyncExternalStore(
+    subscribe,
+    getSnapshot,
+    getServerSnapshot
+  );
+  const [isOpen, setIsOpen] = useState(initialIsOpen);
+  const [tab, setTab] = useState<Tab>('globals');
+
+  return (
+    <div style={{ ...styles.root, ...OFFSETS[position] }}>
+      <button
+        type='button'
+        aria-expanded={isOpen}
+        style={styles.toggle}
+        onClick={() => setIsOpen(open => !open)}
+      >
+        {isOpen ? 'Close devtools' : 'ChatGPT devtools'}
+      </button>
+      {isOpen && (
+        <div style={styles.panel}>
+          <div style={styles.tabs}>
+            {TABS.map(({ id, label }) => (
+              <button
+                key={id}
+                type='button'
+                style={{
+                  ...styles.tab,
+                  ...(tab === id ? styles.activeTab : undefined),
+                }}
+                onClick={() => setTab(id)}
+              >
+                {label}
+              </button>
+            ))}
+            <button
+              type='button'
+              style={{ ...styles.tab, marginLeft: 'auto' }}
+              onClick={clearRecording}
+            >
+              Clear
+            </button>
+          </div>
+          <div style={styles.body}>
+            <TabContent tab={tab} snapshot={snapshot} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
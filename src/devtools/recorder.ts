@@ -0,0 +1,352 @@
+/**
+ * Records what `ChatGPTDevtools` shows: the globals, the
+ * `openai:set_globals` stream, calls to `window.openai` and the URL
+ * rewrites of the bootstrap patches
+ *
+ * Nothing runs on import, so production builds drop this module along with
+ * the panel.
+ */
+
+import {
+  BOOTSTRAP_REWRITE_EVENT_TYPE,
+  type BootstrapRewrite,
+} from '../components/ChatGPTBootstrap';
+import {
+  SET_GLOBALS_EVENT_TYPE,
+  type OpenAIAPI,
+  type SetGlobalsEvent,
+} from '../types/chatgpt';
+
+export interface GlobalsChange {
+  /** Dotted path of the changed value, e.g. "safeArea.insets.top" */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface GlobalsEntry {
+  id: number;
+  timestamp: number;
+  keys: string[];
+  changes: GlobalsChange[];
+}
+
+export type RecordedMethod =
+  | 'callTool'
+  | 'sendFollowUpMessage'
+  | 'requestDisplayMode'
+  | 'setWidgetState';
+
+export interface CallEntry {
+  id: number;
+  timestamp: number;
+  method: RecordedMethod;
+  /** Tool name for `callTool`, the method otherwise */
+  label: string;
+  args: unknown;
+  status: 'pending' | 'success' | 'error';
+  result?: unknown;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface RewriteEntry extends BootstrapRewrite {
+  id: number;
+}
+
+export interface DevtoolsSnapshot {
+  globals: Record<string, unknown>;
+  events: GlobalsEntry[];
+  calls: CallEntry[];
+  rewrites: RewriteEntry[];
+  /** Whether `window.openai` methods could be wrapped to record calls */
+  recordingCalls: boolean;
+}
+
+const LIMIT = 200;
+
+const GLOBAL_KEYS = [
+  'theme',
+  'locale',
+  'displayMode',
+  'maxHeight',
+  'safeArea',
+  'userAgent',
+  'toolInput',
+  'toolOutput',
+  'toolResponseMetadata',
+  'widgetState',
+];
+
+const RECORDED_METHODS: RecordedMethod[] = [
+  'callTool',
+  'sendFollowUpMessage',
+  'requestDisplayMode',
+  'setWidgetState',
+];
+
+const EMPTY_SNAPSHOT: DevtoolsSnapshot = {
+  globals: {},
+  events: [],
+  calls: [],
+  rewrites: [],
+  recordingCalls: false,
+};
+
+let snapshot = EMPTY_SNAPSHOT;
+let listening = false;
+let wrappedOpenAI: OpenAIAPI | undefined;
+let nextId = 0;
+let notifyScheduled = false;
+const listeners = new Set<() => void>();
+
+// Listeners run in a microtask, so recording a call made while
+// rendering never updates the panel mid-render
+function update(patch: Partial<DevtoolsSnapshot>) {
+  snapshot = { ...snapshot, ...patch };
+
+  if (notifyScheduled) return;
+
+  notifyScheduled = true;
+  queueMicrotask(() => {
+    notifyScheduled = false;
+    listeners.forEach(listener => listener());
+  });
+}
+
+function append<T>(list: T[], item: T): T[] {
+  return [...list, item].slice(-LIMIT);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Serializes a value for display, tolerating cycles and functions
+ */
+export function stringify(value: unknown): string {
+  const seen = new WeakSet<object>();
+
+  try {
+    return (
+      JSON.stringify(
+        value,
+        (_key, item: unknown) => {
+          if (typeof item === 'function') return '[Function]';
+
+          if (typeof item === 'object' && item !== null) {
+            if (seen.has(item)) return '[Circular]';
+
+            seen.add(item);
+          }
+
+          return item;
+        },
+        2
+      ) ?? String(value)
+    );
+  } catch {
+    return String(value);
+  }
+}
+
+function diffValues(
+  before: unknown,
+  after: unknown,
+  path: string,
+  changes: GlobalsChange[]
+) {
+  if (Object.is(before, after)) return;
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key =>
+      diffValues(before[key], after[key], `${path}.${key}`, changes)
+    );
+
+    return;
+  }
+
+  if (stringify(before) !== stringify(after)) {
+    changes.push({ path, before, after });
+  }
+}
+
+function readGlobals(openai: OpenAIAPI | undefined): Record<string, unknown> {
+  const globals: Record<string, unknown> = {};
+
+  if (!openai) return globals;
+
+  new Set([...GLOBAL_KEYS, ...Object.keys(openai)]).forEach(key => {
+    const value = (openai as unknown as Record<string, unknown>)[key];
+
+    if (typeof value !== 'function') {
+      globals[key] = value;
+    }
+  });
+
+  return globals;
+}
+
+function handleSetGlobals(event: SetGlobalsEvent) {
+  const { globals } = event.detail;
+  const changes: GlobalsChange[] = [];
+
+  Object.entries(globals).forEach(([key, value]) =>
+    diffValues(snapshot.globals[key], value, key, changes)
+  );
+
+  update({
+    globals: { ...readGlobals(window.openai), ...globals },
+    events: append(snapshot.events, {
+      id: ++nextId,
+      timestamp: Date.now(),
+      keys: Object.keys(globals),
+      changes,
+    }),
+  });
+}
+
+function handleRewrite(event: CustomEvent<BootstrapRewrite>) {
+  update({
+    rewrites: append(snapshot.rewrites, { ...event.detail, id: ++nextId }),
+  });
+}
+
+function finishCall(id: number, start: number, patch: Partial<CallEntry>) {
+  const durationMs = Math.round(performance.now() - start);
+
+  update({
+    calls: snapshot.calls.map(call =>
+      call.id === id ? { ...call, ...patch, durationMs } : call
+    ),
+  });
+}
+
+function wrapMethod(openai: OpenAIAPI, method: RecordedMethod): boolean {
+  const methods = openai as unknown as Record<
+    string,
+    ((...args: unknown[]) => unknown) | undefined
+  >;
+  const original = methods[method];
+
+  if (typeof original !== 'function') return true;
+
+  const wrapped = function (this: unknown, ...args: unknown[]) {
+    const id = ++nextId;
+    const start = performance.now();
+
+    update({
+      calls: append(snapshot.calls, {
+        id,
+        timestamp: Date.now(),
+        method,
+        label: method === 'callTool' ? String(args[0]) : method,
+        args: method === 'callTool' ? args[1] : args[0],
+        status: 'pending',
+      }),
+    });
+
+    const fail = (error: unknown) =>
+      finishCall(id, start, {
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    let result: unknown;
+
+    try {
+      result = original.apply(this, args);
+    } catch (error) {
+      fail(error);
+
+      throw error;
+    }
+
+    Promise.resolve(result).then(
+      value =>
+        finishCall(id, start, {
+          status:
+            isPlainObject(value) && value.isError === true
+              ? 'error'
+              : 'success',
+          result: value,
+        }),
+      fail
+    );
+
+    return result;
+  };
+
+  try {
+    methods[method] = wrapped;
+  } catch {
+    return false;
+  }
+
+  return methods[method] === wrapped;
+}
+
+/**
+ * Starts recording, once per page and again when `window.openai` is
+ * replaced. Safe to call on every render.
+ */
+export function startRecording() {
+  if (typeof window === 'undefined') return;
+
+  if (!listening) {
+    listening = true;
+    snapshot = {
+      ...snapshot,
+      globals: readGlobals(window.openai),
+      rewrites: (window.__chatGptRewrites ?? [])
+        .slice(-LIMIT)
+        .map(rewrite => ({ ...rewrite, id: ++nextId })),
+    };
+    window.addEventListener(SET_GLOBALS_EVENT_TYPE, handleSetGlobals, {
+      passive: true,
+    });
+    window.addEventListener(BOOTSTRAP_REWRITE_EVENT_TYPE, handleRewrite, {
+      passive: true,
+    });
+  }
+
+  const { openai } = window;
+
+  if (openai && wrappedOpenAI !== openai) {
+    wrappedOpenAI = openai;
+    snapshot = {
+      ...snapshot,
+      globals: readGlobals(openai),
+      recordingCalls: RECORDED_METHODS.map(method =>
+        wrapMethod(openai, method)
+      ).every(Boolean),
+    };
+  }
+}
+
+export function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getSnapshot(): DevtoolsSnapshot {
+  return snapshot;
+}
+
+export function getServerSnapshot(): DevtoolsSnapshot {
+  return EMPTY_SNAPSHOT;
+}
+
+/**
+ * Clears the recorded timelines, keeping the current globals
+ */
+export function clearRecording() {
+  update({ events: [], calls: [], rewrites: [] });
+}
@@ -0,0 +1,350 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { act } from 'react';
+import { render, renderHook, setupDom } from '../test-utils/render';
+import {
+  installResizeObservers,
+  type FakeResizeObservers,
+} from '../test-utils/resize-observer';
+import { createMockOpenAI, installMockOpenAI, setGlobals } from '../testing';
+import type { DisplayMode } from '../types/chatgpt';
+import {
+  useAutoHeight,
+  useDisplayModeRequest,
+  useWidgetState,
+  WIDGET_STATE_VERSION_KEY,
+  WidgetStateError,
+  type DisplayModeRequestResult,
+  type UseWidgetStateOptions,
+} from './index';
+
+setupDom();
+
+let uninstall: (() => void) | undefined;
+
+afterEach(() => {
+  uninstall?.();
+  uninstall = undefined;
+});
+
+describe('useDisplayModeRequest', () => {
+  const setup = (overrides: Parameters<typeof createMockOpenAI>[0] = {}) => {
+    const openai = createMockOpenAI(overrides);
+    const denied: DisplayModeRequestResult[] = [];
+    const downgraded: DisplayModeRequestResult[] = [];
+
+    uninstall = installMockOpenAI(openai);
+
+    const { result } = renderHook(() =>
+      useDisplayModeRequest({
+        onDenied: next => denied.push(next),
+        onDowngraded: next => downgraded.push(next),
+      })
+    );
+    const request = async (mode: DisplayMode) => {
+      let next: DisplayModeRequestResult | undefined;
+
+      await act(async () => {
+        next = await result.current.request(mode);
+      });
+
+      return next;
+    };
+
+    return { openai, result, request, denied, downgraded };
+  };
+
+  test('reports the mode the host granted', async () => {
+    const { openai, result, request } = setup();
+
+    expect(await request('fullscreen')).toEqual({
+      requested: 'fullscreen',
+      granted: 'fullscreen',
+      status: 'granted',
+    });
+    expect(openai.displayMode).toBe('fullscreen');
+    expect(result.current).toMatchObject({
+      pending: false,
+      result: { status: 'granted' },
+    });
+  });
+
+  test('tells denied requests from downgraded ones', async () => {
+    const { request, denied, downgraded } = setup({
+      requestDisplayMode: async ({ mode }) => ({
+        mode: mode === 'pip' ? 'fullscreen' : 'inline',
+      }),
+    });
+
+    expect(await request('fullscreen')).toMatchObject({
+      granted: 'inline',
+      status: 'denied',
+    });
+    expect(await request('pip')).toMatchObject({
+      granted: 'fullscreen',
+      status: 'downgraded',
+    });
+    expect(denied.map(({ requested }) => requested)).toEqual(['fullscreen']);
+    expect(downgraded.map(({ requested }) => requested)).toEqual(['pip']);
+  });
+
+  test('requests fullscreen for pip on mobile', async () => {
+    const { openai, request } = setup({
+      userAgent: {
+        device: { type: 'mobile' },
+        capabilities: { hover: false, touch: true },
+      },
+    });
+
+    expect(await request('pip')).toEqual({
+      requested: 'pip',
+      granted: 'fullscreen',
+      status: 'granted',
+    });
+    expect(openai.requestDisplayMode.calls).toEqual([[{ mode: 'fullscreen' }]]);
+  });
+
+  test('treats a rejected request as denied', async () => {
+    const { result, request, denied } = setup({
+      requestDisplayMode: () => Promise.reject(new Error('Not allowed')),
+    });
+
+    expect(await request('fullscreen')).toEqual({
+      requested: 'fullscreen',
+      granted: 'inline',
+      status: 'denied',
+    });
+    expect(denied).toHaveLength(1);
+    expect(result.current.pending).toBe(false);
+  });
+
+  test('reports unavailable outside ChatGPT', async () => {
+    const { result } = renderHook(() => useDisplayModeRequest());
+    let next: DisplayModeRequestResult | undefined;
+
+    await act(async () => {
+      next = await result.current.request('fullscreen');
+    });
+
+    expect(next).toEqual({
+      requested: 'fullscreen',
+      granted: null,
+      status: 'unavailable',
+    });
+  });
+});
+
+describe('useAutoHeight', () => {
+  let observers: FakeResizeObservers;
+
+  beforeEach(() => {
+    observers = installResizeObservers();
+  });
+
+  afterEach(() => {
+    observers.restore();
+  });
+
+  // Reports are coalesced per animation frame
+  const nextFrame = () => act(() => Bun.sleep(20));
+
+  function Measured({ enabled = true, offset = 0 }) {
+    const ref = useAutoHeight<HTMLDivElement>({ enabled, offset });
+
+    return <div ref={ref} />;
+  }
+
+  const setup = async (props: { enabled?: boolean; offset?: number } = {}) => {
+    const heights: number[] = [];
+
+    uninstall = installMockOpenAI(
+      createMockOpenAI({
+        notifyIntrinsicHeight: height => heights.push(height),
+      })
+    );
+
+    const view = render(<Measured {...props} />);
+    const element = view.container.firstElementChild!;
+
+    await nextFrame();
+
+    const resize = async (...next: number[]) => {
+      next.forEach(height => observers.resize(element, height));
+      await nextFrame();
+    };
+
+    return { ...view, heights, resize };
+  };
+
+  test('reports the height on mount and on resize, rounded up', async () => {
+    const { heights, resize } = await setup();
+
+    await resize(120.2);
+    await resize(180);
+
+    expect(heights).toEqual([0, 121, 180]);
+  });
+
+  test('reports each height once per frame', async () => {
+    const { heights, resize } = await setup();
+
+    await resize(100, 140, 160);
+    await resize(160);
+
+    expect(heights).toEqual([0, 160]);
+  });
+
+  test('adds the offset', async () => {
+    const { heights, resize } = await setup({ offset: 24 });
+
+    await resize(100);
+
+    expect(heights).toEqual([24, 124]);
+  });
+
+  test('stops reporting outside inline mode, when disabled and on unmount', async () => {
+    const { heights, resize, rerender, unmount } = await setup();
+
+    act(() => setGlobals({ displayMode: 'fullscreen' }));
+    await resize(200);
+    expect(heights).toEqual([0]);
+
+    act(() => setGlobals({ displayMode: 'inline' }));
+    await resize(200);
+    expect(heights).toEqual([0, 200]);
+
+    rerender(<Measured enabled={false} />);
+    await resize(300);
+    expect(heights).toEqual([0, 200]);
+    expect(observers.observed).toBe(0);
+
+    rerender(<Measured />);
+    await nextFrame();
+    expect(observers.observed).toBe(1);
+    unmount();
+    expect(observers.observed).toBe(0);
+  });
+
+  test('does nothing when the host cannot be notified', async () => {
+    uninstall = installMockOpenAI(createMockOpenAI());
+    render(<Measured />);
+
+    expect(observers.observed).toBe(0);
+  });
+});
+
+describe('useWidgetState', () => {
+  type Volume = { volume: number };
+
+  const setup = (
+    options: UseWidgetStateOptions<Volume> = {},
+    overrides: Parameters<typeof createMockOpenAI>[0] = {}
+  ) => {
+    const openai = createMockOpenAI(overrides);
+    const errors: WidgetStateError[] = [];
+
+    uninstall = installMockOpenAI(openai);
+
+    const { result } = renderHook(() =>
+      useWidgetState<Volume>(
+        { volume: 50 },
+        { ...options, onError: error => errors.push(error) }
+      )
+    );
+    const set = (volume: number) =>
+      act(() => result.current[1](prev => ({ volume: prev.volume + volume })));
+
+    return { openai, result, set, errors };
+  };
+
+  const settle = (ms = 0) => act(() => Bun.sleep(ms));
+
+  test('persists every update and tracks the write', async () => {
+    const { openai, result, set } = setup();
+
+    expect(result.current[2]).toBe('idle');
+
+    set(10);
+    expect(result.current[0]).toEqual({ volume: 60 });
+    expect(result.current[2]).toBe('saving');
+
+    await settle();
+    expect(result.current[2]).toBe('saved');
+    expect(openai.setWidgetState.calls).toEqual([[{ volume: 60 }]]);
+  });
+
+  test('coalesces rapid updates into one debounced write', async () => {
+    const { openai, result, set } = setup({ debounce: 20 });
+
+    set(1);
+    set(1);
+    set(1);
+    expect(result.current).toEqual([
+      { volume: 53 },
+      expect.any(Function),
+      'saving',
+    ]);
+    expect(openai.setWidgetState.calls).toEqual([]);
+
+    await settle(40);
+    expect(openai.setWidgetState.calls).toEqual([[{ volume: 53 }]]);
+    expect(result.current[2]).toBe('saved');
+  });
+
+  test('keeps oversized state local and reports it', async () => {
+    const { openai, result, set, errors } = setup({ maxSize: 10 });
+
+    set(1000);
+    await settle();
+
+    expect(result.current[0]).toEqual({ volume: 1050 });
+    expect(result.current[2]).toBe('error');
+    expect(openai.setWidgetState.calls).toEqual([]);
+    expect(errors[0]).toBeInstanceOf(WidgetStateError);
+    expect(errors[0]).toMatchObject({ code: 'too_large', size: 15 });
+  });
+
+  test('reports writes the host rejects', async () => {
+    const { result, set, errors } = setup(
+      {},
+      { setWidgetState: () => Promise.reject(new Error('Quota exceeded')) }
+    );
+
+    set(1);
+    await settle();
+
+    expect(result.current[2]).toBe('error');
+    expect(errors[0]).toMatchObject({
+      code: 'write_failed',
+      message: 'Failed to save widget state: Quota exceeded',
+    });
+  });
+
+  test('stores the version and migrates older state', async () => {
+    const { openai, result, set } = setup(
+      {
+        version: 2,
+        migrate: (old, from) =>
+          from === 0 ? { volume: Number(old.level) * 10 } : null,
+      },
+      { widgetState: { level: 7 } }
+    );
+
+    expect(result.current[0]).toEqual({ volume: 70 });
+
+    set(5);
+    await settle();
+
+    expect(openai.setWidgetState.calls).toEqual([
+      [{ volume: 75, [WIDGET_STATE_VERSION_KEY]: 2 }],
+    ]);
+  });
+
+  test('discards state of another version without migrate', () => {
+    const { result } = setup(
+      { version: 2 },
+      { widgetState: { volume: 10, [WIDGET_STATE_VERSION_KEY]: 1 } }
+    );
+
+    expect(result.current[0]).toEqual({ volume: 50 });
+  });
+});
@@ -4,9 +4,18 @@
  * React hooks for ChatGPT integration
  */
 
-import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import { trackEvent, trackTiming } from '../telemetry';
 import {
   SET_GLOBALS_EVENT_TYPE,
+  type CallToolResponse,
   type DisplayMode,
   type OpenAIAPI,
   type SafeArea,
@@ -14,9 +23,47 @@ import {
   type Theme,
   type UserAgent,
 } from '../types/chatgpt';
+import type { InferToolInput, InferToolOutput } from '../types/mcp';
+import { getErrorText } from './tool-query';
+
+export { createToolClient } from './tool-client';
+export type {
+  ToolClient,
+  ToolMap,
+  ToolMapInput,
+  ToolMapOutput,
+  ToolSignature,
+} from './tool-client';
+export {
+  getToolQueryKey,
+  invalidateToolQueries,
+  setToolQueryData,
+  ToolError,
+  useToolMutation,
+  useToolQuery,
+} from './tool-query';
+export type {
+  ToolErrorCode,
+  ToolOptimisticUpdate,
+  ToolRequestStatus,
+  ToolRetryOptions,
+  UseToolMutationOptions,
+  UseToolMutationResult,
+  UseToolQueryOptions,
+  UseToolQueryResult,
+} from './tool-query';
 
 type SetStateAction<T> = T | ((prev: T) => T);
 
+// Telemetry records where links lead, not the full URL
+function getHost(href: string): string {
+  try {
+    return new URL(href, window.location.href).host;
+  } catch {
+    return '';
+  }
+}
+
 /**
  * Base hook to subscribe to specific OpenAI global properties
  * Listens for openai:set_globals events and updates reactively
@@ -77,38 +124,78 @@ export function useChatGPT() {
   }, []);
 
   const sendFollowUpMessage = useCallback(async (prompt: string) => {
-    if (window.openai?.sendFollowUpMessage) {
-      await window.openai.sendFollowUpMessage({ prompt });
-    } else if (window.openai?.sendMessage) {
-      // Fallback to deprecated method
-      window.openai.sendMessage(prompt);
-    }
+    const { openai } = window;
+
+    if (!openai?.sendFollowUpMessage && !openai?.sendMessage) return;
+
+    await trackTiming(
+      'follow_up_message',
+      async () => {
+        if (openai.sendFollowUpMessage) {
+          await openai.sendFollowUpMessage({ prompt });
+        } else {
+          // Fallback to deprecated method
+          openai.sendMessage?.(prompt);
+        }
+      },
+      ({ error }, durationMs) => ({ length: prompt.length, durationMs, error })
+    );
   }, []);
 
   const openExternal = useCallback((href: string) => {
     if (window.openai?.openExternal) {
+      trackEvent('open_external', { host: getHost(href) });
       window.openai.openExternal({ href });
     }
   }, []);
 
   const callTool = useCallback(
     async (name: string, args: Record<string, unknown>) => {
-      if (window.openai?.callTool) {
-        return await window.openai.callTool(name, args);
+      const { openai } = window;
+
+      if (openai?.callTool) {
+        return await trackTiming(
+          'tool_call',
+          () => openai.callTool(name, args),
+          ({ value, error }, durationMs) => ({
+            tool: name,
+            durationMs,
+            attempt: 1,
+            error: error ?? (value?.isError ? getErrorText(value) : undefined),
+          })
+        );
       }
 
-      return { content: [], structuredContent: null };
+      return {
+        content: [{ type: 'text', text: 'ChatGPT is not available' }],
+        isError: true,
+      } satisfies CallToolResponse;
     },
     []
   );
 
-  const requestDisplayMode = useCallback(async (mode: DisplayMode) => {
-    if (window.openai?.requestDisplayMode) {
-      return await window.openai.requestDisplayMode({ mode });
-    }
+  // Resolves with `null` outside ChatGPT, where no mode can be granted
+  const requestDisplayMode = useCallback(
+    async (mode: DisplayMode): Promise<{ mode: DisplayMode } | null> => {
+      const { openai } = window;
+
+      if (openai?.requestDisplayMode) {
+        return await trackTiming(
+          'display_mode_request',
+          () => openai.requestDisplayMode({ mode }),
+          ({ value, error }, durationMs) => ({
+            requested: mode,
+            granted: value?.mode ?? null,
+            durationMs,
+            error,
+          })
+        );
+      }
 
-    return { mode: 'inline' as DisplayMode };
-  }, []);
+      return null;
+    },
+    []
+  );
 
   return {
     sendMessage: sendFollowUpMessage,
@@ -190,9 +277,196 @@ export function useRequestDisplayMode() {
   return requestDisplayMode;
 }
 
+/**
+ * How the host answered a display mode request
+ *
+ * - granted: the host switched to the requested mode
+ * - downgraded: the host switched to another mode
+ * - denied: the host kept the current mode, or rejected the request
+ * - unavailable: not running inside ChatGPT
+ */
+export type DisplayModeRequestStatus =
+  | 'granted'
+  | 'downgraded'
+  | 'denied'
+  | 'unavailable';
+
+export interface DisplayModeRequestResult {
+  requested: DisplayMode;
+  granted: DisplayMode | null;
+  status: DisplayModeRequestStatus;
+}
+
+export interface UseDisplayModeRequestOptions {
+  onDenied?: (result: DisplayModeRequestResult) => void;
+  onDowngraded?: (result: DisplayModeRequestResult) => void;
+}
+
+/**
+ * Hook to request display modes and find out what the host granted
+ *
+ * On mobile, picture-in-picture is requested as fullscreen, as the host
+ * would grant it.
+ *
+ * @example
+ * ```tsx
+ * const { request, pending, result } = useDisplayModeRequest({
+ *   onDenied: () => toast('Fullscreen is not available here'),
+ * });
+ *
+ * <button disabled={pending} onClick={() => request('pip')}>
+ *   Pop out
+ * </button>
+ * ```
+ */
+export function useDisplayModeRequest(
+  options: UseDisplayModeRequestOptions = {}
+) {
+  const requestDisplayMode = useRequestDisplayMode();
+  const userAgent = useUserAgent();
+  const optionsRef = useRef(options);
+  const [pending, setPending] = useState(false);
+  const [result, setResult] = useState<DisplayModeRequestResult | null>(null);
+
+  optionsRef.current = options;
+
+  const request = useCallback(
+    async (requested: DisplayMode): Promise<DisplayModeRequestResult> => {
+      const target =
+        requested === 'pip' && userAgent?.device.type === 'mobile'
+          ? 'fullscreen'
+          : requested;
+      const previous = window.openai?.displayMode ?? null;
+
+      setPending(true);
+
+      try {
+        // A rejected request leaves the widget in its current mode
+        const response = await requestDisplayMode(target).catch(() => ({
+          mode: window.openai?.displayMode ?? previous,
+        }));
+        const granted = response
+          ? (response.mode ?? window.openai?.displayMode ?? null)
+          : null;
+        let status: DisplayModeRequestStatus = 'downgraded';
+
+        if (!response) {
+          status = 'unavailable';
+        } else if (granted === target) {
+          status = 'granted';
+        } else if (granted === previous) {
+          status = 'denied';
+        }
+
+        const next = { requested, granted, status };
+
+        setResult(next);
+
+        if (status === 'denied') {
+          optionsRef.current.onDenied?.(next);
+        } else if (status === 'downgraded') {
+          optionsRef.current.onDowngraded?.(next);
+        }
+
+        return next;
+      } finally {
+        setPending(false);
+      }
+    },
+    [requestDisplayMode, userAgent]
+  );
+
+  return { request, pending, result };
+}
+
+/**
+ * Key under which `useWidgetState` stores the `version` of persisted state
+ */
+export const WIDGET_STATE_VERSION_KEY = '__version';
+
+/**
+ * Progress of the latest widget state write
+ */
+export type WidgetStateStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+/**
+ * Error raised when widget state cannot be persisted
+ */
+export class WidgetStateError extends Error {
+  declare readonly code: 'too_large' | 'write_failed';
+  declare readonly size?: number;
+
+  constructor(
+    code: WidgetStateError['code'],
+    message: string,
+    options: { size?: number; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'WidgetStateError';
+    this.code = code;
+    this.size = options.size;
+  }
+}
+
+export interface UseWidgetStateOptions<T> {
+  /**
+   * Wait this many milliseconds after the last update before writing, so
+   * rapid updates (drags, sliders) are coalesced into one write. Defaults to
+   * 0, which writes every update.
+   */
+  debounce?: number;
+
+  /**
+   * Largest serialized state, in bytes, to send to ChatGPT. Larger states
+   * are kept locally but not persisted.
+   */
+  maxSize?: number;
+
+  /**
+   * Called when a write is skipped for size or rejected by the host
+   */
+  onError?: (error: WidgetStateError) => void;
+
+  /**
+   * Version of the state shape, stored alongside the state
+   */
+  version?: number;
+
+  /**
+   * Upgrades state persisted with another `version` (0 when it had none).
+   * Without it, such state is discarded in favour of the default.
+   */
+  migrate?: (state: Record<string, unknown>, fromVersion: number) => T | null;
+}
+
+function fromPersistedState<T>(
+  persisted: Record<string, unknown> | null | undefined,
+  { version, migrate }: UseWidgetStateOptions<T>
+): T | null {
+  if (persisted == null) {
+    return null;
+  }
+
+  if (version === undefined) {
+    return persisted as T;
+  }
+
+  const { [WIDGET_STATE_VERSION_KEY]: storedVersion = 0, ...state } = persisted;
+
+  if (storedVersion === version) {
+    return state as T;
+  }
+
+  return migrate ? migrate(state, Number(storedVersion)) : null;
+}
+
 /**
  * Hook to manage widget state with persistence
  *
+ * Writes can be debounced and size-capped, and state persisted by an older
+ * `version` of the widget is upgraded with `migrate`. The third item tracks
+ * the latest write.
+ *
  * @example
  * ```tsx
  * const [state, setState] = useWidgetState({ count: 0 });
@@ -201,17 +475,51 @@ export function useRequestDisplayMode() {
  *   Count: {state.count}
  * </button>
  * ```
+ *
+ * @example
+ * ```tsx
+ * const [state, setState, status] = useWidgetState(
+ *   { volume: 50 },
+ *   {
+ *     debounce: 300,
+ *     maxSize: 4096,
+ *     onError: error => console.warn(error.message),
+ *     version: 2,
+ *     migrate: (old, from) => (from < 2 ? { volume: Number(old.level) } : null),
+ *   }
+ * );
+ * ```
  */
 export function useWidgetState<T extends Record<string, unknown>>(
-  defaultState: T | (() => T)
-): readonly [T, (state: SetStateAction<T>) => void];
+  defaultState: T | (() => T),
+  options?: UseWidgetStateOptions<T>
+): readonly [T, (state: SetStateAction<T>) => void, WidgetStateStatus];
 export function useWidgetState<T extends Record<string, unknown>>(
-  defaultState?: T | (() => T | null) | null
-): readonly [T | null, (state: SetStateAction<T | null>) => void];
+  defaultState?: T | (() => T | null) | null,
+  options?: UseWidgetStateOptions<T>
+): readonly [
+  T | null,
+  (state: SetStateAction<T | null>) => void,
+  WidgetStateStatus,
+];
 export function useWidgetState<T extends Record<string, unknown>>(
-  defaultState?: T | (() => T | null) | null
-): readonly [T | null, (state: SetStateAction<T | null>) => void] {
-  const widgetStateFromWindow = useOpenAiGlobal('widgetState') as T | null;
+  defaultState?: T | (() => T | null) | null,
+  options: UseWidgetStateOptions<T> = {}
+): readonly [
+  T | null,
+  (state: SetStateAction<T | null>) => void,
+  WidgetStateStatus,
+] {
+  const persistedState = useOpenAiGlobal('widgetState');
+  const optionsRef = useRef(options);
+
+  optionsRef.current = options;
+
+  // Migrate once per persisted value rather than on every render
+  const widgetStateFromWindow = useMemo(
+    () => fromPersistedState(persistedState, optionsRef.current),
+    [persistedState]
+  );
 
   const [widgetState, _setWidgetState] = useState<T | null>(() => {
     if (widgetStateFromWindow != null) {
@@ -222,26 +530,131 @@ export function useWidgetState<T extends Record<string, unknown>>(
       ? defaultState()
       : (defaultState ?? null);
   });
+  const [status, setStatus] = useState<WidgetStateStatus>('idle');
+
+  // Latest state, so updates made before a re-render build on each other
+  const stateRef = useRef(widgetState);
+  const pendingRef = useRef<T | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const writeIdRef = useRef(0);
 
   useEffect(() => {
-    if (widgetStateFromWindow != null) {
+    // A debounced local update is newer than what the host has
+    if (widgetStateFromWindow != null && pendingRef.current == null) {
+      stateRef.current = widgetStateFromWindow;
       _setWidgetState(widgetStateFromWindow);
     }
   }, [widgetStateFromWindow]);
 
-  const setWidgetState = useCallback((state: SetStateAction<T | null>) => {
-    _setWidgetState(prevState => {
-      const newState = typeof state === 'function' ? state(prevState) : state;
+  const flush = useCallback(() => {
+    const state = pendingRef.current;
+    const { maxSize, onError, version } = optionsRef.current;
+
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
 
-      if (newState != null && window.openai?.setWidgetState) {
-        window.openai.setWidgetState(newState);
+    pendingRef.current = null;
+
+    if (state == null || !window.openai?.setWidgetState) return;
+
+    const writeId = ++writeIdRef.current;
+    const fail = (error: WidgetStateError) => {
+      if (writeId === writeIdRef.current) {
+        setStatus('error');
       }
 
-      return newState;
-    });
+      onError?.(error);
+    };
+    const persisted =
+      version === undefined
+        ? state
+        : { ...state, [WIDGET_STATE_VERSION_KEY]: version };
+
+    const size = new TextEncoder().encode(JSON.stringify(persisted)).length;
+
+    if (maxSize !== undefined && size > maxSize) {
+      const error = new WidgetStateError(
+        'too_large',
+        `Widget state is ${size} bytes, over the ${maxSize} byte limit`,
+        { size }
+      );
+
+      trackEvent('widget_state_write', {
+        bytes: size,
+        durationMs: 0,
+        error: error.message,
+      });
+      fail(error);
+
+      return;
+    }
+
+    setStatus('saving');
+
+    Promise.resolve()
+      .then(() =>
+        trackTiming(
+          'widget_state_write',
+          () => window.openai?.setWidgetState(persisted),
+          ({ error }, durationMs) => ({ bytes: size, durationMs, error })
+        )
+      )
+      .then(
+        () => {
+          if (writeId === writeIdRef.current) {
+            setStatus('saved');
+          }
+        },
+        (error: unknown) =>
+          fail(
+            new WidgetStateError(
+              'write_failed',
+              `Failed to save widget state: ${error instanceof Error ? error.message : String(error)}`,
+              { cause: error }
+            )
+          )
+      );
   }, []);
 
-  return [widgetState, setWidgetState] as const;
+  // Don't lose a debounced write when the widget unmounts
+  useEffect(() => flush, [flush]);
+
+  const setWidgetState = useCallback(
+    (state: SetStateAction<T | null>) => {
+      const newState =
+        typeof state === 'function' ? state(stateRef.current) : state;
+
+      stateRef.current = newState;
+      _setWidgetState(newState);
+
+      if (newState == null) return;
+
+      pendingRef.current = newState;
+
+      const { debounce = 0 } = optionsRef.current;
+
+      if (debounce <= 0) {
+        flush();
+
+        return;
+      }
+
+      if (window.openai?.setWidgetState) {
+        setStatus('saving');
+      }
+
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+      }
+
+      timerRef.current = setTimeout(flush, debounce);
+    },
+    [flush]
+  );
+
+  return [widgetState, setWidgetState, status] as const;
 }
 
 /**
@@ -253,33 +666,45 @@ export function useWidgetState<T extends Record<string, unknown>>(
  * const name = toolOutput?.name;
  * ```
  */
-export function useWidgetProps<T = unknown>(): T | null {
-  return useOpenAiGlobal('toolOutput') as T | null;
+export function useWidgetProps<T = unknown>(): InferToolOutput<T> | null {
+  return useOpenAiGlobal('toolOutput') as InferToolOutput<T> | null;
 }
 
 /**
  * Hook to access specific tool output data
  *
+ * Accepts either the output type or a tool declared with `defineTool`.
+ *
  * @example
  * ```tsx
  * const data = useToolOutput<{ name: string; timestamp: string }>();
+ *
+ * // Typed from the tool definition
+ * import type { getWeather } from '@/tools';
+ * const weather = useToolOutput<typeof getWeather>();
  * ```
  */
-export function useToolOutput<T = unknown>(): T | null {
+export function useToolOutput<T = unknown>(): InferToolOutput<T> | null {
   return useWidgetProps<T>();
 }
 
 /**
  * Hook to access tool input parameters
  *
+ * Accepts either the input type or a tool declared with `defineTool`.
+ *
  * @example
  * ```tsx
  * const input = useToolInput<{ city: string }>();
  * const city = input?.city;
+ *
+ * // Typed from the tool definition
+ * import type { getWeather } from '@/tools';
+ * const { city } = useToolInput<typeof getWeather>() ?? {};
  * ```
  */
-export function useToolInput<T = unknown>(): T | null {
-  return useOpenAiGlobal('toolInput') as T | null;
+export function useToolInput<T = unknown>(): InferToolInput<T> | null {
+  return useOpenAiGlobal('toolInput') as InferToolInput<T> | null;
 }
 
 /**
@@ -384,6 +809,81 @@ export function useSafeArea(): SafeArea | null {
   return useOpenAiGlobal('safeArea') as SafeArea | null;
 }
 
+export interface UseAutoHeightOptions {
+  /**
+   * Whether to report the height (defaults to true)
+   */
+  enabled?: boolean;
+
+  /**
+   * Pixels added to the measured height, e.g. padding around the element
+   */
+  offset?: number;
+}
+
+/**
+ * Hook to report an element's height to ChatGPT as the widget's intrinsic
+ * height, so inline widgets are sized to their content
+ *
+ * Heights are reported through `window.openai.notifyIntrinsicHeight` when the
+ * host supports it, and only in inline mode, where the host sizes the frame.
+ *
+ * @example
+ * ```tsx
+ * const ref = useAutoHeight<HTMLDivElement>();
+ *
+ * return <div ref={ref}>{content}</div>;
+ * ```
+ */
+export function useAutoHeight<T extends HTMLElement = HTMLElement>({
+  enabled = true,
+  offset = 0,
+}: UseAutoHeightOptions = {}): (element: T | null) => void {
+  const [element, setElement] = useState<T | null>(null);
+  const displayMode = useDisplayMode();
+  const active = enabled && (displayMode ?? 'inline') === 'inline';
+
+  useEffect(() => {
+    if (
+      !element ||
+      !active ||
+      typeof ResizeObserver === 'undefined' ||
+      !window.openai?.notifyIntrinsicHeight
+    ) {
+      return undefined;
+    }
+
+    let frame = 0;
+    let lastHeight = -1;
+
+    const report = () => {
+      cancelAnimationFrame(frame);
+      // Coalesce resizes within a frame into one report
+      frame = requestAnimationFrame(() => {
+        const height = Math.ceil(
+          element.getBoundingClientRect().height + offset
+        );
+
+        if (height !== lastHeight) {
+          lastHeight = height;
+          window.openai?.notifyIntrinsicHeight?.(height);
+        }
+      });
+    };
+    const observer = new ResizeObserver(report);
+
+    observer.observe(element);
+    report();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+    };
+  }, [element, active, offset]);
+
+  return setElement;
+}
+
 /**
  * Hook to check if the app is running inside ChatGPT
  *
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { act } from 'react';
+import { defineTool } from '../mcp/registry';
+import { renderHook, setupDom } from '../test-utils/render';
+import {
+  createMockOpenAI,
+  installMockOpenAI,
+  type MockOpenAI,
+} from '../testing';
+import { createToolClient } from './tool-client';
+import { ToolError } from './tool-query';
+
+setupDom();
+
+let openai: MockOpenAI;
+let uninstall: () => void;
+
+beforeEach(() => {
+  openai = createMockOpenAI();
+  uninstall = installMockOpenAI(openai);
+});
+
+afterEach(() => {
+  uninstall();
+});
+
+const flush = () => act(() => Bun.sleep(0));
+
+// Shaped like the output of `next-chatgpt-apps generate-types`
+interface GeneratedTools {
+  get_weather: {
+    input: { city: string; units?: 'c' | 'f' };
+    output: { temperature: number };
+  };
+}
+
+const addTodo = defineTool<{ title: string }, { id: string }>({
+  name: 'add_todo',
+  description: 'Adds a todo',
+  inputSchema: {
+    type: 'object',
+    properties: { title: { type: 'string' } },
+    required: ['title'],
+  },
+  handler: ({ title }) => ({ structuredContent: { id: title } }),
+});
+
+const tools = createToolClient<GeneratedTools & { add_todo: typeof addTodo }>();
+
+describe('createToolClient', () => {
+  test('calls tools through the host', async () => {
+    openai.callTool.mockImplementation(async () => ({
+      content: [],
+      structuredContent: { temperature: 21 },
+    }));
+
+    const { structuredContent } = await tools.call('get_weather', {
+      city: 'Lisbon',
+    });
+    const { temperature } = structuredContent;
+
+    expect(temperature).toBe(21);
+    expect(openai.callTool.calls).toEqual([
+      ['get_weather', { city: 'Lisbon' }],
+    ]);
+  });
+
+  test('rejects failed calls with a ToolError', async () => {
+    openai.callTool.mockImplementation(async () => ({
+      content: [{ type: 'text', text: 'City not found' }],
+      isError: true,
+    }));
+
+    const call = tools.call('get_weather', { city: 'Atlantis' });
+
+    await expect(call).rejects.toBeInstanceOf(ToolError);
+    await expect(call).rejects.toThrow('City not found');
+  });
+
+  test('queries and mutates with typed results', async () => {
+    openai.callTool.mockImplementation(async name => ({
+      content: [],
+      structuredContent:
+        name === addTodo.name ? { id: 'todo-1' } : { temperature: 18 },
+    }));
+
+    const args = { city: 'Porto' };
+    const query = renderHook(() => tools.useQuery('get_weather', args));
+    const mutation = renderHook(() => tools.useMutation('add_todo'));
+
+    await flush();
+
+    const temperature: number | undefined =
+      query.result.current.data?.temperature;
+
+    expect(temperature).toBe(18);
+
+    let created: { id: string } | undefined;
+
+    await act(async () => {
+      created = await mutation.result.current.mutate({ title: 'Buy milk' });
+    });
+
+    expect(created).toEqual({ id: 'todo-1' });
+    expect(openai.callTool.calls).toEqual([
+      ['get_weather', { city: 'Porto' }],
+      ['add_todo', { title: 'Buy milk' }],
+    ]);
+  });
+
+  test('checks names and arguments against the tool map', () => {
+    const check = () => {
+      // @ts-expect-error: not a tool in the map
+      void tools.call('get_forecast', { city: 'Lisbon' });
+      // @ts-expect-error: `city` is required
+      void tools.call('get_weather', {});
+      // @ts-expect-error: `units` is 'c' or 'f'
+      void tools.call('get_weather', { city: 'Lisbon', units: 'k' });
+      // @ts-expect-error: arguments of another tool
+      void tools.call('add_todo', { city: 'Lisbon' });
+    };
+
+    expect(check).toBeFunction();
+  });
+});
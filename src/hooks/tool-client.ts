@@ -0,0 +1,151 @@
+'use client';
+
+/**
+ * Tool calls typed from a map of tool names to input and output types
+ */
+
+import type { ChatGPTToolOutput } from '../types/chatgpt';
+import type { ToolDefinition } from '../types/mcp';
+import {
+  runTool,
+  useToolMutation,
+  useToolQuery,
+  type ToolRetryOptions,
+  type UseToolMutationOptions,
+  type UseToolMutationResult,
+  type UseToolQueryOptions,
+  type UseToolQueryResult,
+} from './tool-query';
+
+/**
+ * Input and output types of a tool, as generated by
+ * `next-chatgpt-apps generate-types`
+ */
+export interface ToolSignature<
+  TInput extends object = Record<string, unknown>,
+  TOutput extends object = Record<string, unknown>,
+> {
+  input: TInput;
+  output: TOutput;
+}
+
+/**
+ * Tools by name, either as signatures or as `defineTool` definitions
+ */
+export type ToolMap<T> = {
+  [K in keyof T]:
+    | ToolSignature<object, object>
+    | ToolDefinition<object, object>;
+};
+
+export type ToolMapInput<T> =
+  T extends ToolDefinition<infer TInput, object>
+    ? TInput
+    : T extends ToolSignature<infer TInput, object>
+      ? TInput
+      : never;
+
+export type ToolMapOutput<T> =
+  T extends ToolDefinition<object, infer TOutput>
+    ? TOutput
+    : T extends ToolSignature<object, infer TOutput>
+      ? TOutput
+      : never;
+
+type ToolName<Tools> = keyof Tools & string;
+
+export interface ToolClient<Tools extends ToolMap<Tools>> {
+  /**
+   * Calls a tool, rejecting with a `ToolError` when it fails
+   */
+  call<K extends ToolName<Tools>>(
+    name: K,
+    args: ToolMapInput<Tools[K]>,
+    options?: ToolRetryOptions
+  ): Promise<ChatGPTToolOutput<ToolMapOutput<Tools[K]>>>;
+
+  /**
+   * `useToolQuery`, typed from the tool map
+   */
+  useQuery<K extends ToolName<Tools>>(
+    name: K,
+    args: ToolMapInput<Tools[K]>,
+    options?: UseToolQueryOptions<ToolMapOutput<Tools[K]>>
+  ): UseToolQueryResult<ToolMapOutput<Tools[K]>>;
+
+  /**
+   * `useToolMutation`, typed from the tool map
+   */
+  useMutation<K extends ToolName<Tools>>(
+    name: K,
+    options?: UseToolMutationOptions<
+      ToolMapInput<Tools[K]>,
+      ToolMapOutput<Tools[K]>
+    >
+  ): UseToolMutationResult<ToolMapInput<Tools[K]>, ToolMapOutput<Tools[K]>>;
+}
+
+/**
+ * Creates a tool client whose names, arguments and results are checked
+ * against `Tools`
+ *
+ * The map can be generated from a running server with
+ * `next-chatgpt-apps generate-types`, or written from `defineTool`
+ * definitions.
+ *
+ * @example
+ * ```tsx
+ * import type { ChatGPTTools } from './chatgpt-tools';
+ *
+ * export const tools = createToolClient<ChatGPTTools>();
+ *
+ * const { structuredContent } = await tools.call('get_weather', {
+ *   city: 'Lisbon',
+ * });
+ *
+ * // In a component
+ * const { data } = tools.useQuery('get_weather', { city });
+ * ```
+ *
+ * @example
+ * ```ts
+ * import type { getWeather, listTodos } from '@/tools';
+ *
+ * const tools = createToolClient<{
+ *   get_weather: typeof getWeather;
+ *   list_todos: typeof listTodos;
+ * }>();
+ * ```
+ */
+export function createToolClient<
+  Tools extends ToolMap<Tools>,
+>(): ToolClient<Tools> {
+  return {
+    async call(name, args, options = {}) {
+      const response = await runTool(
+        name,
+        args as Record<string, unknown>,
+        options,
+        new AbortController().signal
+      );
+
+      return response as ChatGPTToolOutput<ToolMapOutput<Tools[typeof name]>>;
+    },
+
+    useQuery(name, args, options) {
+      type Tool = Tools[typeof name];
+
+      return useToolQuery<
+        ToolDefinition<ToolMapInput<Tool>, ToolMapOutput<Tool>>
+      >(name, args, options);
+    },
+
+    useMutation(name, options) {
+      type Tool = Tools[typeof name];
+
+      return useToolMutation<
+        ToolDefinition<ToolMapInput<Tool>, ToolMapOutput<Tool>>
+      >(name, options);
+    },
+  };
+}
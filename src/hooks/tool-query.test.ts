@@ -0,0 +1,340 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { act } from 'react';
+import { renderHook, setupDom } from '../test-utils/render';
+import {
+  createMockOpenAI,
+  installMockOpenAI,
+  type MockOpenAI,
+} from '../testing';
+import type { CallToolResponse } from '../types/chatgpt';
+import {
+  getToolQueryKey,
+  invalidateToolQueries,
+  runTool,
+  setToolQueryData,
+  ToolError,
+  useToolMutation,
+  useToolQuery,
+} from './tool-query';
+
+setupDom();
+
+let openai: MockOpenAI;
+let uninstall: () => void;
+
+beforeEach(() => {
+  openai = createMockOpenAI();
+  uninstall = installMockOpenAI(openai);
+});
+
+afterEach(() => {
+  uninstall();
+});
+
+const ok = (structuredContent: Record<string, unknown>): CallToolResponse => ({
+  content: [],
+  structuredContent,
+});
+
+/**
+ * Lets pending promises and the renders they trigger settle
+ */
+const flush = () => act(() => Bun.sleep(0));
+
+// The cache is module-wide, so each test queries its own arguments
+let queryId = 0;
+const nextArgs = () => ({ id: ++queryId });
+
+describe('getToolQueryKey', () => {
+  test('ignores argument order and undefined values', () => {
+    expect(getToolQueryKey('search', { b: 1, a: [{ y: 2, x: 1 }] })).toBe(
+      getToolQueryKey('search', { a: [{ x: 1, y: 2 }], b: 1, c: undefined })
+    );
+  });
+});
+
+describe('runTool', () => {
+  const run = (retry = 0) =>
+    runTool(
+      'get_weather',
+      {},
+      { retry, retryDelay: () => 0 },
+      new AbortController().signal
+    );
+
+  test('retries failed calls but not tool errors', async () => {
+    const responses: Array<() => Promise<CallToolResponse>> = [
+      () => Promise.reject(new Error('offline')),
+      async () => ok({ temperature: 21 }),
+      async () => ({
+        isError: true,
+        content: [{ type: 'text', text: 'Unknown city' }],
+        structuredContent: {},
+      }),
+    ];
+
+    openai.callTool.mockImplementation(() => responses.shift()!());
+
+    expect(await run(1)).toEqual(ok({ temperature: 21 }));
+    await expect(run(1)).rejects.toMatchObject({
+      code: 'tool_error',
+      message: 'Unknown city',
+    });
+    expect(openai.callTool.calls).toHaveLength(3);
+  });
+
+  test('reports the last failure once retries run out', async () => {
+    openai.callTool.mockImplementation(() =>
+      Promise.reject(new Error('offline'))
+    );
+
+    const error = await run(2).catch((reason: ToolError) => reason);
+
+    expect(error).toBeInstanceOf(ToolError);
+    expect(error).toMatchObject({ code: 'call_failed', message: 'offline' });
+    expect(openai.callTool.calls).toHaveLength(3);
+  });
+
+  test('fails without window.openai', async () => {
+    uninstall();
+    await expect(run()).rejects.toMatchObject({ code: 'unavailable' });
+    uninstall = installMockOpenAI(openai);
+  });
+});
+
+describe('useToolQuery', () => {
+  test('shares one call between identical queries', async () => {
+    const args = nextArgs();
+
+    openai.callTool.mockImplementation(async () => ok({ temperature: 21 }));
+
+    const first = renderHook(() => useToolQuery('get_weather', args));
+    const second = renderHook(() => useToolQuery('get_weather', { ...args }));
+
+    expect(first.result.current.isLoading).toBe(true);
+    await flush();
+
+    expect(openai.callTool.calls).toEqual([['get_weather', args]]);
+    expect(first.result.current.data).toEqual({ temperature: 21 });
+    expect(second.result.current).toMatchObject({
+      data: { temperature: 21 },
+      status: 'success',
+    });
+  });
+
+  test('serves fresh cached results and refetches when invalidated', async () => {
+    const args = nextArgs();
+    let temperature = 20;
+
+    openai.callTool.mockImplementation(async () => ok({ temperature }));
+
+    renderHook(() => useToolQuery('get_weather', args));
+    await flush();
+
+    temperature = 25;
+
+    const cached = renderHook(() =>
+      useToolQuery('get_weather', args, { staleTime: 60_000 })
+    );
+
+    await flush();
+    expect(openai.callTool.calls).toHaveLength(1);
+    expect(cached.result.current.data).toEqual({ temperature: 20 });
+
+    act(() => invalidateToolQueries('get_weather'));
+    await flush();
+
+    expect(cached.result.current.data).toEqual({ temperature: 25 });
+  });
+
+  test('reports errors and calls onError', async () => {
+    const args = nextArgs();
+    const errors: ToolError[] = [];
+
+    openai.callTool.mockImplementation(async () => ({
+      isError: true,
+      content: [{ type: 'text', text: 'Unknown city' }],
+      structuredContent: {},
+    }));
+
+    const { result } = renderHook(() =>
+      useToolQuery('get_weather', args, {
+        onError: error => errors.push(error),
+      })
+    );
+
+    await flush();
+
+    expect(result.current.status).toBe('error');
+    expect(result.current.error?.message).toBe('Unknown city');
+    expect(errors).toEqual([result.current.error!]);
+  });
+
+  test('does not call the tool while disabled', async () => {
+    const args = nextArgs();
+    const { result } = renderHook(() =>
+      useToolQuery('get_weather', args, { enabled: false })
+    );
+
+    await flush();
+
+    expect(openai.callTool.calls).toHaveLength(0);
+    expect(result.current.status).toBe('idle');
+  });
+});
+
+describe('useToolMutation', () => {
+  const renderTodos = async () => {
+    const args = nextArgs();
+
+    openai.callTool.mockImplementation(async () => ok({ items: ['a'] }));
+
+    const query = renderHook(() => useToolQuery('list_todos', args));
+
+    await flush();
+
+    return { args, query };
+  };
+
+  const addTodo = (args: Record<string, unknown>) =>
+    renderHook(() =>
+      useToolMutation('add_todo', {
+        optimistic: {
+          tool: 'list_todos',
+          args,
+          update: (data, todo) => ({
+            items: [...((data?.items as string[]) ?? []), todo.title],
+          }),
+        },
+      })
+    );
+
+  test('shows optimistic updates and keeps them on success', async () => {
+    const { args, query } = await renderTodos();
+    const mutation = addTodo(args);
+    let respond = (_response: CallToolResponse) => {};
+
+    openai.callTool.mockImplementation(
+      () =>
+        new Promise(resolve => {
+          respond = resolve;
+        })
+    );
+
+    let pending: Promise<unknown> = Promise.resolve();
+
+    act(() => {
+      pending = mutation.result.current.mutate({ title: 'b' });
+    });
+
+    expect(query.result.current.data).toEqual({ items: ['a', 'b'] });
+    expect(mutation.result.current.isLoading).toBe(true);
+
+    await act(async () => {
+      respond(ok({ id: 2 }));
+      await pending;
+    });
+
+    expect(query.result.current.data).toEqual({ items: ['a', 'b'] });
+    expect(mutation.result.current).toMatchObject({
+      data: { id: 2 },
+      status: 'success',
+    });
+  });
+
+  test('rolls back only the failed mutation', async () => {
+    const { args, query } = await renderTodos();
+    const mutation = addTodo(args);
+    const responses: Array<(response: CallToolResponse) => void> = [];
+
+    openai.callTool.mockImplementation(
+      () => new Promise(resolve => responses.push(resolve))
+    );
+
+    let first: Promise<unknown> = Promise.resolve();
+    let second: Promise<unknown> = Promise.resolve();
+
+    act(() => {
+      first = mutation.result.current.mutate({ title: 'b' });
+      second = mutation.result.current.mutate({ title: 'c' });
+    });
+    act(() =>
+      setToolQueryData('list_todos', args, data => ({
+        items: [...(data?.items as string[]), 'fetched'],
+      }))
+    );
+
+    expect(query.result.current.data).toEqual({
+      items: ['a', 'fetched', 'b', 'c'],
+    });
+
+    await act(async () => {
+      responses[0]!({
+        isError: true,
+        content: [{ type: 'text', text: 'Too many todos' }],
+        structuredContent: {},
+      });
+      await first.catch(() => undefined);
+      responses[1]!(ok({ id: 3 }));
+      await second;
+    });
+
+    expect(query.result.current.data).toEqual({
+      items: ['a', 'fetched', 'c'],
+    });
+  });
+
+  test('rejects without calling the tool when an update throws', async () => {
+    const { args, query } = await renderTodos();
+    const { result } = renderHook(() =>
+      useToolMutation('add_todo', {
+        optimistic: [
+          {
+            tool: 'list_todos',
+            args,
+            update: data => ({ ...data, saving: true }),
+          },
+          {
+            tool: 'list_todos',
+            args,
+            update: () => {
+              throw new Error('Bad update');
+            },
+          },
+        ],
+      })
+    );
+
+    openai.callTool.mockClear();
+
+    await act(async () => {
+      await expect(result.current.mutate({})).rejects.toThrow('Bad update');
+    });
+
+    expect(openai.callTool.calls).toHaveLength(0);
+    expect(query.result.current.data).toEqual({ items: ['a'] });
+
+    // The cache still accepts writes
+    act(() => setToolQueryData('list_todos', args, () => ({ items: [] })));
+    expect(query.result.current.data).toEqual({ items: [] });
+  });
+
+  test('ignores results of calls superseded by reset', async () => {
+    const successes: unknown[] = [];
+    const { result } = renderHook(() =>
+      useToolMutation('add_todo', { onSuccess: data => successes.push(data) })
+    );
+
+    openai.callTool.mockImplementation(async () => ok({ id: 1 }));
+
+    await act(async () => {
+      const pending = result.current.mutate({});
+
+      result.current.reset();
+      expect(await pending).toEqual({ id: 1 });
+    });
+
+    expect(result.current.status).toBe('idle');
+    expect(successes).toEqual([]);
+  });
+});
@@ -0,0 +1,819 @@
+'use client';
+
+/**
+ * Query and mutation hooks over `window.openai.callTool`
+ *
+ * Results are cached per tool name and arguments, identical calls in flight
+ * are shared, and failed calls are retried with backoff.
+ */
+
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import { trackTiming } from '../telemetry';
+import type { CallToolResponse } from '../types/chatgpt';
+import type { InferToolOutput, ToolDefinition } from '../types/mcp';
+
+/**
+ * Resolves the tool arguments from a `ToolDefinition`; plain output types
+ * take any arguments
+ */
+type InferToolArgs<T> =
+  T extends ToolDefinition<infer TInput, object>
+    ? TInput
+    : Record<string, unknown>;
+
+export type ToolErrorCode =
+  | 'tool_error'
+  | 'unavailable'
+  | 'call_failed'
+  | 'cancelled';
+
+/**
+ * Error raised when a tool call fails
+ *
+ * `tool_error` means the tool ran and reported the failure in `content`;
+ * the text is the error message and `response` holds the full result.
+ */
+export class ToolError extends Error {
+  declare readonly code: ToolErrorCode;
+  declare readonly toolName: string;
+  declare readonly response?: CallToolResponse;
+
+  constructor(
+    code: ToolErrorCode,
+    toolName: string,
+    message: string,
+    options: { response?: CallToolResponse; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'ToolError';
+    this.code = code;
+    this.toolName = toolName;
+    this.response = options.response;
+  }
+}
+
+export type ToolRequestStatus = 'idle' | 'loading' | 'success' | 'error';
+
+export interface ToolRetryOptions {
+  /**
+   * How many times a failed call is retried. Errors the tool reports in
+   * `content` are not retried.
+   */
+  retry?: number;
+
+  /**
+   * Milliseconds to wait before retry `attempt` (0-based). Defaults to
+   * exponential backoff from 500ms, capped at 8s.
+   */
+  retryDelay?: (attempt: number) => number;
+}
+
+export interface UseToolQueryOptions<TOutput> extends ToolRetryOptions {
+  /**
+   * Whether to call the tool (defaults to true)
+   */
+  enabled?: boolean;
+
+  /**
+   * Milliseconds a cached result is used without calling the tool again
+   * (defaults to 0). Cached results are shown while refetching either way.
+   */
+  staleTime?: number;
+
+  onSuccess?: (data: TOutput, response: CallToolResponse) => void;
+  onError?: (error: ToolError) => void;
+}
+
+export interface UseToolQueryResult<TOutput> {
+  /**
+   * `structuredContent` of the latest result
+   */
+  data: TOutput | undefined;
+  response: CallToolResponse | undefined;
+  error: ToolError | null;
+  status: ToolRequestStatus;
+  isLoading: boolean;
+
+  /**
+   * Calls the tool again, ignoring `staleTime`
+   */
+  refetch: () => Promise<CallToolResponse>;
+
+  /**
+   * Stops waiting for the current call: its result no longer updates this
+   * hook, and pending retries are skipped once no other component waits for
+   * it. A call ChatGPT already received still runs.
+   */
+  cancel: () => void;
+}
+
+/**
+ * Cached query data to patch while a mutation runs. If the mutation fails,
+ * only its patch is undone: other mutations' patches and data fetched
+ * meanwhile are kept. If `update` throws, `mutate` rejects with that error
+ * without calling the tool.
+ */
+export interface ToolOptimisticUpdate<TArgs> {
+  tool: string;
+  args?: Record<string, unknown>;
+  update: (
+    data: Record<string, unknown> | undefined,
+    args: TArgs
+  ) => Record<string, unknown>;
+}
+
+export interface UseToolMutationOptions<TArgs, TOutput>
+  extends ToolRetryOptions {
+  /**
+   * Query results to update before the tool responds
+   */
+  optimistic?: ToolOptimisticUpdate<TArgs> | ToolOptimisticUpdate<TArgs>[];
+
+  /**
+   * Tools whose cached queries are refetched once the mutation succeeds
+   */
+  invalidates?: string[];
+
+  /**
+   * Called when the latest mutation succeeds, unless the component has
+   * unmounted or `reset` was called
+   */
+  onSuccess?: (data: TOutput, args: TArgs, response: CallToolResponse) => void;
+
+  /**
+   * Called when the latest mutation fails, unless the component has
+   * unmounted or `reset` was called
+   */
+  onError?: (error: ToolError, args: TArgs) => void;
+}
+
+export interface UseToolMutationResult<TArgs, TOutput> {
+  /**
+   * Calls the tool, resolving with its `structuredContent`
+   */
+  mutate: (args: TArgs) => Promise<TOutput>;
+  data: TOutput | undefined;
+  response: CallToolResponse | undefined;
+  error: ToolError | null;
+  status: ToolRequestStatus;
+  isLoading: boolean;
+
+  /**
+   * Returns to the idle state
+   */
+  reset: () => void;
+}
+
+interface ToolQueryEntry {
+  response?: CallToolResponse;
+  updatedAt: number;
+}
+
+type QueryDataUpdate = (
+  data: Record<string, unknown> | undefined
+) => Record<string, unknown>;
+
+/**
+ * Patches of running mutations, applied in order over the last confirmed
+ * entry of a query
+ */
+interface OptimisticLayer {
+  confirmed: ToolQueryEntry | undefined;
+  patches: Map<number, QueryDataUpdate>;
+}
+
+interface InFlightCall {
+  promise: Promise<CallToolResponse>;
+  controller: AbortController;
+  waiters: number;
+}
+
+type ToolQueryEvent = 'update' | 'invalidate';
+
+const entries = new Map<string, ToolQueryEntry>();
+const inFlight = new Map<string, InFlightCall>();
+const listeners = new Map<string, Set<(event: ToolQueryEvent) => void>>();
+const optimisticLayers = new Map<string, OptimisticLayer>();
+
+let nextPatchId = 0;
+
+function defaultRetryDelay(attempt: number) {
+  return Math.min(500 * 2 ** attempt, 8000);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        key =>
+          `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`
+      )
+      .join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+function applyUpdates(
+  entry: ToolQueryEntry | undefined,
+  updates: Iterable<QueryDataUpdate>
+): ToolQueryEntry {
+  let data = entry?.response?.structuredContent;
+
+  for (const update of updates) {
+    data = update(data);
+  }
+
+  return {
+    response: { ...entry?.response, structuredContent: data },
+    updatedAt: entry?.updatedAt ?? 0,
+  };
+}
+
+/**
+ * The entry without the patches of running mutations
+ */
+function getConfirmedEntry(key: string): ToolQueryEntry | undefined {
+  const layer = optimisticLayers.get(key);
+
+  return layer ? layer.confirmed : entries.get(key);
+}
+
+/**
+ * Stores a confirmed entry and shows it with the running mutations' patches
+ * on top
+ */
+function writeEntry(key: string, confirmed: ToolQueryEntry | undefined) {
+  const layer = optimisticLayers.get(key);
+  const entry = layer
+    ? applyUpdates(confirmed, layer.patches.values())
+    : confirmed;
+
+  if (layer) {
+    layer.confirmed = confirmed;
+  }
+
+  if (entry) {
+    entries.set(key, entry);
+  } else {
+    entries.delete(key);
+  }
+
+  emit(key, 'update');
+}
+
+/**
+ * Shows a mutation's patch over the current entry. An `update` that throws
+ * is never registered, so it cannot break later writes to the query.
+ */
+function addOptimisticPatch(key: string, update: QueryDataUpdate): number {
+  const entry = applyUpdates(entries.get(key), [update]);
+  const id = ++nextPatchId;
+  const layer = optimisticLayers.get(key) ?? {
+    confirmed: entries.get(key),
+    patches: new Map(),
+  };
+
+  layer.patches.set(id, update);
+  optimisticLayers.set(key, layer);
+  entries.set(key, entry);
+  emit(key, 'update');
+
+  return id;
+}
+
+/**
+ * Removes a mutation's patch, keeping its change when the mutation succeeded
+ */
+function settleOptimisticPatch(key: string, id: number, keep: boolean) {
+  const layer = optimisticLayers.get(key);
+  const update = layer?.patches.get(id);
+
+  if (!layer || !update) return;
+
+  layer.patches.delete(id);
+
+  if (layer.patches.size === 0) {
+    optimisticLayers.delete(key);
+  }
+
+  writeEntry(
+    key,
+    keep ? applyUpdates(layer.confirmed, [update]) : layer.confirmed
+  );
+}
+
+/**
+ * Cache key of a tool call: the tool name plus its arguments, independent of
+ * key order
+ */
+export function getToolQueryKey(
+  name: string,
+  args: Record<string, unknown> = {}
+): string {
+  return `${name}:${stableStringify(args)}`;
+}
+
+function emit(key: string, event: ToolQueryEvent) {
+  listeners.get(key)?.forEach(listener => listener(event));
+}
+
+function subscribe(key: string, listener: (event: ToolQueryEvent) => void) {
+  const keyListeners = listeners.get(key) ?? new Set();
+
+  keyListeners.add(listener);
+  listeners.set(key, keyListeners);
+
+  return () => {
+    keyListeners.delete(listener);
+
+    if (keyListeners.size === 0) {
+      listeners.delete(key);
+    }
+  };
+}
+
+export function getErrorText(response: CallToolResponse) {
+  const text = response.content
+    ?.filter(item => item.type === 'text')
+    .map(item => item.text)
+    .join('\n');
+
+  return text || 'Tool call failed';
+}
+
+function wait(ms: number, name: string, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ToolError('cancelled', name, 'Tool call was cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Calls a tool, retrying failed calls, and rejects with a `ToolError`
+ */
+export async function runTool(
+  name: string,
+  args: Record<string, unknown>,
+  options: ToolRetryOptions,
+  signal: AbortSignal,
+  attempt = 0
+): Promise<CallToolResponse> {
+  const { retry = 0, retryDelay = defaultRetryDelay } = options;
+
+  if (typeof window === 'undefined' || !window.openai?.callTool) {
+    throw new ToolError('unavailable', name, 'ChatGPT is not available');
+  }
+
+  const { openai } = window;
+  let response: CallToolResponse;
+
+  try {
+    response = await trackTiming(
+      'tool_call',
+      () => openai.callTool(name, args),
+      ({ value, error }, durationMs) => ({
+        tool: name,
+        durationMs,
+        attempt: attempt + 1,
+        error: error ?? (value?.isError ? getErrorText(value) : undefined),
+      })
+    );
+  } catch (error) {
+    if (attempt >= retry || signal.aborted) {
+      throw new ToolError(
+        'call_failed',
+        name,
+        error instanceof Error ? error.message : String(error),
+        { cause: error }
+      );
+    }
+
+    await wait(retryDelay(attempt), name, signal);
+
+    return runTool(name, args, options, signal, attempt + 1);
+  }
+
+  if (response.isError) {
+    throw new ToolError('tool_error', name, getErrorText(response), {
+      response,
+    });
+  }
+
+  return response;
+}
+
+/**
+ * Starts a call, or joins an identical one in flight. Pending retries stop
+ * once every caller has released it.
+ */
+function requestTool(
+  key: string,
+  name: string,
+  args: Record<string, unknown>,
+  options: ToolRetryOptions
+) {
+  let call = inFlight.get(key);
+
+  if (!call) {
+    const controller = new AbortController();
+    const promise = runTool(name, args, options, controller.signal)
+      .then(response => {
+        writeEntry(key, { response, updatedAt: Date.now() });
+
+        return response;
+      })
+      .finally(() => {
+        if (inFlight.get(key) === newCall) {
+          inFlight.delete(key);
+        }
+      });
+    const newCall: InFlightCall = { promise, controller, waiters: 0 };
+
+    call = newCall;
+    inFlight.set(key, call);
+  }
+
+  const current = call;
+
+  current.waiters += 1;
+
+  let released = false;
+
+  return {
+    promise: current.promise,
+    release: () => {
+      if (released) return;
+
+      released = true;
+      current.waiters -= 1;
+
+      if (current.waiters === 0) {
+        current.controller.abort();
+
+        // Later callers start a fresh call that can still retry
+        if (inFlight.get(key) === current) {
+          inFlight.delete(key);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Replaces the cached `structuredContent` of a query, e.g. after a mutation
+ *
+ * While mutations with optimistic updates run, `update` receives the data
+ * without their patches, which are applied again on top.
+ *
+ * @example
+ * ```ts
+ * setToolQueryData('list_todos', {}, data => ({
+ *   items: [...(data?.items as Todo[]), newTodo],
+ * }));
+ * ```
+ */
+export function setToolQueryData(
+  name: string,
+  args: Record<string, unknown>,
+  update: (data: Record<string, unknown> | undefined) => Record<string, unknown>
+) {
+  const key = getToolQueryKey(name, args);
+
+  writeEntry(key, applyUpdates(getConfirmedEntry(key), [update]));
+}
+
+/**
+ * Marks cached queries of a tool (or all tools) stale and refetches the
+ * mounted ones
+ */
+export function invalidateToolQueries(name?: string) {
+  const matches = (key: string) => !name || key.startsWith(`${name}:`);
+
+  entries.forEach((entry, key) => {
+    if (matches(key)) {
+      entries.set(key, { ...entry, updatedAt: 0 });
+    }
+  });
+  optimisticLayers.forEach((layer, key) => {
+    if (matches(key) && layer.confirmed) {
+      optimisticLayers.set(key, {
+        ...layer,
+        confirmed: { ...layer.confirmed, updatedAt: 0 },
+      });
+    }
+  });
+
+  listeners.forEach((_, key) => {
+    if (matches(key)) {
+      emit(key, 'invalidate');
+    }
+  });
+}
+
+/**
+ * Calls a tool and tracks its result, loading and error state
+ *
+ * Accepts either the output type or a tool declared with `defineTool`.
+ * The tool is called again when `name` or `args` change.
+ *
+ * @example
+ * ```tsx
+ * const { data, error, isLoading, refetch } = useToolQuery<typeof getWeather>(
+ *   'get_weather',
+ *   { city },
+ *   { staleTime: 60_000 }
+ * );
+ *
+ * if (error?.code === 'tool_error') return <p>{error.message}</p>;
+ * ```
+ */
+export function useToolQuery<T = Record<string, unknown>>(
+  name: string,
+  args: InferToolArgs<T>,
+  options: UseToolQueryOptions<InferToolOutput<T>> = {}
+): UseToolQueryResult<InferToolOutput<T>> {
+  const { enabled = true } = options;
+  const key = getToolQueryKey(name, args as Record<string, unknown>);
+
+  const argsRef = useRef(args);
+  const optionsRef = useRef(options);
+  const releaseRef = useRef<(() => void) | null>(null);
+
+  argsRef.current = args;
+  optionsRef.current = options;
+
+  const response = useSyncExternalStore(
+    useCallback(
+      (onChange: () => void) =>
+        subscribe(key, event => {
+          if (event === 'update') onChange();
+        }),
+      [key]
+    ),
+    () => entries.get(key)?.response,
+    () => undefined
+  );
+  const [status, setStatus] = useState<ToolRequestStatus>(
+    response ? 'success' : 'idle'
+  );
+  const [error, setError] = useState<ToolError | null>(null);
+
+  const cancel = useCallback(() => {
+    releaseRef.current?.();
+    releaseRef.current = null;
+  }, []);
+
+  const run = useCallback(
+    (force: boolean): Promise<CallToolResponse> => {
+      const { staleTime = 0, retry = 2, retryDelay } = optionsRef.current;
+      const entry = entries.get(key);
+
+      cancel();
+
+      if (
+        !force &&
+        entry?.response &&
+        Date.now() - entry.updatedAt < staleTime
+      ) {
+        setStatus('success');
+
+        return Promise.resolve(entry.response);
+      }
+
+      const request = requestTool(
+        key,
+        name,
+        argsRef.current as Record<string, unknown>,
+        { retry, retryDelay }
+      );
+      let active = true;
+
+      releaseRef.current = () => {
+        active = false;
+        request.release();
+      };
+      setStatus('loading');
+      setError(null);
+
+      return request.promise.then(
+        result => {
+          if (active) {
+            releaseRef.current = null;
+            request.release();
+            setStatus('success');
+            optionsRef.current.onSuccess?.(
+              result.structuredContent as InferToolOutput<T>,
+              result
+            );
+          }
+
+          return result;
+        },
+        (reason: ToolError) => {
+          if (active) {
+            releaseRef.current = null;
+            request.release();
+            setError(reason);
+            setStatus('error');
+            optionsRef.current.onError?.(reason);
+          }
+
+          throw reason;
+        }
+      );
+    },
+    [key, name, cancel]
+  );
+
+  useEffect(() => {
+    if (!enabled) return undefined;
+
+    // Errors are reported through `error`
+    run(false).catch(() => undefined);
+
+    const unsubscribe = subscribe(key, event => {
+      if (event === 'invalidate') {
+        run(true).catch(() => undefined);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      cancel();
+    };
+  }, [enabled, key, run, cancel]);
+
+  const refetch = useCallback(() => run(true), [run]);
+
+  return {
+    data: response?.structuredContent as InferToolOutput<T> | undefined,
+    response,
+    error,
+    status,
+    isLoading: status === 'loading',
+    refetch,
+    cancel,
+  };
+}
+
+/**
+ * Calls a tool on demand, with optimistic updates to cached queries that are
+ * rolled back if the call fails
+ *
+ * State and callbacks follow the latest call only. After unmounting or
+ * `reset`, `mutate` still settles and optimistic updates are still rolled
+ * back on failure, but nothing else is updated. Unmounting skips pending
+ * retries; a call ChatGPT already received still runs.
+ *
+ * @example
+ * ```tsx
+ * const { mutate, isLoading } = useToolMutation<typeof addTodo>('add_todo', {
+ *   optimistic: {
+ *     tool: 'list_todos',
+ *     update: (data, todo) => ({ items: [...(data?.items ?? []), todo] }),
+ *   },
+ *   invalidates: ['list_todos'],
+ * });
+ *
+ * <button onClick={() => mutate({ title: 'Buy milk' })}>Add</button>;
+ * ```
+ */
+export function useToolMutation<T = Record<string, unknown>>(
+  name: string,
+  options: UseToolMutationOptions<InferToolArgs<T>, InferToolOutput<T>> = {}
+): UseToolMutationResult<InferToolArgs<T>, InferToolOutput<T>> {
+  type TArgs = InferToolArgs<T>;
+  type TOutput = InferToolOutput<T>;
+
+  const optionsRef = useRef(options);
+  const controllersRef = useRef(new Set<AbortController>());
+  const callIdRef = useRef(0);
+  const [response, setResponse] = useState<CallToolResponse>();
+  const [status, setStatus] = useState<ToolRequestStatus>('idle');
+  const [error, setError] = useState<ToolError | null>(null);
+
+  optionsRef.current = options;
+
+  // Stop retrying and ignore results once unmounted
+  useEffect(() => {
+    const controllers = controllersRef.current;
+
+    return () => {
+      callIdRef.current += 1;
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  const mutate = useCallback(
+    async (args: TArgs): Promise<TOutput> => {
+      const {
+        optimistic = [],
+        invalidates = [],
+        retry,
+        retryDelay,
+      } = optionsRef.current;
+      const updates = Array.isArray(optimistic) ? optimistic : [optimistic];
+      const callId = ++callIdRef.current;
+      const controller = new AbortController();
+      const isLatest = () => callId === callIdRef.current;
+      const patches: { key: string; id: number }[] = [];
+      const settlePatches = (keep: boolean) =>
+        patches.forEach(({ key, id }) => settleOptimisticPatch(key, id, keep));
+
+      try {
+        updates.forEach(({ tool, args: queryArgs = {}, update }) => {
+          const key = getToolQueryKey(tool, queryArgs);
+
+          patches.push({
+            key,
+            id: addOptimisticPatch(key, data => update(data, args)),
+          });
+        });
+      } catch (reason) {
+        // A failing update cancels the mutation before the tool is called
+        settlePatches(false);
+        throw reason;
+      }
+
+      controllersRef.current.add(controller);
+      setStatus('loading');
+      setError(null);
+
+      try {
+        const result = await runTool(
+          name,
+          args as Record<string, unknown>,
+          { retry, retryDelay },
+          controller.signal
+        );
+        const data = result.structuredContent as TOutput;
+
+        settlePatches(true);
+
+        if (isLatest()) {
+          setResponse(result);
+          setStatus('success');
+          optionsRef.current.onSuccess?.(data, args, result);
+        }
+
+        invalidates.forEach(tool => invalidateToolQueries(tool));
+
+        return data;
+      } catch (reason) {
+        const toolError = reason as ToolError;
+
+        settlePatches(false);
+
+        if (isLatest()) {
+          setError(toolError);
+          setStatus('error');
+          optionsRef.current.onError?.(toolError, args);
+        }
+
+        throw toolError;
+      } finally {
+        controllersRef.current.delete(controller);
+      }
+    },
+    [name]
+  );
+
+  const reset = useCallback(() => {
+    callIdRef.current += 1;
+    setResponse(undefined);
+    setError(null);
+    setStatus('idle');
+  }, []);
+
+  return {
+    mutate,
+    data: response?.structuredContent as TOutput | undefined,
+    response,
+    error,
+    status,
+    isLoading: status === 'loading',
+    reset,
+  };
+}
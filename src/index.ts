@@ -4,18 +4,64 @@
  */
 
 // Config
-export { withChatGPT } from './config/with-chatgpt';
+export {
+  ChatGPTConfigError,
+  validateBaseUrlEnv,
+  withChatGPT,
+} from './config/with-chatgpt';
+export type {
+  NextConfigFunction,
+  WithChatGPTOptions,
+} from './config/with-chatgpt';
 
 // Components
 export { ChatGPTBootstrap } from './components/ChatGPTBootstrap';
+export { ChatGPTDevtools } from './components/ChatGPTDevtools';
+export type { ChatGPTDevtoolsProps } from './components/ChatGPTDevtools';
+export {
+  ChatGPTIntlProvider,
+  useFormatter,
+} from './components/ChatGPTIntlProvider';
+export type { ChatGPTIntlProviderProps } from './components/ChatGPTIntlProvider';
+export {
+  CHATGPT_PALETTE,
+  ChatGPTThemeProvider,
+  useResolvedTheme,
+} from './components/ChatGPTThemeProvider';
+export type { ChatGPTThemeProviderProps } from './components/ChatGPTThemeProvider';
+export { ChatGPTViewport } from './components/ChatGPTViewport';
+export type { ChatGPTViewportProps } from './components/ChatGPTViewport';
+export { DisplayModeSwitch } from './components/DisplayModeSwitch';
+export type { DisplayModeSwitchProps } from './components/DisplayModeSwitch';
+export { FullscreenToggle } from './components/FullscreenToggle';
+export type {
+  FullscreenToggleProps,
+  FullscreenToggleState,
+} from './components/FullscreenToggle';
+export type {
+  BootstrapRewrite,
+  ChatGPTBootstrapPatches,
+  ChatGPTBootstrapProps,
+} from './components/ChatGPTBootstrap';
 export { UrlController } from './components/UrlController';
-export type { UrlControllerProps, UrlData } from './components/UrlController';
+export type {
+  UrlControllerProps,
+  UrlData,
+  UrlNavigation,
+} from './components/UrlController';
 
 // Hooks
 export {
+  createToolClient,
+  getToolQueryKey,
+  invalidateToolQueries,
+  setToolQueryData,
+  ToolError,
+  useAutoHeight,
   useCallTool,
   useChatGPT,
   useDisplayMode,
+  useDisplayModeRequest,
   useIsInChatGPT,
   useLocale,
   useMaxHeight,
@@ -26,18 +72,162 @@ export {
   useSendMessage,
   useTheme,
   useToolInput,
+  useToolMutation,
   useToolOutput,
+  useToolQuery,
   useToolResponseMetadata,
   useUserAgent,
   useWidgetProps,
   useWidgetState,
+  WIDGET_STATE_VERSION_KEY,
+  WidgetStateError,
 } from './hooks';
+export type {
+  DisplayModeRequestResult,
+  DisplayModeRequestStatus,
+  ToolClient,
+  ToolErrorCode,
+  ToolMap,
+  ToolMapInput,
+  ToolMapOutput,
+  ToolOptimisticUpdate,
+  ToolRequestStatus,
+  ToolRetryOptions,
+  ToolSignature,
+  UseAutoHeightOptions,
+  UseDisplayModeRequestOptions,
+  UseToolMutationOptions,
+  UseToolMutationResult,
+  UseToolQueryOptions,
+  UseToolQueryResult,
+  UseWidgetStateOptions,
+  WidgetStateStatus,
+} from './hooks';
+
+// Telemetry
+export {
+  configureTelemetry,
+  createConsoleSink,
+  createHttpSink,
+  createMemorySink,
+  flushTelemetry,
+  getTelemetrySessionId,
+  trackEvent,
+} from './telemetry';
+export type {
+  ConsoleSinkOptions,
+  HttpSinkOptions,
+  MemorySink,
+  MemorySinkOptions,
+  TelemetryEvent,
+  TelemetryEventMap,
+  TelemetryEventType,
+  TelemetryOptions,
+  TelemetrySink,
+} from './telemetry';
 
 // Proxy (Next.js 16+)
-export { chatGPTProxy, createChatGPTProxy } from './proxy';
+export {
+  CHATGPT_SANDBOX_ORIGINS,
+  chatGPTProxy,
+  CORS_ALLOWED_HEADERS,
+  CORS_EXPOSED_HEADERS,
+  createChatGPTProxy,
+  PERMISSIVE_CORS,
+} from './proxy';
+export type {
+  ChatGPTProxyContext,
+  ChatGPTProxyHandler,
+  ChatGPTProxyOptions,
+  CorsOptions,
+  CorsOriginMatcher,
+} from './proxy';
+
+// Auth
+export {
+  AuthError,
+  createProtectedResource,
+  getAuthClaims,
+  withAuth,
+} from './auth';
+export type {
+  AuthInfo,
+  JwksSource,
+  JwtClaims,
+  ProtectedResource,
+  ProtectedResourceOptions,
+} from './auth';
+
+// MCP server
+export {
+  createMcpHandler,
+  createPageResource,
+  createToolRegistry,
+  defineTool,
+  defineWidget,
+  JSON_RPC_ERROR_CODES,
+  McpError,
+  renderWidgetHtml,
+  ToolRegistryError,
+} from './mcp';
+export type {
+  InferToolInput,
+  InferToolOutput,
+  JsonSchema,
+  McpHandler,
+  McpHandlerOptions,
+  McpRequestContext,
+  McpResource,
+  McpResourceContents,
+  McpTool,
+  SecurityScheme,
+  ToolDefinition,
+  WidgetDefinition,
+  WidgetHtmlOptions,
+} from './mcp';
 
 // Utils
-export { getBaseURL, isChatGPTIframe, isInIframe } from './utils/base-url';
+export {
+  BASE_URL_DETECTORS,
+  checkBaseURLConsistency,
+  describeBaseURL,
+  getBaseURL,
+  isChatGPTIframe,
+  isInIframe,
+  registerBaseURLDetector,
+} from './utils/base-url';
+export type {
+  BaseURLDetector,
+  BaseURLResolution,
+  RegisterBaseURLDetectorOptions,
+} from './utils/base-url';
+export {
+  buildContentSecurityPolicy,
+  CSP_REPORT_PATH,
+  resolveWidgetCsp,
+} from './utils/csp';
+export type {
+  ContentSecurityPolicyOptions,
+  WidgetCspOptions,
+} from './utils/csp';
+export { createFormatter } from './utils/format';
+export type {
+  DateInput,
+  Formatter,
+  FormatterOptions,
+  PluralForms,
+  RelativeTimeOptions,
+} from './utils/format';
+export {
+  DEFAULT_LOCALE,
+  getLocaleFromMeta,
+  getRequestLocale,
+  LOCALE_HEADER,
+  matchLocale,
+  normalizeLocale,
+  parseAcceptLanguage,
+} from './utils/locale';
+export type { LocaleSource } from './utils/locale';
 
 // Types
 export { SET_GLOBALS_EVENT_TYPE } from './types/chatgpt';
@@ -54,5 +244,6 @@ export type {
   SetGlobalsEventDetail,
   Theme,
   UserAgent,
+  WidgetCsp,
   WidgetMetadata,
 } from './types/chatgpt';
@@ -0,0 +1,32 @@
+/**
+ * JSON-RPC error handling for the MCP endpoint
+ */
+
+export const JSON_RPC_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  RESOURCE_NOT_FOUND: -32002,
+} as const;
+
+/**
+ * Error that is reported to the client as a JSON-RPC error object
+ *
+ * @example
+ * ```ts
+ * throw new McpError(JSON_RPC_ERROR_CODES.INVALID_PARAMS, 'Missing "city"');
+ * ```
+ */
+export class McpError extends Error {
+  declare readonly code: number;
+  declare readonly data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'McpError';
+    this.code = code;
+    this.data = data;
+  }
+}
@@ -0,0 +1,344 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  AuthError,
+  createProtectedResource,
+  type AuthInfo,
+  type ProtectedResource,
+} from '../auth';
+import type { McpResource, McpTool } from '../types/mcp';
+import { JSON_RPC_ERROR_CODES, McpError } from './errors';
+import {
+  createMcpHandler,
+  LATEST_PROTOCOL_VERSION,
+  type McpHandlerOptions,
+} from './handler';
+
+const echoTool: McpTool = {
+  name: 'echo',
+  description: 'Echoes its arguments',
+  inputSchema: { type: 'object' },
+  handler: async (args, { auth }) => ({
+    structuredContent: { args, subject: auth?.subject ?? null },
+  }),
+};
+
+function post(body: unknown, headers: HeadersInit = {}) {
+  return new Request('https://app.test/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+const callTool = (name: string, id = 1) => ({
+  jsonrpc: '2.0',
+  id,
+  method: 'tools/call',
+  params: { name, arguments: { city: 'Paris' } },
+});
+
+describe('createMcpHandler', () => {
+  const widget: McpResource = {
+    uri: 'ui://widget/weather.html',
+    name: 'weather',
+    mimeType: 'text/html+skybridge',
+    read: async ({ locale }) => ({
+      uri: 'ui://widget/weather.html',
+      mimeType: 'text/html+skybridge',
+      text: `<html lang="${locale}"></html>`,
+    }),
+  };
+  const handler = createMcpHandler({
+    name: 'weather',
+    version: '1.0.0',
+    instructions: 'Use get_weather for forecasts',
+    tools: [
+      echoTool,
+      {
+        ...echoTool,
+        name: 'fail',
+        handler: () => {
+          throw new Error('Upstream timeout');
+        },
+      },
+      {
+        ...echoTool,
+        name: 'validate',
+        handler: () => {
+          throw new McpError(
+            JSON_RPC_ERROR_CODES.INVALID_PARAMS,
+            'Missing "city"'
+          );
+        },
+      },
+    ],
+    resources: [widget],
+  });
+
+  const rpc = async (method: string, params?: Record<string, unknown>) =>
+    (await handler(post({ jsonrpc: '2.0', id: 1, method, params }))).json();
+
+  test('negotiates the protocol version on initialize', async () => {
+    expect(
+      await rpc('initialize', { protocolVersion: '2025-03-26' })
+    ).toMatchObject({
+      id: 1,
+      result: {
+        protocolVersion: '2025-03-26',
+        serverInfo: { name: 'weather', version: '1.0.0' },
+        instructions: 'Use get_weather for forecasts',
+      },
+    });
+    expect(
+      await rpc('initialize', { protocolVersion: '1999-01-01' })
+    ).toMatchObject({ result: { protocolVersion: LATEST_PROTOCOL_VERSION } });
+  });
+
+  test('lists tools without their handlers and calls them', async () => {
+    const { result } = (await rpc('tools/list')) as {
+      result: { tools: Record<string, unknown>[] };
+    };
+
+    expect(result.tools.map(tool => tool.name)).toEqual([
+      'echo',
+      'fail',
+      'validate',
+    ]);
+    expect(result.tools[0]).not.toHaveProperty('handler');
+    expect(await rpc('tools/call', callTool('echo').params)).toMatchObject({
+      result: { structuredContent: { args: { city: 'Paris' } } },
+    });
+  });
+
+  test('reports tool failures in the result and protocol errors as errors', async () => {
+    expect(await rpc('tools/call', { name: 'fail' })).toMatchObject({
+      result: {
+        isError: true,
+        content: [{ type: 'text', text: 'Upstream timeout' }],
+      },
+    });
+    expect(await rpc('tools/call', { name: 'validate' })).toMatchObject({
+      error: {
+        code: JSON_RPC_ERROR_CODES.INVALID_PARAMS,
+        message: 'Missing "city"',
+      },
+    });
+    expect(await rpc('tools/call', { name: 'missing' })).toMatchObject({
+      error: {
+        code: JSON_RPC_ERROR_CODES.INVALID_PARAMS,
+        message: 'Unknown tool: missing',
+      },
+    });
+    expect(await rpc('tools/destroy')).toMatchObject({
+      error: { code: JSON_RPC_ERROR_CODES.METHOD_NOT_FOUND },
+    });
+  });
+
+  test('reads resources in the request locale', async () => {
+    expect(
+      await rpc('resources/read', {
+        uri: widget.uri,
+        _meta: { 'openai/locale': 'de-DE' },
+      })
+    ).toMatchObject({
+      result: { contents: [{ text: '<html lang="de-DE"></html>' }] },
+    });
+    expect(
+      await rpc('resources/read', { uri: 'ui://widget/missing.html' })
+    ).toMatchObject({
+      error: {
+        code: JSON_RPC_ERROR_CODES.RESOURCE_NOT_FOUND,
+        data: { uri: 'ui://widget/missing.html' },
+      },
+    });
+  });
+
+  test('answers batches and acknowledges notifications with 202', async () => {
+    const batch = await handler(
+      post([
+        { jsonrpc: '2.0', id: 1, method: 'ping' },
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { jsonrpc: '2.0', id: 2, result: {} },
+        { id: 3 },
+      ])
+    );
+    const notification = await handler(
+      post({ jsonrpc: '2.0', method: 'notifications/initialized' })
+    );
+
+    expect(await batch.json()).toEqual([
+      { jsonrpc: '2.0', id: 1, result: {} },
+      {
+        jsonrpc: '2.0',
+        id: null,
+        error: {
+          code: JSON_RPC_ERROR_CODES.INVALID_REQUEST,
+          message: 'Invalid JSON-RPC request',
+        },
+      },
+    ]);
+    expect(notification.status).toBe(202);
+    expect(await notification.text()).toBe('');
+  });
+
+  test('rejects malformed JSON with a parse error', async () => {
+    const response = await handler(post('{"jsonrpc":'));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      id: null,
+      error: { code: JSON_RPC_ERROR_CODES.PARSE_ERROR },
+    });
+  });
+
+  test('sends the response as an event to SSE-only clients', async () => {
+    const response = await handler(
+      post(
+        { jsonrpc: '2.0', id: 7, method: 'ping' },
+        { Accept: 'text/event-stream' }
+      )
+    );
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(await response.text()).toBe(
+      'event: message\ndata: {"jsonrpc":"2.0","id":7,"result":{}}\n\n'
+    );
+  });
+
+  test('answers preflights and refuses GET and DELETE', async () => {
+    const preflight = await handler(
+      new Request('https://app.test/mcp', {
+        method: 'OPTIONS',
+        headers: {
+          Origin: 'https://abc.web-sandbox.oaiusercontent.com',
+          'Access-Control-Request-Method': 'POST',
+        },
+      })
+    );
+    const [get, remove] = await Promise.all(
+      ['GET', 'DELETE'].map(method =>
+        handler(new Request('https://app.test/mcp', { method }))
+      )
+    );
+
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('Access-Control-Allow-Methods')).toContain(
+      'POST'
+    );
+    expect([get!.status, remove!.status]).toEqual([405, 405]);
+    expect(get!.headers.get('Allow')).toBe('POST, OPTIONS');
+  });
+});
+
+describe('createMcpHandler auth', () => {
+  // Bearer "valid" carries the "orders:read" scope, "expired" fails validation
+  const auth: ProtectedResource = {
+    ...createProtectedResource({
+      resource: 'https://app.test',
+      authorizationServers: ['https://auth.test'],
+      jwks: { keys: [] },
+    }),
+    authenticate: async request => {
+      const token = request.headers.get('authorization')?.slice(7);
+
+      if (!token) return null;
+
+      if (token !== 'valid') {
+        throw new AuthError('invalid_token', 'Token expired');
+      }
+
+      return {
+        token,
+        claims: { sub: 'user-1' },
+        scopes: ['orders:read'],
+        subject: 'user-1',
+      } satisfies AuthInfo;
+    },
+  };
+
+  const createHandler = (options: Partial<McpHandlerOptions> = {}) =>
+    createMcpHandler({
+      name: 'orders',
+      version: '1.0.0',
+      auth,
+      tools: [
+        echoTool,
+        { ...echoTool, name: 'public', securitySchemes: [{ type: 'noauth' }] },
+        {
+          ...echoTool,
+          name: 'admin',
+          securitySchemes: [{ type: 'oauth2', scopes: ['orders:write'] }],
+        },
+      ],
+      ...options,
+    });
+
+  const result = async (response: Response) =>
+    ((await response.json()) as { result: Record<string, unknown> }).result;
+
+  test('challenges anonymous and invalid requests with a 401', async () => {
+    const handler = createHandler();
+    const anonymous = await handler(post(callTool('public')));
+    const invalid = await handler(
+      post(callTool('echo'), { Authorization: 'Bearer expired' })
+    );
+
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('WWW-Authenticate')).toContain('Bearer');
+    expect(anonymous.headers.get('Access-Control-Expose-Headers')).toContain(
+      'WWW-Authenticate'
+    );
+    expect(invalid.status).toBe(401);
+    expect(invalid.headers.get('WWW-Authenticate')).toContain(
+      'error="invalid_token"'
+    );
+  });
+
+  test('passes the token to tools', async () => {
+    const response = await createHandler()(
+      post(callTool('echo'), { Authorization: 'Bearer valid' })
+    );
+
+    expect(await result(response)).toMatchObject({
+      structuredContent: { subject: 'user-1' },
+    });
+  });
+
+  test('lets anonymous requests call only noauth tools without requireAuth', async () => {
+    const handler = createHandler({ requireAuth: false });
+    const call = async (name: string) =>
+      result(await handler(post(callTool(name))));
+
+    expect(await call('public')).toMatchObject({
+      structuredContent: { subject: null },
+    });
+
+    // Tools without securitySchemes are protected like the server
+    const challenge = {
+      isError: true,
+      content: [{ type: 'text', text: 'Authentication required' }],
+      _meta: { 'mcp/www_authenticate': [expect.stringContaining('Bearer')] },
+    };
+
+    expect(await Promise.all(['echo', 'admin'].map(call))).toEqual([
+      expect.objectContaining(challenge),
+      expect.objectContaining(challenge),
+    ]);
+  });
+
+  test('reports missing scopes in the tool result', async () => {
+    const response = await createHandler({ requireAuth: false })(
+      post(callTool('admin'), { Authorization: 'Bearer valid' })
+    );
+
+    expect(await result(response)).toMatchObject({
+      isError: true,
+      content: [{ text: 'Missing required scopes: orders:write' }],
+      _meta: {
+        'mcp/www_authenticate': [
+          expect.stringContaining('error="insufficient_scope"'),
+        ],
+      },
+    });
+  });
+});
@@ -0,0 +1,455 @@
+/**
+ * MCP endpoint for the Next.js App Router
+ *
+ * Speaks JSON-RPC over the Streamable HTTP transport so ChatGPT can discover
+ * and call tools and read widget resources.
+ */
+
+import { AuthError, type AuthInfo, type ProtectedResource } from '../auth';
+import {
+  PERMISSIVE_CORS,
+  setCorsHeaders,
+  setPreflightHeaders,
+  type CorsOptions,
+} from '../proxy/cors';
+import type {
+  JsonRpcError,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  McpRequestContext,
+  McpResource,
+  McpResourceDescriptor,
+  McpServerInfo,
+  McpTool,
+  McpToolDescriptor,
+} from '../types/mcp';
+import { getRequestLocale } from '../utils/locale';
+import { JSON_RPC_ERROR_CODES, McpError } from './errors';
+
+export const SUPPORTED_PROTOCOL_VERSIONS = [
+  '2025-06-18',
+  '2025-03-26',
+  '2024-11-05',
+] as const;
+
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+export interface McpHandlerOptions extends McpServerInfo {
+  /**
+   * Instructions describing how the model should use this server
+   */
+  instructions?: string;
+
+  /**
+   * Tools exposed through `tools/list` and `tools/call`
+   */
+  tools?: McpTool[];
+
+  /**
+   * Resources exposed through `resources/list` and `resources/read`
+   */
+  resources?: McpResource[];
+
+  /**
+   * CORS policy for browser-based clients (defaults to allowing every origin)
+   */
+  cors?: CorsOptions;
+
+  /**
+   * OAuth protected resource that bearer tokens are validated against.
+   * Requests with an invalid token always get a 401 challenge.
+   */
+  auth?: ProtectedResource;
+
+  /**
+   * Whether every request needs a token (defaults to `true` when `auth` is
+   * set). When `false`, only tools without a `noauth` security scheme
+   * (including tools that declare no schemes) require one, and answer
+   * anonymous calls with an auth challenge.
+   */
+  requireAuth?: boolean;
+}
+
+export type McpHandler = (request: Request) => Promise<Response>;
+
+function toToolDescriptor({
+  handler: _handler,
+  ...descriptor
+}: McpTool): McpToolDescriptor {
+  return descriptor;
+}
+
+function toResourceDescriptor({
+  read: _read,
+  ...descriptor
+}: McpResource): McpResourceDescriptor {
+  return descriptor;
+}
+
+function isJsonRpcRequest(message: unknown): message is JsonRpcRequest {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as JsonRpcRequest).jsonrpc === '2.0' &&
+    typeof (message as JsonRpcRequest).method === 'string'
+  );
+}
+
+function errorResponse(
+  id: JsonRpcResponse['id'],
+  error: JsonRpcError
+): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error };
+}
+
+function requiresToken({ securitySchemes }: McpTool) {
+  return !securitySchemes?.some(scheme => scheme.type === 'noauth');
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Creates an App Router route handler that serves an MCP server
+ *
+ * @example
+ * ```ts
+ * // app/mcp/route.ts
+ * import { createMcpHandler } from 'next-chatgpt-apps/mcp';
+ *
+ * const handler = createMcpHandler({
+ *   name: 'my-app',
+ *   version: '1.0.0',
+ *   tools: [
+ *     {
+ *       name: 'get_weather',
+ *       description: 'Get the weather for a city',
+ *       inputSchema: {
+ *         type: 'object',
+ *         properties: { city: { type: 'string' } },
+ *         required: ['city'],
+ *       },
+ *       handler: async ({ city }) => ({
+ *         content: [{ type: 'text', text: `Sunny in ${city}` }],
+ *         structuredContent: { city, forecast: 'sunny' },
+ *       }),
+ *     },
+ *   ],
+ * });
+ *
+ * export { handler as GET, handler as POST, handler as OPTIONS };
+ * ```
+ */
+export function createMcpHandler(options: McpHandlerOptions): McpHandler {
+  const { name, version, title, instructions } = options;
+  const cors = options.cors ?? PERMISSIVE_CORS;
+  const { auth } = options;
+  const requireAuth = options.requireAuth ?? true;
+  const tools = new Map((options.tools ?? []).map(tool => [tool.name, tool]));
+  const resources = new Map(
+    (options.resources ?? []).map(resource => [resource.uri, resource])
+  );
+
+  async function dispatch(
+    message: JsonRpcRequest,
+    context: McpRequestContext
+  ): Promise<unknown> {
+    const params = message.params ?? {};
+
+    switch (message.method) {
+      case 'initialize': {
+        const requested = params.protocolVersion;
+        const protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.find(
+          supported => supported === requested
+        );
+
+        return {
+          protocolVersion: protocolVersion ?? LATEST_PROTOCOL_VERSION,
+          capabilities: {
+            tools: { listChanged: false },
+            resources: { listChanged: false },
+          },
+          serverInfo: { name, version, ...(title ? { title } : {}) },
+          ...(instructions ? { instructions } : {}),
+        };
+      }
+
+      case 'ping':
+        return {};
+
+      case 'tools/list':
+        return { tools: Array.from(tools.values(), toToolDescriptor) };
+
+      case 'tools/call': {
+        const tool = tools.get(String(params.name));
+
+        if (!tool) {
+          throw new McpError(
+            JSON_RPC_ERROR_CODES.INVALID_PARAMS,
+            `Unknown tool: ${String(params.name)}`
+          );
+        }
+
+        if (auth && requiresToken(tool)) {
+          const scopes = tool.securitySchemes?.flatMap(scheme =>
+            scheme.type === 'oauth2' ? (scheme.scopes ?? []) : []
+          );
+          const missing = scopes?.filter(
+            scope => !context.auth?.scopes.includes(scope)
+          );
+
+          // ChatGPT prompts the user to link their account from this challenge
+          if (!context.auth || missing?.length) {
+            const error = context.auth
+              ? new AuthError(
+                  'insufficient_scope',
+                  `Missing required scopes: ${missing?.join(' ')}`
+                )
+              : undefined;
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: error?.message ?? 'Authentication required',
+                },
+              ],
+              isError: true,
+              _meta: {
+                'mcp/www_authenticate': [auth.getChallenge(error, scopes)],
+              },
+            };
+          }
+        }
+
+        try {
+          return await tool.handler(
+            (params.arguments as Record<string, unknown>) ?? {},
+            context
+          );
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+
+          // Tool failures are reported in the result so the model can see them
+          return {
+            content: [{ type: 'text', text: getErrorMessage(error) }],
+            isError: true,
+          };
+        }
+      }
+
+      case 'resources/list':
+        return {
+          resources: Array.from(resources.values(), toResourceDescriptor),
+        };
+
+      case 'resources/templates/list':
+        return { resourceTemplates: [] };
+
+      case 'resources/read': {
+        const resource = resources.get(String(params.uri));
+
+        if (!resource) {
+          throw new McpError(
+            JSON_RPC_ERROR_CODES.RESOURCE_NOT_FOUND,
+            `Resource not found: ${String(params.uri)}`,
+            { uri: params.uri }
+          );
+        }
+
+        const contents = await resource.read(context);
+
+        return { contents: Array.isArray(contents) ? contents : [contents] };
+      }
+
+      default:
+        throw new McpError(
+          JSON_RPC_ERROR_CODES.METHOD_NOT_FOUND,
+          `Method not found: ${message.method}`
+        );
+    }
+  }
+
+  async function handleMessage(
+    message: unknown,
+    request: Request,
+    authInfo: AuthInfo | null
+  ): Promise<JsonRpcResponse | null> {
+    if (!isJsonRpcRequest(message)) {
+      // Responses sent back by the client need no reply
+      if (
+        typeof message === 'object' &&
+        message !== null &&
+        ('result' in message || 'error' in message)
+      ) {
+        return null;
+      }
+
+      return errorResponse(null, {
+        code: JSON_RPC_ERROR_CODES.INVALID_REQUEST,
+        message: 'Invalid JSON-RPC request',
+      });
+    }
+
+    const id = message.id ?? null;
+    const meta = (message.params?._meta as Record<string, unknown>) ?? {};
+    const context: McpRequestContext = {
+      request,
+      meta,
+      auth: authInfo,
+      locale: getRequestLocale({ meta, request }),
+    };
+
+    try {
+      const result = await dispatch(message, context);
+
+      // Notifications never receive a response
+      if (message.id === undefined || message.id === null) {
+        return null;
+      }
+
+      return { jsonrpc: '2.0', id, result };
+    } catch (error) {
+      if (message.id === undefined || message.id === null) {
+        return null;
+      }
+
+      if (error instanceof McpError) {
+        return errorResponse(id, {
+          code: error.code,
+          message: error.message,
+          ...(error.data !== undefined ? { data: error.data } : {}),
+        });
+      }
+
+      return errorResponse(id, {
+        code: JSON_RPC_ERROR_CODES.INTERNAL_ERROR,
+        message: getErrorMessage(error),
+      });
+    }
+  }
+
+  function respond(request: Request, body: unknown, status = 200) {
+    const headers = setCorsHeaders(new Headers(), request, cors);
+    const accept = request.headers.get('accept') ?? '';
+
+    // Clients that only accept SSE get the response as a single event
+    if (
+      accept.includes('text/event-stream') &&
+      !accept.includes('application/json')
+    ) {
+      headers.set('Content-Type', 'text/event-stream');
+      headers.set('Cache-Control', 'no-cache');
+
+      return new Response(`event: message\ndata: ${JSON.stringify(body)}\n\n`, {
+        status,
+        headers,
+      });
+    }
+
+    headers.set('Content-Type', 'application/json');
+
+    return new Response(JSON.stringify(body), { status, headers });
+  }
+
+  function challenge(
+    request: Request,
+    resource: ProtectedResource,
+    error?: AuthError
+  ) {
+    const response = resource.challenge(error);
+
+    setCorsHeaders(response.headers, request, cors);
+    // Browser clients need to read the challenge to start the OAuth flow
+    response.headers.append(
+      'Access-Control-Expose-Headers',
+      'WWW-Authenticate'
+    );
+
+    return response;
+  }
+
+  return async function handler(request: Request): Promise<Response> {
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 204,
+        headers: setPreflightHeaders(new Headers(), request, cors),
+      });
+    }
+
+    if (request.method !== 'POST') {
+      // This server does not open server-initiated SSE streams or sessions
+      const headers = setCorsHeaders(new Headers(), request, cors);
+
+      headers.set('Allow', 'POST, OPTIONS');
+
+      return new Response(null, { status: 405, headers });
+    }
+
+    let authInfo: AuthInfo | null = null;
+
+    if (auth) {
+      try {
+        authInfo = await auth.authenticate(request);
+      } catch (error) {
+        if (!(error instanceof AuthError)) {
+          throw error;
+        }
+
+        return challenge(request, auth, error);
+      }
+
+      if (!authInfo && requireAuth) {
+        return challenge(request, auth);
+      }
+    }
+
+    let payload: unknown;
+
+    try {
+      payload = await request.json();
+    } catch {
+      return respond(
+        request,
+        errorResponse(null, {
+          code: JSON_RPC_ERROR_CODES.PARSE_ERROR,
+          message: 'Parse error',
+        }),
+        400
+      );
+    }
+
+    if (Array.isArray(payload)) {
+      const responses = (
+        await Promise.all(
+          payload.map(message => handleMessage(message, request, authInfo))
+        )
+      ).filter((response): response is JsonRpcResponse => response !== null);
+
+      if (responses.length === 0) {
+        return new Response(null, {
+          status: 202,
+          headers: setCorsHeaders(new Headers(), request, cors),
+        });
+      }
+
+      return respond(request, responses);
+    }
+
+    const response = await handleMessage(payload, request, authInfo);
+
+    if (!response) {
+      return new Response(null, {
+        status: 202,
+        headers: setCorsHeaders(new Headers(), request, cors),
+      });
+    }
+
+    return respond(request, response);
+  };
+}
+
+export default createMcpHandler;
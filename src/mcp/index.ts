@@ -0,0 +1,89 @@
+/**
+ * MCP server utilities for ChatGPT apps
+ */
+
+export {
+  createMcpHandler,
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from './handler';
+export type { McpHandler, McpHandlerOptions } from './handler';
+
+export { JSON_RPC_ERROR_CODES, McpError } from './errors';
+
+export {
+  buildToolMetadata,
+  buildWidgetMetadata,
+  createPageResource,
+  createToolRegistry,
+  createWidgetResource,
+  defineTool,
+  defineWidget,
+  ToolRegistryError,
+  WIDGET_MIME_TYPE,
+} from './registry';
+
+export {
+  extractPageToolConfig,
+  getPageRoute,
+  getRouteParams,
+  renderRouteToolManifest,
+  RouteScanError,
+  scanAppRoutes,
+} from './route-scanner';
+export type { RouteParam, ScanAppRoutesOptions } from './route-scanner';
+export { createRouteTools, getRouteToolName } from './route-tools';
+export type { RouteToolsOptions } from './route-tools';
+export {
+  fetchMcpTools,
+  jsonSchemaToTypeScript,
+  readToolDescriptors,
+  renderToolTypes,
+} from './tool-types';
+export type {
+  FetchMcpToolsOptions,
+  RenderToolTypesOptions,
+} from './tool-types';
+
+export {
+  clearWidgetHtmlCache,
+  getBuildId,
+  prepareWidgetHtml,
+  renderWidgetHtml,
+} from './widget-html';
+export type { WidgetHtmlOptions } from './widget-html';
+export {
+  DEFAULT_LOCALE,
+  getLocaleFromMeta,
+  getRequestLocale,
+  LOCALE_HEADER,
+} from '../utils/locale';
+export type {
+  ToolRegistry,
+  ToolRegistryOptions,
+  WidgetOptions,
+} from './registry';
+
+export type {
+  InferToolInput,
+  InferToolOutput,
+  JsonRpcError,
+  JsonRpcId,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonSchema,
+  McpMeta,
+  McpRequestContext,
+  McpResource,
+  McpResourceContents,
+  McpResourceDescriptor,
+  McpServerInfo,
+  McpTool,
+  McpToolDescriptor,
+  PageToolConfig,
+  RouteToolManifestEntry,
+  SecurityScheme,
+  ToolAnnotations,
+  ToolDefinition,
+  WidgetDefinition,
+} from '../types/mcp';
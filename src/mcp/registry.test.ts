@@ -0,0 +1,118 @@
+import { describe, expect, mock, test } from 'bun:test';
+import { classifyRequest } from '../proxy/classify';
+import type { ChatGPTToolOutput } from '../types/chatgpt';
+import type { McpRequestContext } from '../types/mcp';
+import { LOCALE_HEADER } from '../utils/locale';
+import { createPageResource, createToolRegistry, defineTool } from './registry';
+
+const context: McpRequestContext = {
+  request: new Request('https://app.test/mcp'),
+  meta: {},
+  auth: null,
+  locale: 'en-US',
+};
+
+const callTool = (output: ChatGPTToolOutput) => {
+  const { tools } = createToolRegistry({
+    tools: [
+      defineTool({
+        name: 'get_weather',
+        description: 'Looks up the weather',
+        inputSchema: { type: 'object' },
+        handler: () => output,
+      }),
+    ],
+  });
+
+  return tools[0]!.handler({}, context);
+};
+
+describe('createToolRegistry', () => {
+  test('mirrors structured content as text for older clients', async () => {
+    expect(
+      await callTool({ structuredContent: { temperature: 21 } })
+    ).toMatchObject({
+      content: [{ type: 'text', text: '{"temperature":21}' }],
+    });
+  });
+
+  test('omits the text item when there is no structured content', async () => {
+    const result = await callTool({
+      _meta: { 'openai/locale': 'en-US' },
+    } as unknown as ChatGPTToolOutput);
+
+    expect(result.content).toEqual([]);
+  });
+
+  test('keeps content returned by the tool', async () => {
+    const content = [{ type: 'text', text: 'Sunny' }];
+
+    expect(
+      (await callTool({ content, structuredContent: {} })).content
+    ).toEqual(content);
+  });
+});
+
+describe('createPageResource', () => {
+  const mockFetch = () =>
+    mock(
+      async (_url: URL | RequestInfo, _init?: RequestInit) =>
+        new Response('<html><head></head></html>')
+    );
+
+  test('renders the page in the closest supported locale', async () => {
+    const fetchMock = mockFetch();
+    const resource = createPageResource('/weather', {
+      baseUrl: 'https://app.test',
+      cache: false,
+      locales: ['en', 'de'],
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    await resource.read({ ...context, locale: 'de-AT' });
+    await resource.read({ ...context, locale: 'fr-FR' });
+
+    expect(
+      fetchMock.mock.calls.map(([, init]) =>
+        new Headers(init?.headers).get(LOCALE_HEADER)
+      )
+    ).toEqual(['de', 'en']);
+  });
+
+  test('signs the page URL so the proxy sees a widget load', async () => {
+    const fetchMock = mockFetch();
+    const resource = createPageResource('/weather', {
+      baseUrl: 'https://app.test',
+      cache: false,
+      widgetSecret: 'test-secret',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    await resource.read(context);
+
+    const request = new Request(fetchMock.mock.calls[0]![0] as URL);
+
+    expect(
+      await classifyRequest(request, { secret: 'test-secret' })
+    ).toMatchObject({ kind: 'widget', signal: 'marker' });
+    expect(
+      await classifyRequest(request, { secret: 'other-secret' })
+    ).not.toMatchObject({ signal: 'marker' });
+  });
+
+  test('prefers a fixed locale over the request locale', async () => {
+    const fetchMock = mockFetch();
+    const resource = createPageResource('/weather', {
+      baseUrl: 'https://app.test',
+      cache: false,
+      locale: 'de',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    await resource.read(context);
+
+    expect(
+      new Headers(fetchMock.mock.calls[0]![1]?.headers).get(LOCALE_HEADER)
+    ).toBe('de');
+  });
+});
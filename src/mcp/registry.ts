@@ -0,0 +1,455 @@
+/**
+ * Declarative tool and widget registry
+ *
+ * Tools and widgets are declared once and the registry derives the MCP tool
+ * descriptors, the `openai/*` metadata and the widget resources from them.
+ */
+
+import type {
+  McpMeta,
+  McpRequestContext,
+  McpResource,
+  McpTool,
+  ToolDefinition,
+  WidgetDefinition,
+} from '../types/mcp';
+import { resolveWidgetCsp, type WidgetCspOptions } from '../utils/csp';
+import { renderWidgetHtml, type WidgetHtmlOptions } from './widget-html';
+
+export const WIDGET_MIME_TYPE = 'text/html+skybridge';
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const WIDGET_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const MAX_INVOCATION_LENGTH = 64;
+
+export type WidgetOptions = Omit<WidgetDefinition, 'uri'> & {
+  /**
+   * Resource URI (defaults to `ui://widget/<name>.html`)
+   */
+  uri?: string;
+};
+
+export interface ToolRegistryOptions {
+  tools: ToolDefinition<object, object>[];
+
+  /**
+   * Widgets not referenced by any tool that should still be served
+   */
+  widgets?: WidgetDefinition[];
+
+  /**
+   * How widget pages are fetched and cached
+   */
+  render?: WidgetHtmlOptions;
+
+  /**
+   * Extra domains allowed for every widget, on top of the app origin
+   */
+  csp?: WidgetCspOptions;
+}
+
+export interface ToolRegistry {
+  /**
+   * Tools ready to pass to `createMcpHandler`
+   */
+  tools: McpTool[];
+
+  /**
+   * Widget resources ready to pass to `createMcpHandler`
+   */
+  resources: McpResource[];
+}
+
+/**
+ * Error thrown when tool or widget definitions are invalid
+ */
+export class ToolRegistryError extends Error {
+  declare readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid tool registry:\n- ${issues.join('\n- ')}`);
+    this.name = 'ToolRegistryError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Declares a widget backed by a Next.js page
+ *
+ * @example
+ * ```ts
+ * export const weatherWidget = defineWidget({
+ *   name: 'weather',
+ *   route: '/weather',
+ *   description: 'Shows the forecast for a city',
+ *   prefersBorder: true,
+ *   csp: { connectDomains: ['https://api.weather.example'] },
+ * });
+ * ```
+ */
+export function defineWidget(options: WidgetOptions): WidgetDefinition {
+  return {
+    ...options,
+    uri: options.uri ?? `ui://widget/${options.name}.html`,
+  };
+}
+
+/**
+ * Declares a tool with typed arguments and structured output
+ *
+ * @example
+ * ```ts
+ * export const getWeather = defineTool<{ city: string }, { forecast: string }>({
+ *   name: 'get_weather',
+ *   description: 'Get the weather for a city',
+ *   inputSchema: {
+ *     type: 'object',
+ *     properties: { city: { type: 'string' } },
+ *     required: ['city'],
+ *   },
+ *   widget: weatherWidget,
+ *   invoking: 'Checking the sky…',
+ *   invoked: 'Forecast ready',
+ *   handler: async ({ city }) => ({
+ *     structuredContent: { forecast: `Sunny in ${city}` },
+ *   }),
+ * });
+ *
+ * // In the widget page
+ * const output = useToolOutput<typeof getWeather>(); // { forecast: string } | null
+ * ```
+ */
+export function defineTool<
+  TInput extends object = Record<string, unknown>,
+  TOutput extends object = Record<string, unknown>,
+>(
+  definition: ToolDefinition<TInput, TOutput>
+): ToolDefinition<TInput, TOutput> {
+  return definition;
+}
+
+/**
+ * Builds the `openai/*` metadata block for a tool descriptor
+ */
+export function buildToolMetadata(
+  tool: ToolDefinition<object, object>
+): McpMeta {
+  const meta: McpMeta = {};
+
+  if (tool.widget) {
+    meta['openai/outputTemplate'] = tool.widget.uri;
+    meta['openai/resultCanProduceWidget'] = true;
+  }
+
+  if (tool.invoking) {
+    meta['openai/toolInvocation/invoking'] = tool.invoking;
+  }
+
+  if (tool.invoked) {
+    meta['openai/toolInvocation/invoked'] = tool.invoked;
+  }
+
+  if (tool.widgetAccessible !== undefined) {
+    meta['openai/widgetAccessible'] = tool.widgetAccessible;
+  }
+
+  return meta;
+}
+
+/**
+ * Builds the `openai/*` metadata block for a widget resource
+ *
+ * `openai/widgetCSP` always allows the app origin, plus the domains from
+ * `csp` and the widget's own `csp`.
+ */
+export function buildWidgetMetadata(
+  widget: WidgetDefinition,
+  csp: WidgetCspOptions = {}
+): McpMeta {
+  const meta: McpMeta = {
+    'openai/widgetCSP': resolveWidgetCsp({
+      baseUrl: widget.csp?.baseUrl ?? csp.baseUrl,
+      connectDomains: [
+        ...(csp.connectDomains ?? []),
+        ...(widget.csp?.connectDomains ?? []),
+      ],
+      resourceDomains: [
+        ...(csp.resourceDomains ?? []),
+        ...(widget.csp?.resourceDomains ?? []),
+      ],
+    }),
+  };
+
+  if (widget.description) {
+    meta['openai/widgetDescription'] = widget.description;
+  }
+
+  if (widget.prefersBorder !== undefined) {
+    meta['openai/widgetPrefersBorder'] = widget.prefersBorder;
+  }
+
+  return meta;
+}
+
+async function readWidgetHtml(
+  widget: WidgetDefinition,
+  context: McpRequestContext,
+  options?: WidgetHtmlOptions
+): Promise<string> {
+  if (typeof widget.html === 'function') {
+    return widget.html(context);
+  }
+
+  if (typeof widget.html === 'string') {
+    return widget.html;
+  }
+
+  // Render the page in the user's locale, so it hydrates without a mismatch
+  return renderWidgetHtml(widget.route, {
+    ...options,
+    locale: options?.locale ?? context.locale,
+  });
+}
+
+/**
+ * Builds the MCP resource that serves a widget's HTML
+ */
+export function createWidgetResource(
+  widget: WidgetDefinition,
+  options?: WidgetHtmlOptions,
+  csp?: WidgetCspOptions
+): McpResource {
+  const meta = buildWidgetMetadata(widget, {
+    baseUrl: options?.baseUrl,
+    ...csp,
+  });
+
+  return {
+    uri: widget.uri,
+    name: widget.name,
+    title: widget.title,
+    description: widget.description,
+    mimeType: WIDGET_MIME_TYPE,
+    _meta: meta,
+    read: async context => ({
+      uri: widget.uri,
+      mimeType: WIDGET_MIME_TYPE,
+      text: await readWidgetHtml(widget, context, options),
+      _meta: meta,
+    }),
+  };
+}
+
+/**
+ * Serves a Next.js page as a `text/html+skybridge` widget resource
+ *
+ * @example
+ * ```ts
+ * const handler = createMcpHandler({
+ *   name: 'my-app',
+ *   version: '1.0.0',
+ *   resources: [createPageResource('/weather')],
+ * });
+ * ```
+ */
+export function createPageResource(
+  route: string,
+  options: WidgetHtmlOptions & Partial<WidgetOptions> = {}
+): McpResource {
+  const {
+    baseUrl,
+    buildId,
+    cache,
+    locale,
+    locales,
+    widgetSecret,
+    headers,
+    fetch,
+    ...widget
+  } = options;
+  const name =
+    widget.name ??
+    (route
+      .replace(/^\/+|\/+$/g, '')
+      .replace(/[^a-z0-9]+/gi, '-')
+      .toLowerCase() ||
+      'index');
+
+  return createWidgetResource(defineWidget({ ...widget, name, route }), {
+    baseUrl,
+    buildId,
+    cache,
+    locale,
+    locales,
+    widgetSecret,
+    headers,
+    fetch,
+  });
+}
+
+function validateInvocation(
+  issues: string[],
+  toolName: string,
+  key: 'invoking' | 'invoked',
+  value: string | undefined
+) {
+  if (value === undefined) return;
+
+  if (!value.trim()) {
+    issues.push(`Tool "${toolName}": "${key}" must not be empty`);
+  } else if (value.length > MAX_INVOCATION_LENGTH) {
+    issues.push(
+      `Tool "${toolName}": "${key}" must be at most ${MAX_INVOCATION_LENGTH} characters`
+    );
+  }
+}
+
+function validateWidget(issues: string[], widget: WidgetDefinition) {
+  if (!WIDGET_NAME_PATTERN.test(widget.name)) {
+    issues.push(
+      `Widget "${widget.name}": name must be lowercase letters, digits, "-" or "_"`
+    );
+  }
+
+  if (!widget.route.startsWith('/')) {
+    issues.push(`Widget "${widget.name}": route must start with "/"`);
+  }
+
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(widget.uri)) {
+    issues.push(`Widget "${widget.name}": uri "${widget.uri}" is not a URI`);
+  }
+}
+
+function validateTool(issues: string[], tool: ToolDefinition<object, object>) {
+  if (!TOOL_NAME_PATTERN.test(tool.name)) {
+    issues.push(
+      `Tool "${tool.name}": name must be 1-64 letters, digits, "-" or "_"`
+    );
+  }
+
+  if (!tool.description?.trim()) {
+    issues.push(`Tool "${tool.name}": description is required`);
+  }
+
+  if (tool.inputSchema?.type !== 'object') {
+    issues.push(`Tool "${tool.name}": inputSchema must have type "object"`);
+  } else {
+    const properties = tool.inputSchema.properties ?? {};
+
+    tool.inputSchema.required?.forEach(key => {
+      if (!(key in properties)) {
+        issues.push(
+          `Tool "${tool.name}": required argument "${key}" is not in inputSchema.properties`
+        );
+      }
+    });
+  }
+
+  if (tool.outputSchema && tool.outputSchema.type !== 'object') {
+    issues.push(`Tool "${tool.name}": outputSchema must have type "object"`);
+  }
+
+  validateInvocation(issues, tool.name, 'invoking', tool.invoking);
+  validateInvocation(issues, tool.name, 'invoked', tool.invoked);
+
+  if (tool.widgetAccessible && !tool.widget) {
+    issues.push(
+      `Tool "${tool.name}": "widgetAccessible" requires a widget to call it from`
+    );
+  }
+}
+
+function toMcpTool(tool: ToolDefinition<object, object>): McpTool {
+  const meta = buildToolMetadata(tool);
+
+  return {
+    name: tool.name,
+    title: tool.title,
+    description: tool.description,
+    inputSchema: tool.inputSchema,
+    outputSchema: tool.outputSchema,
+    annotations: tool.annotations,
+    securitySchemes: tool.securitySchemes,
+    _meta: meta,
+    handler: async (args, context) => {
+      const result = await tool.handler(args, context);
+      const { structuredContent } = result;
+
+      return {
+        ...result,
+        // Clients without structured content support still see the data
+        content:
+          result.content ??
+          (structuredContent === undefined
+            ? []
+            : [{ type: 'text', text: JSON.stringify(structuredContent) }]),
+        structuredContent: structuredContent as Record<string, unknown>,
+      };
+    },
+  };
+}
+
+/**
+ * Validates tool and widget definitions and derives the MCP tools and
+ * resources from them
+ *
+ * @throws {ToolRegistryError} When any definition is invalid
+ *
+ * @example
+ * ```ts
+ * // app/mcp/route.ts
+ * const registry = createToolRegistry({ tools: [getWeather] });
+ *
+ * const handler = createMcpHandler({
+ *   name: 'weather',
+ *   version: '1.0.0',
+ *   ...registry,
+ * });
+ * ```
+ */
+export function createToolRegistry(options: ToolRegistryOptions): ToolRegistry {
+  const issues: string[] = [];
+  const toolNames = new Set<string>();
+  const widgets = new Map<string, WidgetDefinition>();
+
+  const registerWidget = (widget: WidgetDefinition) => {
+    const existing = widgets.get(widget.uri);
+
+    if (existing && existing !== widget) {
+      issues.push(`Widget URI "${widget.uri}" is declared more than once`);
+
+      return;
+    }
+
+    if (!existing) {
+      validateWidget(issues, widget);
+      widgets.set(widget.uri, widget);
+    }
+  };
+
+  options.tools.forEach(tool => {
+    if (toolNames.has(tool.name)) {
+      issues.push(`Tool "${tool.name}" is declared more than once`);
+    }
+
+    toolNames.add(tool.name);
+    validateTool(issues, tool);
+
+    if (tool.widget) {
+      registerWidget(tool.widget);
+    }
+  });
+
+  options.widgets?.forEach(registerWidget);
+
+  if (issues.length > 0) {
+    throw new ToolRegistryError(issues);
+  }
+
+  return {
+    tools: options.tools.map(toMcpTool),
+    resources: Array.from(widgets.values(), widget =>
+      createWidgetResource(widget, options.render, options.csp)
+    ),
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import { extractPageToolConfig } from './route-scanner';
+
+describe('extractPageToolConfig', () => {
+  test('parses a static config with TypeScript annotations', () => {
+    const source = `
+      import type { PageToolConfig } from 'next-chatgpt-apps';
+
+      export const chatgptTool = {
+        // Shown to the model
+        description: 'Show the "weather" for a city',
+        'title': \`Weather\`,
+        annotations: { readOnlyHint: true, openWorldHint: false } as const,
+        inputSchema: {
+          days: { type: 'number', minimum: -1, maximum: 0x10, default: 1_000 },
+          units: ['metric', 'imperial',],
+        },
+        meta: { note: 'line\\nbreak \\u00e9', empty: null },
+      } satisfies PageToolConfig;
+
+      export default function Page() {}
+    `;
+
+    expect(extractPageToolConfig(source)).toEqual({
+      description: 'Show the "weather" for a city',
+      title: 'Weather',
+      annotations: { readOnlyHint: true, openWorldHint: false },
+      inputSchema: {
+        days: { type: 'number', minimum: -1, maximum: 16, default: 1000 },
+        units: ['metric', 'imperial'],
+      },
+      meta: { note: 'line\nbreak é', empty: null },
+    } as never);
+  });
+
+  test('returns null when the page exports no config', () => {
+    expect(extractPageToolConfig('export const chatgptToolbar = {};')).toBe(
+      null
+    );
+  });
+
+  test('never runs code in the config', () => {
+    const sources = [
+      'export const chatgptTool = { description: process.exit(1) };',
+      'export const chatgptTool = { description: SECRET };',
+      'export const chatgptTool = { description: `${globalThis.x}` };',
+      "export const chatgptTool = { description: 'a', ...defaults };",
+      "export const chatgptTool = { [key]: 'a' };",
+      "export const chatgptTool = { description() { return 'a'; } };",
+    ];
+
+    sources.forEach(source =>
+      expect(() => extractPageToolConfig(source)).toThrow(
+        '"chatgptTool" must be a static object literal'
+      )
+    );
+  });
+
+  test('keeps "__proto__" as a plain key', () => {
+    const config = extractPageToolConfig(
+      "export const chatgptTool = { description: 'a', __proto__: { admin: true } };"
+    ) as unknown as Record<string, unknown>;
+
+    expect(Object.getPrototypeOf(config)).toBe(Object.prototype);
+    expect(config.admin).toBeUndefined();
+  });
+
+  test('escapes the export name', () => {
+    const source = "export const $tool = { description: 'a' };";
+
+    expect(extractPageToolConfig(source, '$tool')).toEqual({
+      description: 'a',
+    } as never);
+    expect(extractPageToolConfig(source, '.tool')).toBe(null);
+  });
+
+  test('requires a description', () => {
+    expect(() =>
+      extractPageToolConfig("export const chatgptTool = { title: 'a' };")
+    ).toThrow('"chatgptTool.description" is required');
+  });
+});
@@ -0,0 +1,490 @@
+/**
+ * Build-time scanner that finds App Router pages exporting a `chatgptTool`
+ * config
+ *
+ * Only type imports and Node.js built-ins are used here, so the CLI can load
+ * this module without a bundler.
+ */
+
+import type { PageToolConfig, RouteToolManifestEntry } from '../types/mcp';
+
+export interface ScanAppRoutesOptions {
+  /**
+   * The App Router directory (defaults to "app", or "src/app" when it
+   * exists)
+   */
+  appDir?: string;
+
+  /**
+   * Name of the page export holding the config (defaults to "chatgptTool")
+   */
+  exportName?: string;
+
+  /**
+   * Also generate tools for pages without a config, with a generic
+   * description
+   */
+  includeAll?: boolean;
+}
+
+/**
+ * A dynamic segment of a route pattern
+ */
+export interface RouteParam {
+  name: string;
+  catchAll: boolean;
+  optional: boolean;
+}
+
+/**
+ * Error raised when page configs cannot be read
+ */
+export class RouteScanError extends Error {
+  // Declared rather than defined, so no class-field helper is emitted
+  declare readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid page tool configs:\n- ${issues.join('\n- ')}`);
+    this.name = 'RouteScanError';
+    this.issues = issues;
+  }
+}
+
+const PAGE_FILE_PATTERN = /^page\.(tsx|ts|jsx|js)$/;
+const DYNAMIC_SEGMENT_PATTERN = /^\[(\[)?(\.\.\.)?([^\]]+)\]\]?$/;
+
+/**
+ * Lists the dynamic segments of a route pattern
+ *
+ * @example
+ * ```ts
+ * getRouteParams('/docs/[...slug]');
+ * // [{ name: 'slug', catchAll: true, optional: false }]
+ * ```
+ */
+export function getRouteParams(route: string): RouteParam[] {
+  return route.split('/').flatMap(segment => {
+    const match = DYNAMIC_SEGMENT_PATTERN.exec(segment);
+
+    if (!match) return [];
+
+    const [, optional, catchAll, name = ''] = match;
+
+    return [{ name, catchAll: Boolean(catchAll), optional: Boolean(optional) }];
+  });
+}
+
+/**
+ * Derives the route pattern of a page file, relative to the app directory
+ *
+ * Route groups and parallel route slots are dropped; private folders and
+ * intercepting routes have no route of their own.
+ *
+ * @returns `null` when the file is not a routable page
+ */
+export function getPageRoute(file: string): string | null {
+  const segments = file.split(/[\\/]/);
+  const fileName = segments.pop() ?? '';
+
+  if (!PAGE_FILE_PATTERN.test(fileName)) {
+    return null;
+  }
+
+  if (segments.some(segment => /^_|^\(\.+\)/.test(segment))) {
+    return null;
+  }
+
+  const routeSegments = segments.filter(
+    segment => segment && !/^\(.*\)$/.test(segment) && !segment.startsWith('@')
+  );
+
+  return `/${routeSegments.join('/')}`;
+}
+
+// Anchored patterns, matched against the rest of the source
+const TRIVIA_PATTERN = /^(?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*/;
+const STRING_PATTERN = /^(?:'(?:[^'\\\n]|\\[\s\S])*'|"(?:[^"\\\n]|\\[\s\S])*")/;
+const TEMPLATE_PATTERN = /^`(?:[^`\\$]|\\[\s\S]|\$(?!\{))*`/;
+const NUMBER_PATTERN =
+  /^[+-]?(?:0[xX][\da-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?)(?![\w$])/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*/;
+const AS_CONST_PATTERN = /^as\s+const(?![\w$])/;
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+  v: '\v',
+  0: '\0',
+};
+
+function unescapeString(body: string): string {
+  return body.replace(
+    /\\(?:u\{([\da-fA-F]+)\}|u([\da-fA-F]{4})|x([\da-fA-F]{2})|(\r\n|[\s\S]))/g,
+    (_match, codePoint?: string, unit?: string, byte?: string, char = '') => {
+      const code = codePoint ?? unit ?? byte;
+
+      if (code) {
+        return String.fromCodePoint(parseInt(code, 16));
+      }
+
+      // Escaped line breaks continue the string
+      if (/^(?:\r\n|[\n\r\u2028\u2029])$/.test(char)) {
+        return '';
+      }
+
+      return ESCAPES[char] ?? char;
+    }
+  );
+}
+
+/**
+ * Parses the object literal that starts at `start`, without evaluating it
+ *
+ * Accepts JSON5-style literals (comments, unquoted keys, single quotes,
+ * trailing commas), template strings without substitutions and `as const`.
+ * Identifiers, calls, spreads and computed keys are rejected, so the page's
+ * code never runs.
+ *
+ * @throws {Error} At the first token that is not part of a static literal
+ */
+function parseObjectLiteral(source: string, start: number): unknown {
+  let index = start;
+
+  const fail = (expected: string): never => {
+    const found = /^[^\s,:;{}[\]()]*.?/.exec(source.slice(index))?.[0];
+    const line = source.slice(0, index).split('\n').length;
+
+    throw new Error(
+      `expected ${expected} but found ${found ? `"${found}"` : 'the end of the file'} on line ${line}`
+    );
+  };
+
+  const read = (pattern: RegExp): string | null => {
+    const match = pattern.exec(source.slice(index));
+
+    if (!match) return null;
+
+    index += match[0].length;
+
+    return match[0];
+  };
+
+  const skip = () => {
+    read(TRIVIA_PATTERN);
+  };
+
+  const expectChar = (char: string) => {
+    skip();
+
+    if (source[index] !== char) {
+      fail(`"${char}"`);
+    }
+
+    index += 1;
+  };
+
+  // Reads the separator after an item; returns `true` at the closing char
+  const readSeparator = (close: string): boolean => {
+    skip();
+
+    if (source[index] === ',') {
+      index += 1;
+      skip();
+    } else if (source[index] !== close) {
+      fail(`"," or "${close}"`);
+    }
+
+    if (source[index] === close) {
+      index += 1;
+
+      return true;
+    }
+
+    return false;
+  };
+
+  function parseString(): string | null {
+    const quoted = read(STRING_PATTERN) ?? read(TEMPLATE_PATTERN);
+
+    return quoted === null ? null : unescapeString(quoted.slice(1, -1));
+  }
+
+  function parseKey(): string {
+    skip();
+
+    const key = parseString() ?? read(IDENTIFIER_PATTERN);
+
+    if (key !== null) {
+      return key;
+    }
+
+    const number = read(NUMBER_PATTERN);
+
+    return number === null ? fail('a property name') : String(Number(number));
+  }
+
+  function parseObject(): Record<string, unknown> {
+    const object: Record<string, unknown> = {};
+
+    expectChar('{');
+    skip();
+
+    if (source[index] === '}') {
+      index += 1;
+
+      return object;
+    }
+
+    do {
+      const key = parseKey();
+
+      expectChar(':');
+      // Defined rather than assigned, so a "__proto__" key stays a key
+      Object.defineProperty(object, key, {
+        value: parseValue(),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    } while (!readSeparator('}'));
+
+    return object;
+  }
+
+  function parseArray(): unknown[] {
+    const array: unknown[] = [];
+
+    expectChar('[');
+    skip();
+
+    if (source[index] === ']') {
+      index += 1;
+
+      return array;
+    }
+
+    do {
+      array.push(parseValue());
+    } while (!readSeparator(']'));
+
+    return array;
+  }
+
+  function parseNumber(): number | null {
+    const number = read(NUMBER_PATTERN);
+
+    if (number === null) return null;
+
+    const sign = number.startsWith('-') ? -1 : 1;
+
+    // `Number` reads hex, octal and binary literals, but not with a sign
+    return sign * Number(number.replace(/^[+-]/, '').replace(/_/g, ''));
+  }
+
+  function parseScalar(): unknown {
+    const string = parseString();
+
+    if (string !== null) return string;
+
+    const number = parseNumber();
+
+    if (number !== null) return number;
+
+    const keyword = read(IDENTIFIER_PATTERN);
+
+    if (keyword === 'true' || keyword === 'false') return keyword === 'true';
+
+    if (keyword === 'null') return null;
+
+    if (keyword !== null) {
+      index -= keyword.length;
+    }
+
+    return fail('a literal value');
+  }
+
+  function parseValue(): unknown {
+    skip();
+
+    let value: unknown;
+
+    if (source[index] === '{') {
+      value = parseObject();
+    } else if (source[index] === '[') {
+      value = parseArray();
+    } else {
+      value = parseScalar();
+    }
+
+    skip();
+
+    // `as const` only narrows the type
+    if (read(AS_CONST_PATTERN)) {
+      skip();
+    }
+
+    return value;
+  }
+
+  return parseObject();
+}
+
+/**
+ * Reads the `chatgptTool` config exported by a page's source
+ *
+ * Like Next.js route segment config, the value must be a static object
+ * literal. It is parsed, never evaluated, so it may only hold strings,
+ * numbers, booleans, `null`, arrays and objects; `as const` and a trailing
+ * `satisfies` are allowed.
+ *
+ * @returns `null` when the page exports no config
+ * @throws {Error} When the export is not a static object literal
+ */
+export function extractPageToolConfig(
+  source: string,
+  exportName = 'chatgptTool'
+): PageToolConfig | null {
+  const name = exportName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(
+    `export\\s+const\\s+${name}(?![\\w$])[^=]*=\\s*`
+  ).exec(source);
+
+  if (!match) {
+    return null;
+  }
+
+  const start = match.index + match[0].length;
+
+  if (source[start] !== '{') {
+    throw new Error(`"${exportName}" must be an object literal`);
+  }
+
+  let config: PageToolConfig;
+
+  try {
+    config = parseObjectLiteral(source, start) as PageToolConfig;
+  } catch (error) {
+    throw new Error(
+      `"${exportName}" must be a static object literal (${error instanceof Error ? error.message : String(error)})`
+    );
+  }
+
+  if (typeof config.description !== 'string' || !config.description.trim()) {
+    throw new Error(`"${exportName}.description" is required`);
+  }
+
+  return config;
+}
+
+async function findPageFiles(root: string, dir = ''): Promise<string[]> {
+  const { readdir } = await import('node:fs/promises');
+  const { join } = await import('node:path');
+  const entries = await readdir(join(root, dir), { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(async entry => {
+      const relative = dir ? `${dir}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        return entry.name === 'node_modules' || entry.name.startsWith('.')
+          ? []
+          : findPageFiles(root, relative);
+      }
+
+      return PAGE_FILE_PATTERN.test(entry.name) ? [relative] : [];
+    })
+  );
+
+  return files.flat();
+}
+
+async function resolveAppDir(appDir?: string): Promise<string> {
+  if (appDir) {
+    return appDir;
+  }
+
+  const { stat } = await import('node:fs/promises');
+
+  try {
+    await stat('app');
+
+    return 'app';
+  } catch {
+    return 'src/app';
+  }
+}
+
+/**
+ * Walks `app/**\/page.tsx` and collects the pages that export a
+ * `chatgptTool` config
+ *
+ * @throws {RouteScanError} When any config is invalid
+ *
+ * @example
+ * ```ts
+ * const tools = await scanAppRoutes({ appDir: 'src/app' });
+ * await writeFile('chatgpt-tools.generated.ts', renderRouteToolManifest(tools));
+ * ```
+ */
+export async function scanAppRoutes(
+  options: ScanAppRoutesOptions = {}
+): Promise<RouteToolManifestEntry[]> {
+  const { readFile } = await import('node:fs/promises');
+  const { join } = await import('node:path');
+  const appDir = await resolveAppDir(options.appDir);
+  const files = (await findPageFiles(appDir)).sort();
+  const issues: string[] = [];
+  const entries = await Promise.all(
+    files.map(async (file): Promise<RouteToolManifestEntry | null> => {
+      const route = getPageRoute(file);
+
+      if (!route) return null;
+
+      try {
+        const config = extractPageToolConfig(
+          await readFile(join(appDir, file), 'utf8'),
+          options.exportName
+        );
+
+        if (config) {
+          return { ...config, route, file };
+        }
+      } catch (error) {
+        issues.push(
+          `${file}: ${error instanceof Error ? error.message : String(error)}`
+        );
+
+        return null;
+      }
+
+      return options.includeAll
+        ? { route, file, description: `Opens the ${route} page of the app` }
+        : null;
+    })
+  );
+
+  if (issues.length > 0) {
+    throw new RouteScanError(issues);
+  }
+
+  return entries.filter(
+    (entry): entry is RouteToolManifestEntry => entry !== null
+  );
+}
+
+/**
+ * Renders scanned routes as a TypeScript module exporting `routeTools`
+ */
+export function renderRouteToolManifest(
+  entries: RouteToolManifestEntry[]
+): string {
+  return [
+    '// Generated by `next-chatgpt-apps generate-tools`. Do not edit.',
+    "import type { RouteToolManifestEntry } from 'next-chatgpt-apps/mcp';",
+    '',
+    `export const routeTools: RouteToolManifestEntry[] = ${JSON.stringify(entries, null, 2)};`,
+    '',
+  ].join('\n');
+}
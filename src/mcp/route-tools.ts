@@ -0,0 +1,133 @@
+/**
+ * Tools generated from App Router pages
+ *
+ * Each tool opens its page: the output is a `url` payload that
+ * `UrlController` navigates to.
+ */
+
+import type { UrlData } from '../components/UrlController';
+import type {
+  JsonSchema,
+  RouteToolManifestEntry,
+  ToolDefinition,
+  WidgetDefinition,
+} from '../types/mcp';
+import { getRouteParams } from './route-scanner';
+
+export interface RouteToolsOptions {
+  /**
+   * Widget that renders the app and runs `UrlController`
+   */
+  widget: WidgetDefinition;
+
+  /**
+   * Tool output key `UrlController` reads (defaults to "url")
+   */
+  urlKey?: string;
+}
+
+/**
+ * Derives a tool name from a route pattern
+ *
+ * @example
+ * ```ts
+ * getRouteToolName('/products/[id]'); // 'open_products_id'
+ * getRouteToolName('/'); // 'open_home'
+ * ```
+ */
+export function getRouteToolName(route: string): string {
+  const slug = route
+    .replace(/[[\].]/g, '')
+    .split('/')
+    .filter(Boolean)
+    .join('_')
+    .replace(/[^a-zA-Z0-9_-]+/g, '_');
+
+  return `open_${slug || 'home'}`.slice(0, 64);
+}
+
+function toParamValue(value: unknown): string | string[] {
+  return Array.isArray(value) ? value.map(String) : String(value);
+}
+
+/**
+ * Turns scanned pages into tools that open them
+ *
+ * @example
+ * ```ts
+ * // app/mcp/route.ts
+ * import { routeTools } from '@/chatgpt-tools.generated';
+ *
+ * const appWidget = defineWidget({ name: 'app', route: '/' });
+ *
+ * const registry = createToolRegistry({
+ *   tools: [...createRouteTools(routeTools, { widget: appWidget })],
+ * });
+ * ```
+ */
+export function createRouteTools(
+  entries: RouteToolManifestEntry[],
+  options: RouteToolsOptions
+): ToolDefinition<Record<string, unknown>, Record<string, UrlData>>[] {
+  const urlKey = options.urlKey ?? 'url';
+
+  return entries.map(entry => {
+    const routeParams = getRouteParams(entry.route);
+    const properties: Record<string, JsonSchema> = { ...entry.searchParams };
+
+    routeParams.forEach(({ name, catchAll }) => {
+      properties[name] =
+        entry.params?.[name] ??
+        (catchAll
+          ? { type: 'array', items: { type: 'string' } }
+          : { type: 'string' });
+    });
+
+    return {
+      name: entry.name ?? getRouteToolName(entry.route),
+      title: entry.title,
+      description: entry.description,
+      inputSchema: {
+        type: 'object',
+        properties,
+        required: [
+          ...routeParams
+            .filter(({ optional }) => !optional)
+            .map(({ name }) => name),
+          ...(entry.required ?? []),
+        ],
+      },
+      annotations: { readOnlyHint: true },
+      widget: options.widget,
+      invoking: entry.invoking,
+      invoked: entry.invoked,
+      handler: args => {
+        const url: UrlData = { pathname: entry.route };
+        const params: Record<string, string | string[]> = {};
+        const searchParams: Record<string, string | string[]> = {};
+
+        routeParams.forEach(({ name }) => {
+          if (args[name] != null) {
+            params[name] = toParamValue(args[name]);
+          }
+        });
+
+        Object.keys(entry.searchParams ?? {}).forEach(key => {
+          if (args[key] != null) {
+            searchParams[key] = toParamValue(args[key]);
+          }
+        });
+
+        if (Object.keys(params).length > 0) {
+          url.params = params;
+        }
+
+        if (Object.keys(searchParams).length > 0) {
+          url.searchParams = searchParams;
+        }
+
+        return { structuredContent: { [urlKey]: url } };
+      },
+    };
+  });
+}
@@ -0,0 +1,183 @@
+import { describe, expect, test } from 'bun:test';
+import { createMcpHandler } from './handler';
+import { createToolRegistry, defineTool } from './registry';
+import {
+  fetchMcpTools,
+  jsonSchemaToTypeScript,
+  readToolDescriptors,
+  renderToolTypes,
+} from './tool-types';
+
+// A registry covering the schema features tools commonly use
+const registry = createToolRegistry({
+  tools: [
+    defineTool({
+      name: 'get_weather',
+      description: 'Looks up the forecast\nfor a city',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          city: { type: 'string', description: 'City name' },
+          units: { type: 'string', enum: ['c', 'f'] },
+          days: { type: 'integer' },
+        },
+        required: ['city'],
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          city: { type: 'string' },
+          forecast: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                day: { type: 'string' },
+                high: { type: ['number', 'null'] },
+              },
+              required: ['day', 'high'],
+            },
+          },
+        },
+        required: ['city', 'forecast'],
+      },
+      handler: () => ({ structuredContent: {} }),
+    }),
+    defineTool({
+      name: 'add-todo',
+      description: 'Adds a todo */ safely',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          'due-date': { anyOf: [{ type: 'string' }, { type: 'null' }] },
+          tags: { type: 'array', items: { type: 'string' } },
+          priority: { const: 'high' },
+          position: {
+            type: 'array',
+            items: [{ type: 'number' }, { type: 'number' }],
+          },
+          extra: { type: 'object', additionalProperties: { type: 'boolean' } },
+        },
+        required: ['title'],
+        additionalProperties: true,
+      },
+      handler: () => ({ structuredContent: {} }),
+    }),
+  ],
+});
+
+const handler = createMcpHandler({
+  name: 'fixture',
+  version: '1.0.0',
+  tools: registry.tools,
+});
+
+describe('renderToolTypes', () => {
+  test('renders the tools of a registry as declarations', async () => {
+    const tools = await fetchMcpTools('https://app.test/mcp', {
+      fetch: (async (url: string, init?: RequestInit) =>
+        handler(new Request(url, init))) as typeof fetch,
+    });
+
+    expect(renderToolTypes(tools)).toMatchSnapshot();
+  });
+
+  test('uses the interface name given', () => {
+    expect(renderToolTypes([], { interfaceName: 'ShopTools' })).toContain(
+      'export interface ShopTools {'
+    );
+  });
+});
+
+describe('jsonSchemaToTypeScript', () => {
+  test('maps unsupported and boolean schemas', () => {
+    expect(jsonSchemaToTypeScript(undefined)).toBe('unknown');
+    expect(jsonSchemaToTypeScript(false)).toBe('never');
+    expect(
+      jsonSchemaToTypeScript({
+        allOf: [
+          { type: 'object', properties: { a: { type: 'string' } } },
+          { type: 'object' },
+        ],
+      })
+    ).toBe('{\n  a?: string;\n} & Record<string, unknown>');
+  });
+});
+
+describe('readToolDescriptors', () => {
+  const tool = { name: 'search', inputSchema: { type: 'object' } };
+
+  test('accepts results, responses and arrays, dropping invalid tools', () => {
+    expect(readToolDescriptors({ tools: [tool, { name: 1 }] })).toEqual([tool]);
+    expect(readToolDescriptors({ result: { tools: [tool] } })).toEqual([tool]);
+    expect(readToolDescriptors([tool])).toEqual([tool]);
+    expect(() => readToolDescriptors({})).toThrow(
+      'Expected a tools/list result or an array of tools'
+    );
+  });
+});
+
+describe('fetchMcpTools', () => {
+  test('follows pagination and reads streamed responses', async () => {
+    const pages: Record<string, unknown> = {
+      '': { tools: [{ name: 'a', inputSchema: {} }], nextCursor: 'page-2' },
+      'page-2': { tools: [{ name: 'b', inputSchema: {} }] },
+    };
+    const requests: { method: string; headers: Headers }[] = [];
+    const fetchImpl = (async (_url: string, init?: RequestInit) => {
+      const message = JSON.parse(String(init?.body));
+
+      requests.push({
+        method: message.method,
+        headers: new Headers(init?.headers),
+      });
+
+      if (message.id === undefined) {
+        return new Response(null, { status: 202 });
+      }
+
+      const result =
+        message.method === 'tools/list'
+          ? pages[message.params?.cursor ?? '']
+          : {};
+
+      return new Response(
+        `event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: message.id, result })}\n\n`,
+        {
+          headers: {
+            'Content-Type': 'text/event-stream',
+            'Mcp-Session-Id': 'session-1',
+          },
+        }
+      );
+    }) as typeof fetch;
+
+    const tools = await fetchMcpTools('https://app.test/mcp', {
+      fetch: fetchImpl,
+      headers: { Authorization: 'Bearer token' },
+    });
+
+    expect(tools.map(({ name }) => name)).toEqual(['a', 'b']);
+    expect(requests.map(({ method }) => method)).toEqual([
+      'initialize',
+      'notifications/initialized',
+      'tools/list',
+      'tools/list',
+    ]);
+    expect(requests[0]!.headers.get('mcp-session-id')).toBeNull();
+    expect(requests[3]!.headers.get('mcp-session-id')).toBe('session-1');
+    expect(requests[3]!.headers.get('authorization')).toBe('Bearer token');
+  });
+
+  test('reports error responses', async () => {
+    await expect(
+      fetchMcpTools('https://app.test/mcp', {
+        fetch: (async () =>
+          new Response('Unauthorized', {
+            status: 401,
+          })) as unknown as typeof fetch,
+      })
+    ).rejects.toThrow('initialize failed: https://app.test/mcp responded 401');
+  });
+});
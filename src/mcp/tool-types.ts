@@ -0,0 +1,299 @@
+/**
+ * TypeScript declarations generated from the tools an MCP server lists
+ *
+ * Only type imports are used here, so the CLI can load this module without a
+ * bundler.
+ */
+
+import type {
+  JsonRpcResponse,
+  JsonSchema,
+  McpToolDescriptor,
+} from '../types/mcp';
+
+export interface FetchMcpToolsOptions {
+  /**
+   * Extra request headers (e.g. `Authorization`)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Custom fetch implementation
+   */
+  fetch?: typeof fetch;
+}
+
+export interface RenderToolTypesOptions {
+  /**
+   * Name of the generated interface (defaults to "ChatGPTTools")
+   */
+  interfaceName?: string;
+}
+
+// Matches LATEST_PROTOCOL_VERSION, which lives in a module the CLI can't load
+const PROTOCOL_VERSION = '2025-06-18';
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+function propertyKey(name: string) {
+  return IDENTIFIER_PATTERN.test(name) ? name : JSON.stringify(name);
+}
+
+function docComment(description: unknown, indent: string) {
+  if (typeof description !== 'string' || !description.trim()) {
+    return '';
+  }
+
+  const lines = description.trim().replace(/\*\//g, '*\\/').split('\n');
+
+  return `${indent}/**\n${lines
+    .map(line => `${indent} * ${line}`.trimEnd())
+    .join('\n')}\n${indent} */\n`;
+}
+
+function union(types: string[]) {
+  const unique = Array.from(new Set(types));
+
+  return unique.length > 0 ? unique.join(' | ') : 'unknown';
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const { properties = {}, required = [], additionalProperties } = schema;
+  const inner = `${indent}  `;
+  const members = Object.entries(properties).map(
+    ([name, property]) =>
+      `${docComment(property.description, inner)}${inner}${propertyKey(name)}${
+        required.includes(name) ? '' : '?'
+      }: ${jsonSchemaToTypeScript(property, inner)};`
+  );
+
+  if (members.length === 0) {
+    return `Record<string, ${
+      additionalProperties && typeof additionalProperties === 'object'
+        ? jsonSchemaToTypeScript(additionalProperties as JsonSchema, indent)
+        : 'unknown'
+    }>`;
+  }
+
+  if (additionalProperties !== undefined && additionalProperties !== false) {
+    members.push(`${inner}[key: string]: unknown;`);
+  }
+
+  return `{\n${members.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Converts a JSON Schema to a TypeScript type expression
+ *
+ * Covers the subset tool schemas use: primitive types, objects, arrays and
+ * tuples, `enum`, `const`, `anyOf`/`oneOf` and `allOf`. Anything else becomes
+ * `unknown`.
+ *
+ * @example
+ * ```ts
+ * jsonSchemaToTypeScript({ type: 'string', enum: ['c', 'f'] }); // '"c" | "f"'
+ * ```
+ */
+export function jsonSchemaToTypeScript(
+  schema: JsonSchema | boolean | undefined,
+  indent = ''
+): string {
+  if (schema === undefined || typeof schema === 'boolean') {
+    return schema === false ? 'never' : 'unknown';
+  }
+
+  if ('const' in schema) {
+    return JSON.stringify(schema.const);
+  }
+
+  if (Array.isArray(schema.enum)) {
+    return union(schema.enum.map(value => JSON.stringify(value)));
+  }
+
+  const variants = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined;
+
+  if (Array.isArray(variants)) {
+    return union(
+      variants.map(variant => jsonSchemaToTypeScript(variant, indent))
+    );
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    return (schema.allOf as JsonSchema[])
+      .map(part => jsonSchemaToTypeScript(part, indent))
+      .join(' & ');
+  }
+
+  const types = Array.isArray(schema.type)
+    ? schema.type
+    : [schema.type ?? (schema.properties ? 'object' : undefined)];
+
+  return union(
+    types.map(type => {
+      switch (type) {
+        case 'string':
+          return 'string';
+        case 'number':
+        case 'integer':
+          return 'number';
+        case 'boolean':
+          return 'boolean';
+        case 'null':
+          return 'null';
+        case 'array':
+          if (Array.isArray(schema.items)) {
+            return `[${schema.items
+              .map(item => jsonSchemaToTypeScript(item, indent))
+              .join(', ')}]`;
+          }
+
+          return `Array<${jsonSchemaToTypeScript(schema.items, indent)}>`;
+        case 'object':
+          return objectType(schema, indent);
+        default:
+          return 'unknown';
+      }
+    })
+  );
+}
+
+/**
+ * Renders tools as a `.d.ts` module exporting one interface, with each
+ * tool's `input` and `output` types, for `createToolClient`
+ *
+ * @example
+ * ```ts
+ * await writeFile('chatgpt-tools.d.ts', renderToolTypes(tools));
+ * ```
+ */
+export function renderToolTypes(
+  tools: McpToolDescriptor[],
+  { interfaceName = 'ChatGPTTools' }: RenderToolTypesOptions = {}
+): string {
+  const members = [...tools]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(
+      tool =>
+        `${docComment(tool.description, '  ')}  ${propertyKey(tool.name)}: {\n` +
+        `    input: ${jsonSchemaToTypeScript(tool.inputSchema, '    ')};\n` +
+        `    output: ${
+          tool.outputSchema
+            ? jsonSchemaToTypeScript(tool.outputSchema, '    ')
+            : 'Record<string, unknown>'
+        };\n  };`
+    );
+
+  return [
+    '// Generated by `next-chatgpt-apps generate-types`. Do not edit.',
+    '',
+    `export interface ${interfaceName} {`,
+    ...members,
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Reads tool descriptors from a `tools/list` result, a full JSON-RPC
+ * response or a plain array of tools
+ */
+export function readToolDescriptors(json: unknown): McpToolDescriptor[] {
+  const value = json as {
+    tools?: unknown;
+    result?: { tools?: unknown };
+  } | null;
+  const tools = Array.isArray(json)
+    ? json
+    : (value?.tools ?? value?.result?.tools);
+
+  if (!Array.isArray(tools)) {
+    throw new Error('Expected a tools/list result or an array of tools');
+  }
+
+  return tools.filter(
+    (tool): tool is McpToolDescriptor =>
+      typeof tool?.name === 'string' && typeof tool.inputSchema === 'object'
+  );
+}
+
+/**
+ * Lists the tools of a running MCP endpoint over Streamable HTTP
+ *
+ * @example
+ * ```ts
+ * const tools = await fetchMcpTools('http://localhost:3000/mcp');
+ * ```
+ */
+export async function fetchMcpTools(
+  url: string,
+  options: FetchMcpToolsOptions = {}
+): Promise<McpToolDescriptor[]> {
+  const fetchImpl = options.fetch ?? fetch;
+  let sessionId: string | null = null;
+  let nextId = 0;
+
+  const send = async (method: string, params?: Record<string, unknown>) => {
+    const id = method.startsWith('notifications/') ? undefined : ++nextId;
+    const response = await fetchImpl(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'MCP-Protocol-Version': PROTOCOL_VERSION,
+        ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+        ...options.headers,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id, method, params }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${method} failed: ${url} responded ${response.status}`);
+    }
+
+    sessionId = response.headers.get('mcp-session-id') ?? sessionId;
+
+    if (id === undefined) {
+      return undefined;
+    }
+
+    const text = await response.text();
+    // Streamed responses carry the JSON-RPC message in `data:` lines
+    const messages: JsonRpcResponse[] = (
+      response.headers.get('content-type')?.includes('text/event-stream')
+        ? text
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trim())
+        : [text]
+    ).map(data => JSON.parse(data));
+    const message = messages.find(candidate => candidate.id === id);
+
+    if (!message) {
+      throw new Error(`${method} failed: no response from ${url}`);
+    }
+
+    if (message.error) {
+      throw new Error(`${method} failed: ${message.error.message}`);
+    }
+
+    return message.result as Record<string, unknown>;
+  };
+
+  await send('initialize', {
+    protocolVersion: PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: { name: 'next-chatgpt-apps', version: '0.0.0' },
+  });
+  await send('notifications/initialized');
+
+  const listPage = async (cursor?: string): Promise<McpToolDescriptor[]> => {
+    const result = await send('tools/list', cursor ? { cursor } : undefined);
+    const tools = readToolDescriptors(result);
+
+    return typeof result?.nextCursor === 'string'
+      ? [...tools, ...(await listPage(result.nextCursor))]
+      : tools;
+  };
+
+  return listPage();
+}
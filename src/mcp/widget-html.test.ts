@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, mock, test } from 'bun:test';
+import { classifyRequest, WIDGET_MARKER_PARAM } from '../proxy/classify';
+import { LOCALE_HEADER } from '../utils/locale';
+import {
+  clearWidgetHtmlCache,
+  prepareWidgetHtml,
+  renderWidgetHtml,
+} from './widget-html';
+
+afterEach(() => {
+  clearWidgetHtmlCache();
+});
+
+describe('renderWidgetHtml', () => {
+  const render = (locale: string, fetchImpl: typeof fetch) =>
+    renderWidgetHtml('/weather', {
+      baseUrl: 'https://app.test',
+      buildId: 'build-1',
+      cache: true,
+      locale,
+      locales: ['en', 'de'],
+      fetch: fetchImpl,
+    });
+
+  test('renders the closest supported locale', async () => {
+    const fetchMock = mock(
+      async (_url: URL | RequestInfo, _init?: RequestInit) =>
+        new Response('<html><head></head></html>')
+    );
+
+    await render('de_AT', fetchMock as unknown as typeof fetch);
+
+    const headers = new Headers(fetchMock.mock.calls[0]![1]!.headers);
+
+    expect(headers.get(LOCALE_HEADER)).toBe('de');
+    expect(headers.get('accept-language')).toBe('de');
+  });
+
+  test('shares one cache entry between unsupported locales', async () => {
+    const fetchMock = mock(
+      async () => new Response('<html><head></head></html>')
+    );
+    const fetchImpl = fetchMock as unknown as typeof fetch;
+
+    await render('ja', fetchImpl);
+    await render('x-made-up-1', fetchImpl);
+    await render('en-GB', fetchImpl);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('prepareWidgetHtml', () => {
+  const baseUrl = 'https://app.test/shop';
+
+  test('makes root-relative asset URLs absolute', () => {
+    const html = prepareWidgetHtml(
+      [
+        '<script src="/_next/static/app.js"></script>',
+        "<link rel='stylesheet' href='/styles.css'>",
+        '<img alt="" srcset="/logo.png 2x">',
+        '<script src="//cdn.test/lib.js"></script>',
+        '<a href="/cart">Cart</a>',
+      ].join(''),
+      baseUrl
+    );
+
+    expect(html).toContain('src="https://app.test/_next/static/app.js"');
+    expect(html).toContain("href='https://app.test/styles.css'");
+    expect(html).toContain('srcset="https://app.test/logo.png 2x"');
+    expect(html).toContain('src="//cdn.test/lib.js"');
+    expect(html).toContain('<a href="/cart">');
+  });
+
+  test('adds the base tag and globals at the start of the head', () => {
+    const html = prepareWidgetHtml(
+      '<html><head lang="en"><title>Shop</title></head></html>',
+      baseUrl
+    );
+
+    expect(html).toBe(
+      '<html><head lang="en"><base href="https://app.test/shop/">' +
+        '<script>window.innerBaseUrl = "https://app.test/shop"</script>' +
+        '<script>window.__isChatGptApp = typeof window.openai !== "undefined";</script>' +
+        '<title>Shop</title></head></html>'
+    );
+  });
+
+  test('leaves pages rendering ChatGPTBootstrap alone', () => {
+    const page =
+      '<head><base href="https://app.test/"/><script>window.innerBaseUrl = "https://app.test"</script></head>';
+
+    expect(prepareWidgetHtml(page, baseUrl)).toBe(page);
+  });
+
+  test('escapes the base URL in the base tag and script', () => {
+    const html = prepareWidgetHtml(
+      '<p>fragment</p>',
+      'https://app.test/a"b</script>'
+    );
+
+    expect(html).toStartWith(
+      '<base href="https://app.test/a&quot;b&lt;/script>/">' +
+        '<script>window.innerBaseUrl = "https://app.test/a\\"b\\u003c/script>"</script>'
+    );
+  });
+});
+
+describe('renderWidgetHtml marker', () => {
+  test('signs the page URL so the proxy classifies it as a widget', async () => {
+    const fetchMock = mock(
+      async (_url: URL | RequestInfo, _init?: RequestInit) =>
+        new Response('<html><head></head></html>')
+    );
+
+    await renderWidgetHtml('/weather?city=Paris', {
+      baseUrl: 'https://app.test',
+      cache: false,
+      widgetSecret: 'test-secret',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    const url = fetchMock.mock.calls[0]![0] as URL;
+
+    expect(url.searchParams.get('city')).toBe('Paris');
+    expect(url.searchParams.has(WIDGET_MARKER_PARAM)).toBe(true);
+    expect(
+      await classifyRequest(new Request(url), { secret: 'test-secret' })
+    ).toMatchObject({ kind: 'widget', signal: 'marker' });
+  });
+
+  test('throws on failed renders without caching them', async () => {
+    const responses = [
+      new Response('Boom', { status: 500, statusText: 'Server Error' }),
+      new Response('<html><head></head></html>'),
+    ];
+    const fetchImpl = (async () =>
+      responses.shift()!) as unknown as typeof fetch;
+    const options = {
+      baseUrl: 'https://app.test',
+      buildId: 'build-1',
+      cache: true,
+      fetch: fetchImpl,
+    };
+
+    await expect(renderWidgetHtml('/weather', options)).rejects.toThrow(
+      'Failed to render widget page /weather: 500 Server Error'
+    );
+    expect(await renderWidgetHtml('/weather', options)).toContain(
+      '<base href="https://app.test/">'
+    );
+  });
+});
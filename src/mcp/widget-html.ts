@@ -0,0 +1,265 @@
+/**
+ * Renders Next.js pages as `text/html+skybridge` widget documents
+ *
+ * ChatGPT loads the widget HTML inside a sandboxed iframe on its own origin,
+ * so the document must point back at the app with a `<base>` tag and carry the
+ * globals `ChatGPTBootstrap` relies on.
+ */
+
+import {
+  getWidgetSecret,
+  signWidgetMarker,
+  WIDGET_MARKER_PARAM,
+} from '../proxy/classify';
+import { getBaseURL } from '../utils/base-url';
+import { LOCALE_HEADER, matchLocale, normalizeLocale } from '../utils/locale';
+import { createLruCache } from '../utils/lru';
+
+export interface WidgetHtmlOptions {
+  /**
+   * Origin the page is fetched from and assets resolve against
+   * (defaults to `getBaseURL()`)
+   */
+  baseUrl?: string;
+
+  /**
+   * Build ID used as the cache key (defaults to `getBuildId()`)
+   */
+  buildId?: string;
+
+  /**
+   * Whether to cache rendered HTML per build (defaults to `true` outside
+   * development)
+   */
+  cache?: boolean;
+
+  /**
+   * Locale to render the page in, sent as `LOCALE_HEADER` and
+   * `Accept-Language`. Pages are cached per locale.
+   */
+  locale?: string;
+
+  /**
+   * Locales the app renders. The requested locale is matched against them
+   * (e.g. "de-AT" renders "de") and falls back to the first one, so
+   * clients cannot add cache entries with made-up locales.
+   */
+  locales?: string[];
+
+  /**
+   * Secret signing the widget marker added to the page URL, so a proxy
+   * running with `classify` recognizes the render as a widget load
+   * (defaults to `CHATGPT_WIDGET_SECRET`)
+   */
+  widgetSecret?: string;
+
+  /**
+   * Extra headers sent when fetching the page
+   */
+  headers?: HeadersInit;
+
+  /**
+   * Custom fetch implementation
+   */
+  fetch?: typeof fetch;
+}
+
+// Holds every route in a few locales; beyond that, old renders are evicted
+const HTML_CACHE_SIZE = 200;
+
+const htmlCache = createLruCache<string, Promise<string>>(HTML_CACHE_SIZE);
+
+let cachedBuildId: Promise<string | undefined> | undefined;
+
+async function readBuildIdFile(): Promise<string | undefined> {
+  try {
+    const { readFile } = await import('node:fs/promises');
+    const { join } = await import('node:path');
+    const buildId = await readFile(
+      join(process.cwd(), '.next', 'BUILD_ID'),
+      'utf8'
+    );
+
+    return buildId.trim() || undefined;
+  } catch {
+    // Not running on Node.js or the app has not been built
+    return undefined;
+  }
+}
+
+/**
+ * Resolves the ID of the current Next.js build
+ *
+ * Uses `NEXT_BUILD_ID` or the Vercel deployment ID when set, and otherwise
+ * reads `.next/BUILD_ID`. Returns `undefined` in development.
+ */
+export async function getBuildId(): Promise<string | undefined> {
+  if (process.env.NODE_ENV === 'development') {
+    return undefined;
+  }
+
+  const fromEnv =
+    process.env.NEXT_BUILD_ID ||
+    process.env.VERCEL_DEPLOYMENT_ID ||
+    process.env.VERCEL_GIT_COMMIT_SHA;
+
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  cachedBuildId ??= readBuildIdFile();
+
+  return cachedBuildId;
+}
+
+/**
+ * Clears cached widget HTML, e.g. after a deployment swaps builds in place
+ */
+export function clearWidgetHtmlCache() {
+  htmlCache.clear();
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;');
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
+
+/**
+ * Prepares fetched page HTML for the ChatGPT sandbox
+ *
+ * - Root-relative asset URLs are made absolute to the app origin
+ * - A `<base>` tag is added when the page does not render `ChatGPTBootstrap`
+ * - The `innerBaseUrl` and `__isChatGptApp` globals are defined before any
+ *   other script runs
+ */
+export function prepareWidgetHtml(html: string, baseUrl: string): string {
+  const { origin } = new URL(baseUrl);
+
+  let result = html.replace(
+    /(<(?:script|link|img|source)\b[^>]*?\s(?:src|href|srcset)=["'])\/(?!\/)/gi,
+    `$1${origin}/`
+  );
+
+  const headTags: string[] = [];
+
+  if (!/<base\s[^>]*href=/i.test(result)) {
+    headTags.push(
+      `<base href="${escapeAttribute(withTrailingSlash(baseUrl))}">`
+    );
+  }
+
+  if (!result.includes('window.innerBaseUrl')) {
+    headTags.push(
+      `<script>window.innerBaseUrl = ${JSON.stringify(baseUrl).replace(/</g, '\\u003c')}</script>`,
+      '<script>window.__isChatGptApp = typeof window.openai !== "undefined";</script>'
+    );
+  }
+
+  if (headTags.length === 0) {
+    return result;
+  }
+
+  if (/<head[^>]*>/i.test(result)) {
+    result = result.replace(/<head[^>]*>/i, match => match + headTags.join(''));
+  } else {
+    result = headTags.join('') + result;
+  }
+
+  return result;
+}
+
+function resolveLocale({
+  locale,
+  locales,
+}: WidgetHtmlOptions): string | undefined {
+  if (locale === undefined) {
+    return undefined;
+  }
+
+  if (!locales?.length) {
+    return normalizeLocale(locale) ?? undefined;
+  }
+
+  return matchLocale(locale, locales) ?? locales[0];
+}
+
+/**
+ * Fetches a page from the running app and prepares it as widget HTML
+ *
+ * Results are cached per build and locale so `resources/read` does not
+ * re-render the page on every request. The cache keeps the most recently
+ * used pages.
+ *
+ * @example
+ * ```ts
+ * const html = await renderWidgetHtml('/weather');
+ * ```
+ */
+export async function renderWidgetHtml(
+  route: string,
+  options: WidgetHtmlOptions = {}
+): Promise<string> {
+  const baseUrl = options.baseUrl ?? getBaseURL();
+  const buildId = options.buildId ?? (await getBuildId());
+  const shouldCache =
+    (options.cache ?? process.env.NODE_ENV !== 'development') &&
+    buildId !== undefined;
+  const url = new URL(route, baseUrl).toString();
+  const locale = resolveLocale(options);
+  const cacheKey = `${buildId}:${locale ?? ''}:${url}`;
+
+  if (shouldCache) {
+    const cached = htmlCache.get(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+  }
+
+  const fetchImpl = options.fetch ?? fetch;
+  const headers = new Headers(options.headers);
+
+  if (locale) {
+    headers.set(LOCALE_HEADER, locale);
+    headers.set('Accept-Language', locale);
+  }
+
+  const secret = getWidgetSecret(options.widgetSecret);
+  const pending = (async () => {
+    const pageUrl = new URL(url);
+
+    if (secret) {
+      pageUrl.searchParams.set(
+        WIDGET_MARKER_PARAM,
+        await signWidgetMarker(pageUrl.pathname, secret)
+      );
+    }
+
+    const response = await fetchImpl(pageUrl, {
+      headers,
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to render widget page ${route}: ${response.status} ${response.statusText}`
+      );
+    }
+
+    return prepareWidgetHtml(await response.text(), baseUrl);
+  })();
+
+  if (shouldCache) {
+    htmlCache.set(cacheKey, pending);
+    // Failed renders must not stick in the cache
+    pending.catch(() => htmlCache.delete(cacheKey));
+  }
+
+  return pending;
+}
@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import {
+  classifyRequest,
+  decodeChatGPTContext,
+  encodeChatGPTContext,
+  getWidgetRewrite,
+  signWidgetMarker,
+  WIDGET_MARKER_PARAM,
+} from './classify';
+
+const secret = 'test-secret';
+
+const classify = async (url: string, headers: Record<string, string> = {}) => {
+  const { kind, signal } = await classifyRequest(
+    new Request(url, { headers }),
+    { secret }
+  );
+
+  return `${kind};${signal}`;
+};
+
+const withMarker = (path: string, marker: string) =>
+  `https://app.test${path}?${WIDGET_MARKER_PARAM}=${encodeURIComponent(marker)}`;
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('classifyRequest', () => {
+  test('recognizes MCP calls by path and protocol headers', async () => {
+    expect(await classify('https://app.test/mcp')).toBe('mcp;mcp');
+    expect(
+      await classify('https://app.test/api', { 'mcp-session-id': 'abc' })
+    ).toBe('mcp;mcp');
+  });
+
+  test('accepts a fresh marker signed for the path', async () => {
+    const marker = await signWidgetMarker('/weather', secret);
+
+    expect(await classify(withMarker('/weather', marker))).toBe(
+      'widget;marker'
+    );
+  });
+
+  test('rejects markers for other paths, secrets or expiries', async () => {
+    const marker = await signWidgetMarker('/weather', secret);
+    const [expires, signature] = marker.split('.');
+
+    expect(await classify(withMarker('/orders', marker))).toBe(
+      'browser;default'
+    );
+    expect(
+      await classify(
+        withMarker('/weather', await signWidgetMarker('/weather', 'other'))
+      )
+    ).toBe('browser;default');
+    expect(
+      await classify(
+        withMarker('/weather', `${Number(expires) + 3600}.${signature}`)
+      )
+    ).toBe('browser;default');
+    expect(await classify(withMarker('/weather', 'not-a-marker'))).toBe(
+      'browser;default'
+    );
+  });
+
+  test('rejects a marker once it has expired', async () => {
+    const marker = await signWidgetMarker('/weather', secret, 60);
+
+    setSystemTime(Date.now() + 61_000);
+
+    expect(await classify(withMarker('/weather', marker))).toBe(
+      'browser;default'
+    );
+  });
+
+  test('falls back to the origin, referer and fetch destination', async () => {
+    const sandbox = 'https://abc123.web-sandbox.oaiusercontent.com';
+
+    expect(await classify('https://app.test/', { origin: sandbox })).toBe(
+      'widget;origin'
+    );
+    expect(
+      await classify('https://app.test/', { referer: `${sandbox}/page` })
+    ).toBe('widget;referer');
+    expect(
+      await classify('https://app.test/', { 'sec-fetch-dest': 'iframe' })
+    ).toBe('widget;sec-fetch-dest');
+    expect(
+      await classify('https://app.test/', {
+        'sec-fetch-dest': 'iframe',
+        referer: 'https://blog.example.com/',
+      })
+    ).toBe('browser;default');
+  });
+});
+
+describe('encodeChatGPTContext', () => {
+  test('round-trips through decodeChatGPTContext', () => {
+    const context = decodeChatGPTContext(
+      encodeChatGPTContext({
+        kind: 'widget',
+        signal: 'origin',
+        isWidget: true,
+        isMcp: false,
+      })
+    );
+
+    expect(context).toEqual({
+      kind: 'widget',
+      signal: 'origin',
+      isWidget: true,
+      isMcp: false,
+    });
+    expect(decodeChatGPTContext('admin;marker')).toBeNull();
+    expect(decodeChatGPTContext(null)).toBeNull();
+  });
+});
+
+describe('getWidgetRewrite', () => {
+  const page = (path: string, headers: Record<string, string> = {}) =>
+    new Request(`https://app.test${path}`, {
+      headers: { accept: 'text/html', ...headers },
+    });
+
+  test('prefixes page loads and RSC navigations', () => {
+    expect(getWidgetRewrite(page('/products/1'), '/widget')).toBe(
+      '/widget/products/1'
+    );
+    expect(getWidgetRewrite(page('/'), '/widget/')).toBe('/widget');
+    expect(
+      getWidgetRewrite(
+        new Request('https://app.test/cart', { headers: { rsc: '1' } }),
+        '/widget'
+      )
+    ).toBe('/widget/cart');
+  });
+
+  test('leaves assets, API routes and rewritten paths alone', () => {
+    expect(getWidgetRewrite(page('/_next/static/app.js'), '/widget')).toBe(
+      null
+    );
+    expect(getWidgetRewrite(page('/api/orders'), '/widget')).toBe(null);
+    expect(getWidgetRewrite(page('/logo.png'), '/widget')).toBe(null);
+    expect(getWidgetRewrite(page('/widget/cart'), '/widget')).toBe(null);
+    expect(
+      getWidgetRewrite(
+        new Request('https://app.test/cart', { method: 'POST' }),
+        '/widget'
+      )
+    ).toBe(null);
+  });
+
+  test('uses the path a rewrite function returns', () => {
+    expect(
+      getWidgetRewrite(page('/cart'), pathname =>
+        pathname === '/cart' ? '/widget-cart' : null
+      )
+    ).toBe('/widget-cart');
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Server-side detection of requests made by ChatGPT widgets
+ *
+ * The proxy classifies each request and forwards the result to routes in
+ * `CHATGPT_CONTEXT_HEADER`, so server components can render a widget layout
+ * without waiting for `window.openai` on the client.
+ */
+
+import { CHATGPT_SANDBOX_ORIGINS, isOriginAllowed } from './cors';
+import type { CorsOptions } from './cors';
+
+/**
+ * Request header carrying the classification to routes
+ */
+export const CHATGPT_CONTEXT_HEADER = 'x-chatgpt-context';
+
+/**
+ * Query parameter carrying the signed widget marker
+ */
+export const WIDGET_MARKER_PARAM = '__chatgpt_widget';
+
+/**
+ * Seconds a signed widget marker stays valid. The marker only has to
+ * outlive the widget HTML render, which fetches the page right away.
+ */
+export const WIDGET_MARKER_TTL = 300;
+
+/**
+ * - `widget`: loaded by a ChatGPT widget (the widget HTML render, or
+ *   navigations and requests from the sandboxed iframe)
+ * - `browser`: a standalone visit
+ * - `mcp`: a call to the MCP endpoint
+ */
+export type ChatGPTRequestKind = 'widget' | 'browser' | 'mcp';
+
+/**
+ * Which signal decided the classification
+ */
+export type ChatGPTRequestSignal =
+  | 'mcp'
+  | 'marker'
+  | 'origin'
+  | 'sec-fetch-dest'
+  | 'referer'
+  | 'default';
+
+export interface ChatGPTRequestContext {
+  kind: ChatGPTRequestKind;
+  signal: ChatGPTRequestSignal;
+  isWidget: boolean;
+  isMcp: boolean;
+}
+
+export interface ClassifyOptions {
+  /**
+   * Secret signing the widget marker `renderWidgetHtml` adds to the page URL
+   * (defaults to `CHATGPT_WIDGET_SECRET`). Without one, markers are ignored.
+   */
+  secret?: string;
+
+  /**
+   * Paths of the MCP endpoint (defaults to `["/mcp"]`)
+   */
+  mcpPaths?: string[];
+
+  /**
+   * Origins widgets are served from (defaults to `CHATGPT_SANDBOX_ORIGINS`)
+   */
+  origins?: CorsOptions['origin'];
+
+  /**
+   * Rewrite widget page requests: a path prefix (e.g. "/widget", serving
+   * `/products/1` from `app/widget/products/[id]`) or a function returning
+   * the path to serve, or `null` to leave the request alone
+   */
+  widgetRewrite?: string | ((pathname: string) => string | null | undefined);
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | null {
+  try {
+    return Uint8Array.from(
+      atob(value.replace(/-/g, '+').replace(/_/g, '/')),
+      char => char.charCodeAt(0)
+    );
+  } catch {
+    return null;
+  }
+}
+
+function importMarkerKey(secret: string) {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+function markerPayload(pathname: string, expires: number) {
+  return encoder.encode(`widget:${pathname}:${expires}`);
+}
+
+function getOrigin(url: string | null): string | null {
+  if (!url) {
+    return null;
+  }
+
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolves the secret that signs widget markers
+ */
+export function getWidgetSecret(secret?: string): string | undefined {
+  return secret ?? process.env.CHATGPT_WIDGET_SECRET;
+}
+
+/**
+ * Signs the widget marker for a page path
+ *
+ * The marker carries its expiry (`<expires>.<signature>`), so a leaked page
+ * URL stops classifying as a widget load after `ttl` seconds.
+ *
+ * @example
+ * ```ts
+ * url.searchParams.set(
+ *   WIDGET_MARKER_PARAM,
+ *   await signWidgetMarker(url.pathname, secret)
+ * );
+ * ```
+ */
+export async function signWidgetMarker(
+  pathname: string,
+  secret: string,
+  ttl: number = WIDGET_MARKER_TTL
+): Promise<string> {
+  const expires = Math.floor(Date.now() / 1000) + ttl;
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await importMarkerKey(secret),
+    markerPayload(pathname, expires)
+  );
+
+  return `${expires}.${toBase64Url(signature)}`;
+}
+
+async function hasValidMarker(url: URL, secret: string | undefined) {
+  const marker = url.searchParams.get(WIDGET_MARKER_PARAM);
+
+  if (!marker || !secret) {
+    return false;
+  }
+
+  const [expires = '', encoded = ''] = marker.split('.');
+  const signature = fromBase64Url(encoded);
+
+  if (
+    !/^\d+$/.test(expires) ||
+    Number(expires) < Date.now() / 1000 ||
+    !signature
+  ) {
+    return false;
+  }
+
+  // `verify` compares the signatures in constant time
+  return crypto.subtle.verify(
+    'HMAC',
+    await importMarkerKey(secret),
+    signature,
+    markerPayload(url.pathname, Number(expires))
+  );
+}
+
+/**
+ * Classifies a request as a ChatGPT widget load, a standalone browser visit
+ * or an MCP call
+ *
+ * In order: MCP paths and protocol headers, the signed widget marker, an
+ * `Origin` or `Referer` from the widget sandbox, and a `Sec-Fetch-Dest:
+ * iframe` navigation without a referer from elsewhere.
+ *
+ * @example
+ * ```ts
+ * const { kind } = await classifyRequest(request);
+ * ```
+ */
+export async function classifyRequest(
+  request: Request,
+  options: ClassifyOptions = {}
+): Promise<ChatGPTRequestContext> {
+  const url = new URL(request.url);
+  const origins = options.origins ?? CHATGPT_SANDBOX_ORIGINS;
+  const isSandbox = (origin: string | null) =>
+    origin !== null && isOriginAllowed(origin, origins, request);
+  const refererOrigin = getOrigin(request.headers.get('referer'));
+  const context = (
+    kind: ChatGPTRequestKind,
+    signal: ChatGPTRequestSignal
+  ): ChatGPTRequestContext => ({
+    kind,
+    signal,
+    isWidget: kind === 'widget',
+    isMcp: kind === 'mcp',
+  });
+
+  if (
+    (options.mcpPaths ?? ['/mcp']).includes(url.pathname) ||
+    request.headers.has('mcp-protocol-version') ||
+    request.headers.has('mcp-session-id')
+  ) {
+    return context('mcp', 'mcp');
+  }
+
+  if (await hasValidMarker(url, getWidgetSecret(options.secret))) {
+    return context('widget', 'marker');
+  }
+
+  if (isSandbox(request.headers.get('origin'))) {
+    return context('widget', 'origin');
+  }
+
+  if (isSandbox(refererOrigin)) {
+    return context('widget', 'referer');
+  }
+
+  // Sandboxed iframes may send no referer at all
+  if (request.headers.get('sec-fetch-dest') === 'iframe' && !refererOrigin) {
+    return context('widget', 'sec-fetch-dest');
+  }
+
+  return context('browser', 'default');
+}
+
+/**
+ * Encodes a classification for `CHATGPT_CONTEXT_HEADER`
+ */
+export function encodeChatGPTContext(context: ChatGPTRequestContext): string {
+  return `${context.kind};${context.signal}`;
+}
+
+/**
+ * Reads a classification from `CHATGPT_CONTEXT_HEADER`
+ */
+export function decodeChatGPTContext(
+  value: string | null
+): ChatGPTRequestContext | null {
+  const [kind, signal = 'default'] = (value ?? '').split(';');
+
+  if (kind !== 'widget' && kind !== 'browser' && kind !== 'mcp') {
+    return null;
+  }
+
+  return {
+    kind,
+    signal: signal as ChatGPTRequestSignal,
+    isWidget: kind === 'widget',
+    isMcp: kind === 'mcp',
+  };
+}
+
+/**
+ * Resolves the path a widget request is rewritten to, if any
+ *
+ * Only page loads and RSC navigations are rewritten; assets, `/_next` and
+ * `/api` requests are left alone.
+ */
+export function getWidgetRewrite(
+  request: Request,
+  rewrite: ClassifyOptions['widgetRewrite']
+): string | null {
+  const { pathname } = new URL(request.url);
+  const isPage =
+    (request.method === 'GET' || request.method === 'HEAD') &&
+    (request.headers.get('rsc') === '1' ||
+      (request.headers.get('accept') ?? '').includes('text/html'));
+
+  if (
+    !rewrite ||
+    !isPage ||
+    pathname.startsWith('/_next/') ||
+    pathname.startsWith('/api/') ||
+    /\.[a-z0-9]+$/i.test(pathname)
+  ) {
+    return null;
+  }
+
+  if (typeof rewrite === 'function') {
+    return rewrite(pathname) ?? null;
+  }
+
+  const prefix = rewrite.replace(/\/$/, '');
+
+  if (pathname === prefix || pathname.startsWith(`${prefix}/`)) {
+    return null;
+  }
+
+  return pathname === '/' ? prefix : `${prefix}${pathname}`;
+}
+
+/**
+ * Returns how the proxy classified the current request, or `null` when the
+ * proxy does not run with `classify`
+ *
+ * The proxy strips this header from incoming requests, so it can only be
+ * trusted on paths the proxy runs on.
+ *
+ * @example
+ * ```tsx
+ * // app/layout.tsx
+ * import { getChatGPTContext } from 'next-chatgpt-apps/proxy';
+ *
+ * export default async function RootLayout({ children }) {
+ *   const context = await getChatGPTContext();
+ *
+ *   return context?.isWidget ? (
+ *     <WidgetShell>{children}</WidgetShell>
+ *   ) : (
+ *     <SiteShell>{children}</SiteShell>
+ *   );
+ * }
+ * ```
+ */
+export async function getChatGPTContext(
+  headers?: Headers
+): Promise<ChatGPTRequestContext | null> {
+  const source = headers ?? (await (await import('next/headers')).headers());
+
+  return decodeChatGPTContext(source.get(CHATGPT_CONTEXT_HEADER));
+}
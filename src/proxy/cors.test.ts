@@ -0,0 +1,125 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  appendVary,
+  CHATGPT_SANDBOX_ORIGINS,
+  isOriginAllowed,
+  resolveCorsOptions,
+  setCorsHeaders,
+  setPreflightHeaders,
+} from './cors';
+
+const request = (origin: string, headers: Record<string, string> = {}) =>
+  new Request('https://app.test/api', { headers: { origin, ...headers } });
+
+describe('isOriginAllowed', () => {
+  test('matches the ChatGPT sandbox origins only', () => {
+    const allowed = (origin: string) =>
+      isOriginAllowed(origin, CHATGPT_SANDBOX_ORIGINS, request(origin));
+
+    expect(allowed('https://chatgpt.com')).toBe(true);
+    expect(allowed('https://abc123.web-sandbox.oaiusercontent.com')).toBe(true);
+    expect(allowed('https://files.oaiusercontent.com')).toBe(false);
+    expect(allowed('http://abc123.web-sandbox.oaiusercontent.com')).toBe(false);
+    expect(
+      allowed('https://abc123.web-sandbox.oaiusercontent.com.evil.test')
+    ).toBe(false);
+  });
+
+  test('supports wildcards, exact strings and predicates', () => {
+    const origin = 'https://app.example.com';
+
+    expect(isOriginAllowed(origin, '*', request(origin))).toBe(true);
+    expect(isOriginAllowed(origin, origin, request(origin))).toBe(true);
+    expect(
+      isOriginAllowed(origin, 'https://example.com', request(origin))
+    ).toBe(false);
+    expect(
+      isOriginAllowed(
+        origin,
+        [value => value.endsWith('.example.com')],
+        request(origin)
+      )
+    ).toBe(true);
+  });
+});
+
+describe('resolveCorsOptions', () => {
+  test('merges the first matching override over the defaults', () => {
+    const options = resolveCorsOptions('/api/public/data', {
+      credentials: true,
+      overrides: [
+        { path: '/api/public', origin: '*', credentials: false },
+        { path: /^\/api/, maxAge: 60 },
+      ],
+    });
+
+    expect(options.origin).toBe('*');
+    expect(options.credentials).toBe(false);
+    expect(options.maxAge).toBe(86400);
+    expect(options).not.toHaveProperty('path');
+  });
+});
+
+describe('setCorsHeaders', () => {
+  test('echoes allowed origins and varies on Origin', () => {
+    const origin = 'https://chatgpt.com';
+    const headers = setCorsHeaders(new Headers(), request(origin), {
+      origin: CHATGPT_SANDBOX_ORIGINS,
+      credentials: true,
+    });
+
+    expect(headers.get('access-control-allow-origin')).toBe(origin);
+    expect(headers.get('access-control-allow-credentials')).toBe('true');
+    expect(headers.get('vary')).toBe('Origin');
+  });
+
+  test('removes an allow-origin header set for a rejected origin', () => {
+    const headers = setCorsHeaders(
+      new Headers({ 'access-control-allow-origin': '*' }),
+      request('https://evil.test'),
+      { origin: CHATGPT_SANDBOX_ORIGINS }
+    );
+
+    expect(headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  test('sends a wildcard without credentials', () => {
+    const headers = setCorsHeaders(new Headers(), request('https://a.test'));
+
+    expect(headers.get('access-control-allow-origin')).toBe('*');
+    expect(headers.get('vary')).toBeNull();
+  });
+});
+
+describe('setPreflightHeaders', () => {
+  test('echoes the requested headers when credentials rule out "*"', () => {
+    const headers = setPreflightHeaders(
+      new Headers(),
+      request('https://chatgpt.com', {
+        'access-control-request-headers': 'x-custom',
+      }),
+      { origin: '*', allowedHeaders: '*', credentials: true, maxAge: 600 }
+    );
+
+    expect(headers.get('access-control-allow-headers')).toBe('x-custom');
+    expect(headers.get('access-control-allow-origin')).toBe(
+      'https://chatgpt.com'
+    );
+    expect(headers.get('access-control-max-age')).toBe('600');
+    expect(headers.get('vary')).toBe('Origin, Access-Control-Request-Headers');
+  });
+});
+
+describe('appendVary', () => {
+  test('adds values once, case-insensitively, and leaves "*" alone', () => {
+    const headers = new Headers({ vary: 'accept-encoding, origin' });
+
+    appendVary(headers, 'Origin', 'Referer');
+    expect(headers.get('vary')).toBe('accept-encoding, origin, Referer');
+
+    const wildcard = new Headers({ vary: '*' });
+
+    appendVary(wildcard, 'Origin');
+    expect(wildcard.get('vary')).toBe('*');
+  });
+});
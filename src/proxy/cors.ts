@@ -0,0 +1,315 @@
+/**
+ * CORS policy for ChatGPT iframe requests
+ */
+
+export type CorsOriginMatcher =
+  | string
+  | RegExp
+  | ((origin: string, request: Request) => boolean);
+
+export interface CorsOptions {
+  /**
+   * Allowed origins: `'*'`, exact origins, patterns or a predicate
+   * (defaults to `CHATGPT_SANDBOX_ORIGINS`)
+   */
+  origin?: '*' | CorsOriginMatcher | CorsOriginMatcher[];
+
+  /**
+   * Whether to allow cookies and `Authorization` headers
+   */
+  credentials?: boolean;
+
+  /**
+   * Request headers allowed in preflight requests (defaults to
+   * `CORS_ALLOWED_HEADERS`). `'*'` allows whatever the browser asks for.
+   */
+  allowedHeaders?: '*' | string[];
+
+  /**
+   * Response headers readable by the widget (defaults to
+   * `CORS_EXPOSED_HEADERS`, which Server Actions need)
+   */
+  exposedHeaders?: string[];
+
+  /**
+   * Allowed request methods
+   */
+  methods?: string[];
+
+  /**
+   * How long browsers may cache a preflight response, in seconds
+   */
+  maxAge?: number;
+
+  /**
+   * Per-path policies, merged over the base policy. String paths match by
+   * prefix; the first matching override wins.
+   */
+  overrides?: Array<CorsOptions & { path: string | RegExp }>;
+}
+
+export const CORS_ALLOWED_METHODS = [
+  'GET',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+  'OPTIONS',
+];
+
+/**
+ * Origins ChatGPT serves widget iframes from
+ *
+ * Only the widget sandbox subdomains match: other `oaiusercontent.com`
+ * hosts serve user uploads and other content.
+ */
+export const CHATGPT_SANDBOX_ORIGINS: CorsOriginMatcher[] = [
+  'https://chatgpt.com',
+  'https://chat.openai.com',
+  /^https:\/\/[a-z0-9-]+\.web-sandbox\.oaiusercontent\.com$/,
+];
+
+/**
+ * Hosts of `CHATGPT_SANDBOX_ORIGINS`, in the wildcard format of Next.js
+ * `serverActions.allowedOrigins`
+ *
+ * Every ChatGPT app's widgets run on a `web-sandbox` subdomain, so this
+ * also admits other apps' widgets. Pass `sandboxHosts` to `withChatGPT` to
+ * allow only your app's own sandbox.
+ */
+export const CHATGPT_SANDBOX_HOSTS = [
+  'chatgpt.com',
+  'chat.openai.com',
+  '*.web-sandbox.oaiusercontent.com',
+];
+
+/**
+ * Request headers the Next.js router sends with RSC navigations, prefetches
+ * and Server Actions
+ */
+export const NEXT_REQUEST_HEADERS = [
+  'RSC',
+  'Next-Action',
+  'Next-Router-State-Tree',
+  'Next-Router-Prefetch',
+  'Next-Router-Segment-Prefetch',
+  'Next-Url',
+  'Next-HMR-Refresh',
+  'X-Deployment-Id',
+  'X-NextJS-Request-Id',
+  'X-NextJS-HTML-Request-Id',
+];
+
+/**
+ * Response headers the Next.js router reads, e.g. the redirect and
+ * `revalidatePath` results of a Server Action
+ */
+export const NEXT_RESPONSE_HEADERS = [
+  'Vary',
+  'X-Action-Redirect',
+  'X-Action-Revalidated',
+  'X-NextJS-Action-Not-Found',
+  'X-NextJS-Postponed',
+  'X-NextJS-Prerender',
+  'X-NextJS-Rewritten-Path',
+  'X-NextJS-Rewritten-Query',
+  'X-NextJS-Stale-Time',
+];
+
+/**
+ * Request headers a widget needs: Next.js router headers, MCP headers and
+ * `Authorization`
+ */
+export const CORS_ALLOWED_HEADERS = [
+  'Accept',
+  'Authorization',
+  'Content-Type',
+  'Last-Event-ID',
+  'Mcp-Protocol-Version',
+  'Mcp-Session-Id',
+  ...NEXT_REQUEST_HEADERS,
+];
+
+/**
+ * Response headers a widget needs to read
+ */
+export const CORS_EXPOSED_HEADERS = [
+  'Mcp-Session-Id',
+  'WWW-Authenticate',
+  ...NEXT_RESPONSE_HEADERS,
+];
+
+/**
+ * Allows every origin, header and method (the zero-config behaviour of
+ * `chatGPTProxy`)
+ */
+export const PERMISSIVE_CORS: CorsOptions = {
+  origin: '*',
+  allowedHeaders: '*',
+  exposedHeaders: CORS_EXPOSED_HEADERS,
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  maxAge: 86400, // 24 hours
+};
+
+const DEFAULT_CORS: CorsOptions = {
+  origin: CHATGPT_SANDBOX_ORIGINS,
+  allowedHeaders: CORS_ALLOWED_HEADERS,
+  exposedHeaders: CORS_EXPOSED_HEADERS,
+  methods: CORS_ALLOWED_METHODS,
+  maxAge: 86400,
+};
+
+/**
+ * Resolves the policy that applies to a request path
+ */
+export function resolveCorsOptions(
+  pathname: string,
+  options: CorsOptions = PERMISSIVE_CORS
+): CorsOptions {
+  const base =
+    options === PERMISSIVE_CORS ? options : { ...DEFAULT_CORS, ...options };
+  const override = options.overrides?.find(({ path }) =>
+    typeof path === 'string' ? pathname.startsWith(path) : path.test(pathname)
+  );
+
+  if (!override) {
+    return base;
+  }
+
+  const { path: _path, ...overrideOptions } = override;
+
+  return { ...base, ...overrideOptions };
+}
+
+/**
+ * Checks an `Origin` header against an allowlist
+ */
+export function isOriginAllowed(
+  origin: string,
+  allowed: CorsOptions['origin'],
+  request: Request
+): boolean {
+  if (allowed === '*') {
+    return true;
+  }
+
+  const matchers = Array.isArray(allowed) ? allowed : [allowed];
+
+  return matchers.some(matcher => {
+    if (typeof matcher === 'string') {
+      return matcher === origin;
+    }
+
+    if (matcher instanceof RegExp) {
+      return matcher.test(origin);
+    }
+
+    return typeof matcher === 'function' && matcher(origin, request);
+  });
+}
+
+/**
+ * Appends values to the `Vary` header without duplicating them
+ */
+export function appendVary(headers: Headers, ...values: string[]) {
+  const current = (headers.get('Vary') ?? '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean);
+
+  if (current.includes('*')) return;
+
+  values.forEach(value => {
+    if (
+      !current.some(existing => existing.toLowerCase() === value.toLowerCase())
+    ) {
+      current.push(value);
+    }
+  });
+
+  headers.set('Vary', current.join(', '));
+}
+
+/**
+ * Adds the CORS headers for a request to an existing header set
+ */
+export function setCorsHeaders(
+  headers: Headers,
+  request?: Request,
+  options: CorsOptions = PERMISSIVE_CORS
+): Headers {
+  const requestOrigin = request?.headers.get('origin');
+  const allowed = options.origin ?? '*';
+
+  if (allowed === '*' && !options.credentials) {
+    headers.set('Access-Control-Allow-Origin', '*');
+  } else {
+    // The response depends on the request origin, so caches must key on it
+    appendVary(headers, 'Origin');
+
+    if (
+      requestOrigin &&
+      request &&
+      isOriginAllowed(requestOrigin, allowed, request)
+    ) {
+      headers.set('Access-Control-Allow-Origin', requestOrigin);
+    } else {
+      headers.delete('Access-Control-Allow-Origin');
+    }
+  }
+
+  if (options.credentials) {
+    headers.set('Access-Control-Allow-Credentials', 'true');
+  }
+
+  if (options.methods?.length) {
+    headers.set('Access-Control-Allow-Methods', options.methods.join(','));
+  }
+
+  if (options.allowedHeaders === '*' && !options.credentials) {
+    headers.set('Access-Control-Allow-Headers', '*');
+  } else if (Array.isArray(options.allowedHeaders)) {
+    headers.set(
+      'Access-Control-Allow-Headers',
+      options.allowedHeaders.join(',')
+    );
+  }
+
+  if (options.exposedHeaders?.length) {
+    headers.set(
+      'Access-Control-Expose-Headers',
+      options.exposedHeaders.join(',')
+    );
+  }
+
+  return headers;
+}
+
+/**
+ * Adds the CORS headers needed to answer an OPTIONS preflight request
+ */
+export function setPreflightHeaders(
+  headers: Headers,
+  request?: Request,
+  options: CorsOptions = PERMISSIVE_CORS
+): Headers {
+  setCorsHeaders(headers, request, options);
+
+  // Browsers ignore a wildcard when credentials are allowed, so echo the
+  // requested headers instead
+  if (options.allowedHeaders === '*' && options.credentials) {
+    const requested = request?.headers.get('access-control-request-headers');
+
+    appendVary(headers, 'Access-Control-Request-Headers');
+
+    if (requested) {
+      headers.set('Access-Control-Allow-Headers', requested);
+    }
+  }
+
+  if (options.maxAge !== undefined) {
+    headers.set('Access-Control-Max-Age', String(options.maxAge));
+  }
+
+  return headers;
+}
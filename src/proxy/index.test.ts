@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'bun:test';
+import { NextRequest } from 'next/server';
+import { createProtectedResource } from '../auth';
+import { createChatGPTProxy } from './index';
+
+const auth = createProtectedResource({
+  resource: 'https://app.test',
+  authorizationServers: ['https://auth.test'],
+  jwks: { keys: [] },
+  protectedPaths: ['/api/orders'],
+});
+
+describe('createChatGPTProxy with auth', () => {
+  const proxy = createChatGPTProxy({ auth });
+  const request = (path: string, authorization: string) =>
+    new NextRequest(`https://app.test${path}`, {
+      headers: { authorization },
+    });
+
+  test('ignores bad tokens outside protected paths', async () => {
+    const response = await proxy(
+      request('/_next/static/app.js', 'Bearer !!!!')
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-middleware-next')).toBe('1');
+  });
+
+  test('challenges bad tokens on protected paths', async () => {
+    const response = await proxy(request('/api/orders', 'Bearer a.b.!!!!'));
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toContain(
+      'error="invalid_token"'
+    );
+  });
+});
+
+describe('createChatGPTProxy CORS for Next.js router requests', () => {
+  const sandbox = 'https://abc123.web-sandbox.oaiusercontent.com';
+  const proxy = createChatGPTProxy({ cors: { credentials: true } });
+
+  test('answers the preflight of a Server Action from the sandbox', async () => {
+    const response = await proxy(
+      new NextRequest('https://app.test/checkout', {
+        method: 'OPTIONS',
+        headers: {
+          origin: sandbox,
+          'access-control-request-method': 'POST',
+          'access-control-request-headers':
+            'next-action,next-router-state-tree,content-type',
+        },
+      })
+    );
+    const allowedHeaders = response.headers
+      .get('access-control-allow-headers')
+      ?.toLowerCase()
+      .split(',');
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-origin')).toBe(sandbox);
+    expect(response.headers.get('access-control-allow-credentials')).toBe(
+      'true'
+    );
+    expect(allowedHeaders).toEqual(
+      expect.arrayContaining([
+        'next-action',
+        'next-router-state-tree',
+        'next-router-prefetch',
+        'rsc',
+        'content-type',
+      ])
+    );
+  });
+
+  test('exposes the Server Action redirect and revalidation headers', async () => {
+    const response = await proxy(
+      new NextRequest('https://app.test/checkout', {
+        method: 'POST',
+        headers: { origin: sandbox, 'next-action': 'abc' },
+      })
+    );
+    const exposedHeaders = response.headers
+      .get('access-control-expose-headers')
+      ?.split(',');
+
+    expect(response.headers.get('access-control-allow-origin')).toBe(sandbox);
+    expect(exposedHeaders).toEqual(
+      expect.arrayContaining(['X-Action-Redirect', 'X-Action-Revalidated'])
+    );
+  });
+
+  test('does not allow other oaiusercontent.com hosts', async () => {
+    const response = await proxy(
+      new NextRequest('https://app.test/checkout', {
+        method: 'OPTIONS',
+        headers: { origin: 'https://files.oaiusercontent.com' },
+      })
+    );
+
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+  });
+});
@@ -4,8 +4,191 @@
  * Next.js 16+ uses "proxy" convention for network boundary operations
  */
 
-import type { NextRequest } from 'next/server';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AUTH_CLAIMS_HEADER,
+  AuthError,
+  encodeAuthClaims,
+  PROTECTED_RESOURCE_METADATA_PATH,
+  type AuthInfo,
+  type ProtectedResource,
+} from '../auth';
+import {
+  createSimulatorHandler,
+  DEFAULT_SIMULATOR_PATH,
+  isSimulatorRequest,
+  type SimulatorOptions,
+} from '../simulator';
+import {
+  buildContentSecurityPolicy,
+  getCspReportUri,
+  isCspReportOnly,
+  parseCspReport,
+  type ContentSecurityPolicyOptions,
+} from '../utils/csp';
+import { getRequestLocale, LOCALE_HEADER } from '../utils/locale';
+import {
+  CHATGPT_CONTEXT_HEADER,
+  classifyRequest,
+  encodeChatGPTContext,
+  getWidgetRewrite,
+  type ClassifyOptions,
+} from './classify';
+import {
+  appendVary,
+  resolveCorsOptions,
+  setCorsHeaders,
+  setPreflightHeaders,
+  type CorsOptions,
+} from './cors';
+
+export {
+  CHATGPT_SANDBOX_HOSTS,
+  CHATGPT_SANDBOX_ORIGINS,
+  CORS_ALLOWED_HEADERS,
+  CORS_EXPOSED_HEADERS,
+  NEXT_REQUEST_HEADERS,
+  NEXT_RESPONSE_HEADERS,
+  PERMISSIVE_CORS,
+  isOriginAllowed,
+  setCorsHeaders,
+  setPreflightHeaders,
+} from './cors';
+export type { CorsOptions, CorsOriginMatcher } from './cors';
+export {
+  CHATGPT_CONTEXT_HEADER,
+  classifyRequest,
+  getChatGPTContext,
+  signWidgetMarker,
+  WIDGET_MARKER_PARAM,
+  WIDGET_MARKER_TTL,
+} from './classify';
+export type {
+  ChatGPTRequestContext,
+  ChatGPTRequestKind,
+  ChatGPTRequestSignal,
+  ClassifyOptions,
+} from './classify';
+export {
+  buildContentSecurityPolicy,
+  CSP_REPORT_PATH,
+  resolveWidgetCsp,
+} from '../utils/csp';
+export type {
+  ContentSecurityPolicyOptions,
+  WidgetCspOptions,
+} from '../utils/csp';
+export { getRequestLocale, LOCALE_HEADER } from '../utils/locale';
+
+export interface ChatGPTProxyContext {
+  /**
+   * The validated bearer token on `auth.protectedPaths`, `null` elsewhere
+   */
+  auth: AuthInfo | null;
+
+  /**
+   * Continues to the route, forwarding the validated claims to it
+   */
+  next: (init?: ResponseInit) => NextResponse;
+}
+
+export type ChatGPTProxyHandler = (
+  request: NextRequest,
+  context: ChatGPTProxyContext
+) => NextResponse | Promise<NextResponse>;
+
+export interface ChatGPTProxyOptions {
+  /**
+   * Custom proxy logic, run for every non-preflight request
+   */
+  handler?: ChatGPTProxyHandler;
+
+  /**
+   * CORS policy. When omitted every origin is allowed, like `chatGPTProxy`;
+   * when set, origins default to `CHATGPT_SANDBOX_ORIGINS`.
+   */
+  cors?: CorsOptions;
+
+  /**
+   * Serve the ChatGPT host simulator at `/__chatgpt-sim` during development
+   */
+  simulator?: boolean | SimulatorOptions;
+
+  /**
+   * OAuth protected resource: serves its metadata document, rejects
+   * requests to its `protectedPaths` without a valid bearer token and
+   * forwards validated claims to routes (see `getAuthClaims`)
+   */
+  auth?: ProtectedResource;
+
+  /**
+   * Send a Content-Security-Policy allowing the same domains as the widgets'
+   * `openai/widgetCSP` metadata. Report-only in development, where
+   * violations are logged to the server console.
+   */
+  csp?: boolean | ContentSecurityPolicyOptions;
+
+  /**
+   * Forward the user's locale to routes in `LOCALE_HEADER`, resolved from
+   * that header or `Accept-Language`, so server components can render with
+   * `getRequestLocale(await headers())`
+   */
+  locale?: boolean | { defaultLocale?: string };
+
+  /**
+   * Classify requests as ChatGPT widget loads, browser visits or MCP calls
+   * and forward the result in `CHATGPT_CONTEXT_HEADER` (see
+   * `getChatGPTContext`). `widgetRewrite` serves widget pages from another
+   * route.
+   */
+  classify?: boolean | ClassifyOptions;
+}
+
+function toNextResponse(response: Response) {
+  return new NextResponse(response.body, {
+    status: response.status,
+    headers: response.headers,
+  });
+}
+
+async function logCspViolations(request: NextRequest) {
+  try {
+    parseCspReport(await request.json()).forEach(violation => {
+      // eslint-disable-next-line no-console
+      console.warn(
+        `[next-chatgpt-apps] CSP ${violation.disposition === 'enforce' ? 'blocked' : 'would block'} ${violation.blockedUrl ?? 'a request'} (${violation.directive ?? 'unknown directive'}) on ${violation.documentUrl ?? 'a page'}`
+      );
+    });
+  } catch {
+    // Malformed reports are ignored
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
+
+/**
+ * Copies request header overrides onto a response that continues to the
+ * route, unless the handler already set its own
+ */
+function forwardRequestHeaders(response: NextResponse, headers: Headers) {
+  const continues =
+    response.headers.has('x-middleware-next') ||
+    response.headers.has('x-middleware-rewrite');
+
+  if (!continues || response.headers.has('x-middleware-override-headers')) {
+    return;
+  }
+
+  NextResponse.next({ request: { headers } }).headers.forEach((value, key) => {
+    if (key.startsWith('x-middleware-request-')) {
+      response.headers.set(key, value);
+    }
+  });
+  response.headers.set(
+    'x-middleware-override-headers',
+    Array.from(headers.keys()).join(',')
+  );
+}
 
 /**
  * Proxy to handle CORS for ChatGPT iframe requests
@@ -31,13 +214,7 @@ export function chatGPTProxy(request: NextRequest) {
   if (request.method === 'OPTIONS') {
     const response = new NextResponse(null, { status: 204 });
 
-    response.headers.set('Access-Control-Allow-Origin', '*');
-    response.headers.set(
-      'Access-Control-Allow-Methods',
-      'GET,POST,PUT,DELETE,OPTIONS'
-    );
-    response.headers.set('Access-Control-Allow-Headers', '*');
-    response.headers.set('Access-Control-Max-Age', '86400'); // 24 hours
+    setPreflightHeaders(response.headers, request);
 
     return response;
   }
@@ -45,12 +222,7 @@ export function chatGPTProxy(request: NextRequest) {
   // Add CORS headers to all responses
   const response = NextResponse.next();
 
-  response.headers.set('Access-Control-Allow-Origin', '*');
-  response.headers.set(
-    'Access-Control-Allow-Methods',
-    'GET,POST,PUT,DELETE,OPTIONS'
-  );
-  response.headers.set('Access-Control-Allow-Headers', '*');
+  setCorsHeaders(response.headers, request);
 
   return response;
 }
@@ -68,38 +240,227 @@ export function chatGPTProxy(request: NextRequest) {
  *   return NextResponse.next();
  * });
  * ```
+ *
+ * @example
+ * ```ts
+ * // Require a bearer token on /api/orders and read the claims in routes
+ * export const proxy = createChatGPTProxy({
+ *   auth,
+ *   handler: (request, { auth, next }) => {
+ *     if (auth && !auth.scopes.includes('orders:write')) {
+ *       return NextResponse.json({ error: 'forbidden' }, { status: 403 });
+ *     }
+ *     return next();
+ *   },
+ * });
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Restrict CORS to the ChatGPT sandbox and your own origin
+ * export const proxy = createChatGPTProxy({
+ *   cors: {
+ *     origin: [...CHATGPT_SANDBOX_ORIGINS, 'https://app.example.com'],
+ *     credentials: true,
+ *     exposedHeaders: ['X-Request-Id'],
+ *     overrides: [{ path: '/api/public', origin: '*', credentials: false }],
+ *   },
+ *   // Serve the host simulator at /__chatgpt-sim during `next dev`
+ *   simulator: true,
+ *   // Surface requests the ChatGPT sandbox would block
+ *   csp: { connectDomains: ['https://api.example.com'] },
+ *   // Forward the user's locale to server components
+ *   locale: true,
+ *   // Tell server components whether ChatGPT is rendering the page
+ *   classify: { widgetRewrite: '/widget' },
+ * });
+ * ```
  */
 export function createChatGPTProxy(
-  customHandler?: (request: NextRequest) => NextResponse | Promise<NextResponse>
+  handlerOrOptions?: ChatGPTProxyHandler | ChatGPTProxyOptions,
+  extraOptions: ChatGPTProxyOptions = {}
 ) {
+  const options =
+    typeof handlerOrOptions === 'function'
+      ? { ...extraOptions, handler: handlerOrOptions }
+      : { ...extraOptions, ...handlerOrOptions };
+  const { auth, handler: customHandler } = options;
+  const simulatorOptions =
+    typeof options.simulator === 'object' ? options.simulator : {};
+  const simulator =
+    options.simulator && process.env.NODE_ENV === 'development'
+      ? createSimulatorHandler(simulatorOptions)
+      : null;
+  const defaultLocale =
+    typeof options.locale === 'object'
+      ? options.locale.defaultLocale
+      : undefined;
+  const classifyOptions =
+    typeof options.classify === 'object' ? options.classify : {};
+  const cspOptions = typeof options.csp === 'object' ? options.csp : {};
+  const csp = options.csp
+    ? {
+        header: isCspReportOnly(cspOptions)
+          ? 'Content-Security-Policy-Report-Only'
+          : 'Content-Security-Policy',
+        value: buildContentSecurityPolicy(cspOptions),
+        reportPath: getCspReportUri(cspOptions),
+      }
+    : null;
+
+  async function handleAuthenticated(
+    request: NextRequest,
+    resource: ProtectedResource
+  ): Promise<NextResponse> {
+    const { pathname } = request.nextUrl;
+
+    if (
+      pathname === PROTECTED_RESOURCE_METADATA_PATH ||
+      pathname === resource.metadataPath
+    ) {
+      return toNextResponse(resource.metadataResponse());
+    }
+
+    let authInfo: AuthInfo | null = null;
+
+    // Tokens are only checked where one is required, so a bad
+    // `Authorization` header never affects public pages and assets
+    if (resource.isProtectedPath(pathname)) {
+      try {
+        authInfo = await resource.authenticate(request);
+      } catch (error) {
+        if (!(error instanceof AuthError)) {
+          throw error;
+        }
+
+        return toNextResponse(resource.challenge(error));
+      }
+
+      if (!authInfo) {
+        return toNextResponse(resource.challenge());
+      }
+    }
+
+    // Never trust claims sent by the client
+    const headers = new Headers(request.headers);
+
+    headers.delete(AUTH_CLAIMS_HEADER);
+
+    if (authInfo) {
+      headers.set(AUTH_CLAIMS_HEADER, encodeAuthClaims(authInfo.claims));
+    }
+
+    const next = (init?: ResponseInit) =>
+      NextResponse.next({ ...init, request: { headers } });
+
+    if (!customHandler) {
+      return next();
+    }
+
+    const response = await customHandler(
+      new NextRequest(request, { headers }),
+      { auth: authInfo, next }
+    );
+
+    forwardRequestHeaders(response, headers);
+
+    return response;
+  }
+
+  async function handleRequest(
+    request: NextRequest,
+    headers: Headers | null
+  ): Promise<NextResponse> {
+    const next = (init?: ResponseInit) =>
+      headers
+        ? NextResponse.next({ ...init, request: { headers } })
+        : NextResponse.next(init);
+
+    if (!customHandler) {
+      return next();
+    }
+
+    const response = await customHandler(request, { auth: null, next });
+
+    if (headers) {
+      forwardRequestHeaders(response, headers);
+    }
+
+    return response;
+  }
+
   return async function proxy(request: NextRequest) {
+    if (
+      simulator &&
+      isSimulatorRequest(
+        request,
+        simulatorOptions.basePath ?? DEFAULT_SIMULATOR_PATH
+      )
+    ) {
+      return simulator(request);
+    }
+
+    const { pathname } = request.nextUrl;
+    const cors = resolveCorsOptions(pathname, options.cors);
+
     // Handle OPTIONS preflight requests first
     if (request.method === 'OPTIONS') {
       const response = new NextResponse(null, { status: 204 });
 
-      response.headers.set('Access-Control-Allow-Origin', '*');
-      response.headers.set(
-        'Access-Control-Allow-Methods',
-        'GET,POST,PUT,DELETE,OPTIONS'
-      );
-      response.headers.set('Access-Control-Allow-Headers', '*');
-      response.headers.set('Access-Control-Max-Age', '86400');
+      setPreflightHeaders(response.headers, request, cors);
 
       return response;
     }
 
-    // Run custom handler if provided
-    const response = customHandler
-      ? await customHandler(request)
-      : NextResponse.next();
+    if (csp && request.method === 'POST' && pathname === csp.reportPath) {
+      return logCspViolations(request);
+    }
+
+    let headers: Headers | null = null;
+    let rewrite: string | null = null;
+
+    if (options.locale) {
+      headers ??= new Headers(request.headers);
+      headers.set(LOCALE_HEADER, getRequestLocale(request, defaultLocale));
+    }
+
+    if (options.classify) {
+      const context = await classifyRequest(request, classifyOptions);
+
+      // Never trust a classification sent by the client
+      headers ??= new Headers(request.headers);
+      headers.set(CHATGPT_CONTEXT_HEADER, encodeChatGPTContext(context));
+
+      if (context.isWidget) {
+        rewrite = getWidgetRewrite(request, classifyOptions.widgetRewrite);
+      }
+    }
+
+    const forwarded = headers ? new NextRequest(request, { headers }) : request;
+    const response = auth
+      ? await handleAuthenticated(forwarded, auth)
+      : await handleRequest(forwarded, headers);
+
+    // Serve widget pages from their own route, unless the handler already
+    // answered or rewrote the request
+    if (rewrite && response.headers.has('x-middleware-next')) {
+      const target = request.nextUrl.clone();
+
+      target.pathname = rewrite;
+      response.headers.delete('x-middleware-next');
+      response.headers.set('x-middleware-rewrite', target.toString());
+    }
+
+    if (options.classify && classifyOptions.widgetRewrite) {
+      appendVary(response.headers, 'Origin', 'Referer', 'Sec-Fetch-Dest');
+    }
 
     // Add CORS headers to the response
-    response.headers.set('Access-Control-Allow-Origin', '*');
-    response.headers.set(
-      'Access-Control-Allow-Methods',
-      'GET,POST,PUT,DELETE,OPTIONS'
-    );
-    response.headers.set('Access-Control-Allow-Headers', '*');
+    setCorsHeaders(response.headers, request, cors);
+
+    if (csp && !response.headers.has(csp.header)) {
+      response.headers.set(csp.header, csp.value);
+    }
 
     return response;
   };
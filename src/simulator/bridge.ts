@@ -0,0 +1,110 @@
+/**
+ * Fake `window.openai` injected into the simulated widget frame
+ *
+ * The function is serialized into the frame document, so it must not
+ * reference anything outside its own body.
+ */
+
+import type { OpenAIAPI, SetGlobalsEventDetail } from '../types/chatgpt';
+
+export type SimulatorGlobals = Required<SetGlobalsEventDetail['globals']>;
+
+export const SIMULATOR_MESSAGE_SOURCE = 'chatgpt-sim';
+
+export function installOpenAIBridge(
+  initialGlobals: SimulatorGlobals,
+  messageSource: string
+) {
+  const host = window.parent;
+  const pending = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (reason: Error) => void }
+  >();
+
+  let nextId = 1;
+
+  const call = <T>(method: string, args: unknown) =>
+    new Promise<T>((resolve, reject) => {
+      const id = nextId++;
+
+      pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      host.postMessage(
+        { source: messageSource, type: 'call', id, method, args },
+        '*'
+      );
+    });
+
+  // Once the widget reports its own height, stop measuring the document
+  let reportsIntrinsicHeight = false;
+
+  const postHeight = (height: number) => {
+    host.postMessage({ source: messageSource, type: 'height', height }, '*');
+  };
+
+  const openai: OpenAIAPI = Object.assign({}, initialGlobals, {
+    callTool: (name: string, args: Record<string, unknown>) =>
+      call<Awaited<ReturnType<OpenAIAPI['callTool']>>>('callTool', {
+        name,
+        args,
+      }),
+    sendFollowUpMessage: (args: { prompt: string }) =>
+      call<void>('sendFollowUpMessage', args),
+    openExternal: (args: { href: string }) => {
+      call<void>('openExternal', args);
+    },
+    requestDisplayMode: (args: { mode: OpenAIAPI['displayMode'] }) =>
+      call<{ mode: OpenAIAPI['displayMode'] }>('requestDisplayMode', args),
+    setWidgetState: (state: Record<string, unknown>) => {
+      openai.widgetState = state;
+
+      return call<void>('setWidgetState', state);
+    },
+    notifyIntrinsicHeight: (height: number) => {
+      reportsIntrinsicHeight = true;
+      postHeight(height);
+    },
+  });
+
+  window.openai = openai;
+
+  window.addEventListener('message', event => {
+    const message = event.data;
+
+    if (event.source !== host || message?.source !== messageSource) return;
+
+    if (message.type === 'result') {
+      const request = pending.get(message.id);
+
+      if (!request) return;
+
+      pending.delete(message.id);
+
+      if (message.error) {
+        request.reject(new Error(message.error));
+      } else {
+        request.resolve(message.result);
+      }
+    }
+
+    if (message.type === 'set_globals') {
+      Object.assign(openai, message.globals);
+      window.dispatchEvent(
+        new CustomEvent('openai:set_globals', {
+          detail: { globals: message.globals },
+        })
+      );
+    }
+  });
+
+  // Report the document height so the host can size the frame
+  const reportHeight = () => {
+    if (!reportsIntrinsicHeight) {
+      postHeight(document.documentElement.scrollHeight);
+    }
+  };
+
+  window.addEventListener('load', () => {
+    reportHeight();
+    new ResizeObserver(reportHeight).observe(document.documentElement);
+  });
+}
@@ -0,0 +1,461 @@
+/**
+ * Host page of the ChatGPT simulator
+ *
+ * Renders the controls, the widget frame and the call log. `runSimulatorHost`
+ * is serialized into the page, so it must not reference anything outside its
+ * own body.
+ */
+
+import type {
+  CallToolResponse,
+  DeviceType,
+  DisplayMode,
+} from '../types/chatgpt';
+import type { SimulatorGlobals } from './bridge';
+
+export interface SimulatorHostConfig {
+  /**
+   * URL of the frame document that loads the widget
+   */
+  frameUrl: string;
+
+  /**
+   * App route loaded when the simulator opens
+   */
+  path: string;
+
+  globals: SimulatorGlobals;
+
+  /**
+   * Canned `callTool` results keyed by tool name
+   */
+  toolResponses: Record<string, CallToolResponse>;
+
+  /**
+   * MCP endpoint that `callTool` falls back to when no canned result exists
+   */
+  mcpUrl?: string;
+
+  messageSource: string;
+}
+
+export function runSimulatorHost(config: SimulatorHostConfig) {
+  const byId = <T extends HTMLElement>(id: string) =>
+    document.getElementById(id) as T;
+
+  const globals: SimulatorGlobals = { ...config.globals };
+  const frame = byId<HTMLIFrameElement>('sim-frame');
+  const stage = byId<HTMLDivElement>('sim-stage');
+  const log = byId<HTMLOListElement>('sim-log');
+  const pathInput = byId<HTMLInputElement>('sim-path');
+  const themeSelect = byId<HTMLSelectElement>('sim-theme');
+  const localeInput = byId<HTMLInputElement>('sim-locale');
+  const displayModeSelect = byId<HTMLSelectElement>('sim-display-mode');
+  const deviceSelect = byId<HTMLSelectElement>('sim-device');
+  const hoverInput = byId<HTMLInputElement>('sim-hover');
+  const touchInput = byId<HTMLInputElement>('sim-touch');
+  const maxHeightInput = byId<HTMLInputElement>('sim-max-height');
+  const insetInputs = {
+    top: byId<HTMLInputElement>('sim-inset-top'),
+    bottom: byId<HTMLInputElement>('sim-inset-bottom'),
+    left: byId<HTMLInputElement>('sim-inset-left'),
+    right: byId<HTMLInputElement>('sim-inset-right'),
+  };
+  const jsonFields = {
+    toolInput: byId<HTMLTextAreaElement>('sim-tool-input'),
+    toolOutput: byId<HTMLTextAreaElement>('sim-tool-output'),
+    toolResponseMetadata: byId<HTMLTextAreaElement>('sim-tool-metadata'),
+    widgetState: byId<HTMLTextAreaElement>('sim-widget-state'),
+  };
+  const toolResponsesField = byId<HTMLTextAreaElement>('sim-tool-responses');
+
+  let { toolResponses } = config;
+  let contentHeight = 0;
+
+  const stringify = (value: unknown) => JSON.stringify(value, null, 2);
+
+  const appendLog = (kind: string, title: string, detail?: unknown) => {
+    const entry = document.createElement('li');
+    const heading = document.createElement('strong');
+    const time = document.createElement('time');
+
+    entry.className = `sim-log-${kind}`;
+    heading.textContent = title;
+    time.textContent = new Date().toLocaleTimeString();
+    entry.append(time, ' ', heading);
+
+    if (detail !== undefined) {
+      const body = document.createElement('pre');
+
+      body.textContent = stringify(detail);
+      entry.append(body);
+    }
+
+    log.prepend(entry);
+  };
+
+  const post = (message: Record<string, unknown>) => {
+    frame.contentWindow?.postMessage(
+      { source: config.messageSource, ...message },
+      '*'
+    );
+  };
+
+  const layout = () => {
+    stage.dataset.device = globals.userAgent.device.type;
+    stage.dataset.mode = globals.displayMode;
+    document.body.dataset.theme = globals.theme;
+
+    if (globals.displayMode === 'inline') {
+      // Inline widgets grow with their content up to maxHeight
+      const height = Math.min(
+        contentHeight || globals.maxHeight,
+        globals.maxHeight
+      );
+
+      frame.style.height = `${height}px`;
+    } else {
+      frame.style.height = '';
+    }
+  };
+
+  const syncControls = () => {
+    themeSelect.value = globals.theme;
+    localeInput.value = globals.locale;
+    displayModeSelect.value = globals.displayMode;
+    deviceSelect.value = globals.userAgent.device.type;
+    hoverInput.checked = globals.userAgent.capabilities.hover;
+    touchInput.checked = globals.userAgent.capabilities.touch;
+    maxHeightInput.value = String(globals.maxHeight);
+    insetInputs.top.value = String(globals.safeArea.insets.top);
+    insetInputs.bottom.value = String(globals.safeArea.insets.bottom);
+    insetInputs.left.value = String(globals.safeArea.insets.left);
+    insetInputs.right.value = String(globals.safeArea.insets.right);
+    jsonFields.toolInput.value = stringify(globals.toolInput);
+    jsonFields.toolOutput.value = stringify(globals.toolOutput);
+    jsonFields.toolResponseMetadata.value = stringify(
+      globals.toolResponseMetadata
+    );
+    jsonFields.widgetState.value = stringify(globals.widgetState);
+    toolResponsesField.value = stringify(toolResponses);
+  };
+
+  const setGlobals = (changes: Partial<SimulatorGlobals>) => {
+    Object.assign(globals, changes);
+    post({ type: 'set_globals', globals: changes });
+    appendLog('globals', 'openai:set_globals', changes);
+    syncControls();
+    layout();
+  };
+
+  const loadFrame = () => {
+    const url = new URL(config.frameUrl, window.location.href);
+
+    url.searchParams.set('path', pathInput.value || '/');
+    url.searchParams.set('globals', JSON.stringify(globals));
+    contentHeight = 0;
+    frame.src = url.toString();
+    appendLog('navigation', `Load ${pathInput.value || '/'}`);
+  };
+
+  const callMcpTool = async (name: string, args: unknown) => {
+    const response = await fetch(config.mcpUrl as string, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: Date.now(),
+        method: 'tools/call',
+        params: { name, arguments: args },
+      }),
+    });
+    const payload = await response.json();
+
+    if (payload.error) {
+      throw new Error(payload.error.message);
+    }
+
+    return payload.result as CallToolResponse;
+  };
+
+  const handleCall = async (
+    method: string,
+    args: Record<string, unknown>
+  ): Promise<unknown> => {
+    switch (method) {
+      case 'callTool': {
+        const name = String(args.name);
+        const canned = toolResponses[name];
+
+        if (canned) {
+          return canned;
+        }
+
+        if (config.mcpUrl) {
+          return callMcpTool(name, args.args);
+        }
+
+        return {
+          content: [
+            { type: 'text', text: `No simulated response for tool "${name}"` },
+          ],
+          isError: true,
+        };
+      }
+
+      case 'sendFollowUpMessage':
+      case 'openExternal':
+        return undefined;
+
+      case 'requestDisplayMode': {
+        const requested = args.mode as DisplayMode;
+        // Mobile hosts have no room for picture-in-picture
+        const granted =
+          requested === 'pip' && globals.userAgent.device.type === 'mobile'
+            ? 'fullscreen'
+            : requested;
+
+        if (granted !== globals.displayMode) {
+          setGlobals({ displayMode: granted });
+        }
+
+        return { mode: granted };
+      }
+
+      case 'setWidgetState':
+        globals.widgetState = args;
+        jsonFields.widgetState.value = stringify(args);
+
+        return undefined;
+
+      default:
+        throw new Error(`Unknown method "${method}"`);
+    }
+  };
+
+  window.addEventListener('message', async event => {
+    const message = event.data;
+
+    if (
+      event.source !== frame.contentWindow ||
+      message?.source !== config.messageSource
+    ) {
+      return;
+    }
+
+    if (message.type === 'height') {
+      contentHeight = message.height;
+      layout();
+
+      return;
+    }
+
+    if (message.type !== 'call') return;
+
+    const startedAt = performance.now();
+
+    try {
+      const result = await handleCall(message.method, message.args ?? {});
+      const duration = Math.round(performance.now() - startedAt);
+
+      appendLog('call', `${message.method} (${duration}ms)`, {
+        args: message.args,
+        result,
+      });
+      post({ type: 'result', id: message.id, result });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      appendLog('error', `${message.method} failed`, {
+        args: message.args,
+        error: errorMessage,
+      });
+      post({ type: 'result', id: message.id, error: errorMessage });
+    }
+  });
+
+  themeSelect.addEventListener('change', () =>
+    setGlobals({ theme: themeSelect.value as SimulatorGlobals['theme'] })
+  );
+  localeInput.addEventListener('change', () =>
+    setGlobals({ locale: localeInput.value })
+  );
+  displayModeSelect.addEventListener('change', () =>
+    setGlobals({ displayMode: displayModeSelect.value as DisplayMode })
+  );
+  maxHeightInput.addEventListener('change', () =>
+    setGlobals({ maxHeight: Number(maxHeightInput.value) || 0 })
+  );
+
+  const updateUserAgent = () =>
+    setGlobals({
+      userAgent: {
+        device: { type: deviceSelect.value as DeviceType },
+        capabilities: {
+          hover: hoverInput.checked,
+          touch: touchInput.checked,
+        },
+      },
+    });
+
+  [deviceSelect, hoverInput, touchInput].forEach(input =>
+    input.addEventListener('change', updateUserAgent)
+  );
+
+  Object.values(insetInputs).forEach(input =>
+    input.addEventListener('change', () =>
+      setGlobals({
+        safeArea: {
+          insets: {
+            top: Number(insetInputs.top.value) || 0,
+            bottom: Number(insetInputs.bottom.value) || 0,
+            left: Number(insetInputs.left.value) || 0,
+            right: Number(insetInputs.right.value) || 0,
+          },
+        },
+      })
+    )
+  );
+
+  byId('sim-apply-json').addEventListener('click', () => {
+    try {
+      const changes: Partial<SimulatorGlobals> = {};
+
+      (Object.keys(jsonFields) as Array<keyof typeof jsonFields>).forEach(
+        key => {
+          const value = JSON.parse(jsonFields[key].value || 'null');
+
+          if (JSON.stringify(value) !== JSON.stringify(globals[key])) {
+            Object.assign(changes, { [key]: value });
+          }
+        }
+      );
+      toolResponses = JSON.parse(toolResponsesField.value || '{}');
+
+      if (Object.keys(changes).length > 0) {
+        setGlobals(changes);
+      }
+    } catch (error) {
+      appendLog('error', 'Invalid JSON', String(error));
+    }
+  });
+
+  byId('sim-exit-fullscreen').addEventListener('click', () =>
+    setGlobals({ displayMode: 'inline' })
+  );
+  byId('sim-clear-log').addEventListener('click', () => {
+    log.textContent = '';
+  });
+  byId('sim-navigate').addEventListener('submit', event => {
+    event.preventDefault();
+    loadFrame();
+  });
+
+  pathInput.value = config.path;
+  syncControls();
+  layout();
+  loadFrame();
+}
+
+const STYLES = `
+* { box-sizing: border-box; }
+body { margin: 0; font: 13px/1.4 system-ui, sans-serif; display: grid; grid-template-columns: 300px 1fr 360px; height: 100vh; color: #0d0d0d; background: #f4f4f4; }
+body[data-theme="dark"] { color: #ececec; background: #212121; }
+aside, section { overflow: auto; padding: 12px; }
+aside { border-right: 1px solid #8884; }
+section { border-left: 1px solid #8884; }
+h2 { font-size: 12px; text-transform: uppercase; opacity: .6; margin: 16px 0 8px; }
+label { display: block; margin-bottom: 8px; }
+input, select, textarea { width: 100%; font: inherit; }
+input[type="checkbox"] { width: auto; }
+textarea { font-family: ui-monospace, monospace; font-size: 12px; min-height: 72px; }
+.sim-insets { display: grid; grid-template-columns: repeat(4, 1fr); gap: 4px; }
+main { display: flex; flex-direction: column; overflow: auto; }
+#sim-navigate { display: flex; gap: 4px; padding: 12px; }
+#sim-stage { flex: 1; padding: 24px; display: flex; justify-content: center; align-items: flex-start; }
+#sim-window { width: 100%; max-width: 768px; border: 1px solid #8886; border-radius: 16px; overflow: hidden; background: #fff; }
+body[data-theme="dark"] #sim-window { background: #2f2f2f; }
+#sim-stage[data-device="mobile"] #sim-window { max-width: 390px; }
+#sim-stage[data-device="tablet"] #sim-window { max-width: 600px; }
+#sim-stage[data-mode="pip"] #sim-window { position: fixed; top: 16px; right: 376px; width: 360px; height: 400px; box-shadow: 0 8px 32px #0006; }
+#sim-stage[data-mode="fullscreen"] #sim-window { position: fixed; inset: 0; max-width: none; border-radius: 0; z-index: 10; }
+#sim-frame { display: block; width: 100%; border: 0; }
+#sim-stage[data-mode="pip"] #sim-frame, #sim-stage[data-mode="fullscreen"] #sim-frame { height: 100%; }
+#sim-exit-fullscreen { display: none; position: fixed; top: 8px; left: 8px; z-index: 11; }
+#sim-stage[data-mode="fullscreen"] #sim-exit-fullscreen { display: block; }
+#sim-log { list-style: none; margin: 0; padding: 0; }
+#sim-log li { border-bottom: 1px solid #8884; padding: 6px 0; }
+#sim-log pre { margin: 4px 0 0; white-space: pre-wrap; word-break: break-all; font-size: 11px; }
+#sim-log time { opacity: .6; }
+.sim-log-error strong { color: #e02e2a; }
+.sim-log-globals strong { color: #0285ff; }
+`;
+
+function select(id: string, options: string[]) {
+  return `<select id="${id}">${options
+    .map(option => `<option value="${option}">${option}</option>`)
+    .join('')}</select>`;
+}
+
+/**
+ * Renders the simulator host document
+ */
+export function renderSimulatorHostPage(config: SimulatorHostConfig): string {
+  const serializedConfig = JSON.stringify(config).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>ChatGPT Simulator</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<aside>
+  <h2>Environment</h2>
+  <label>Theme ${select('sim-theme', ['light', 'dark'])}</label>
+  <label>Locale <input id="sim-locale"></label>
+  <label>Display mode ${select('sim-display-mode', ['inline', 'pip', 'fullscreen'])}</label>
+  <label>Device ${select('sim-device', ['desktop', 'tablet', 'mobile', 'unknown'])}</label>
+  <label><input type="checkbox" id="sim-hover"> Hover</label>
+  <label><input type="checkbox" id="sim-touch"> Touch</label>
+  <label>Max height <input type="number" id="sim-max-height" min="0"></label>
+  <label>Safe area insets (top, bottom, left, right)</label>
+  <div class="sim-insets">
+    <input type="number" id="sim-inset-top" min="0">
+    <input type="number" id="sim-inset-bottom" min="0">
+    <input type="number" id="sim-inset-left" min="0">
+    <input type="number" id="sim-inset-right" min="0">
+  </div>
+  <h2>Tool data</h2>
+  <label>toolInput <textarea id="sim-tool-input"></textarea></label>
+  <label>toolOutput <textarea id="sim-tool-output"></textarea></label>
+  <label>toolResponseMetadata <textarea id="sim-tool-metadata"></textarea></label>
+  <label>widgetState <textarea id="sim-widget-state"></textarea></label>
+  <label>callTool responses (by tool name) <textarea id="sim-tool-responses"></textarea></label>
+  <button type="button" id="sim-apply-json">Apply JSON</button>
+</aside>
+<main>
+  <form id="sim-navigate">
+    <input id="sim-path" placeholder="/">
+    <button type="submit">Load</button>
+  </form>
+  <div id="sim-stage">
+    <button type="button" id="sim-exit-fullscreen">Exit fullscreen</button>
+    <div id="sim-window">
+      <iframe id="sim-frame" title="Widget" sandbox="allow-scripts allow-same-origin allow-forms allow-popups allow-popups-to-escape-sandbox"></iframe>
+    </div>
+  </div>
+</main>
+<section>
+  <h2>Log <button type="button" id="sim-clear-log">Clear</button></h2>
+  <ol id="sim-log"></ol>
+</section>
+<script>(${runSimulatorHost.toString()})(${serializedConfig});</script>
+</body>
+</html>`;
+}
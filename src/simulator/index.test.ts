@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, mock, test } from 'bun:test';
+import { createSimulatorHandler } from './index';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe('createSimulatorHandler', () => {
+  const handler = createSimulatorHandler({ baseUrl: 'https://app.test' });
+  const frame = (path: string) =>
+    handler(
+      new Request(
+        `https://app.test/__chatgpt-sim/frame?path=${encodeURIComponent(path)}`
+      )
+    );
+
+  test('loads app routes with the bridge installed', async () => {
+    const fetchMock = mock(
+      async (_url: URL | RequestInfo, _init?: RequestInit) =>
+        new Response('<html><head></head><body>Weather</body></html>')
+    );
+
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const response = await frame('/weather?city=Paris');
+
+    expect(String(fetchMock.mock.calls[0]![0])).toBe(
+      'https://app.test/weather?city=Paris'
+    );
+    expect(await response.text()).toContain('window.openai');
+  });
+
+  test('refuses paths that resolve to other origins', async () => {
+    const fetchMock = mock(async () => new Response(''));
+
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const responses = await Promise.all(
+      [
+        'https://evil.test/',
+        '//evil.test/',
+        '/\\evil.test/',
+        '/\\/evil.test/',
+      ].map(frame)
+    );
+
+    expect(responses.map(({ status }) => status)).toEqual([400, 400, 400, 400]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
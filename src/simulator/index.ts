@@ -0,0 +1,226 @@
+/**
+ * Local ChatGPT host simulator
+ *
+ * Loads the app inside a cross-origin frame with a fake `window.openai`, so
+ * widget behaviour can be tested against `next dev` without a ChatGPT
+ * connector.
+ */
+
+import { prepareWidgetHtml } from '../mcp/widget-html';
+import type { CallToolResponse } from '../types/chatgpt';
+import { getBaseURL } from '../utils/base-url';
+import {
+  installOpenAIBridge,
+  SIMULATOR_MESSAGE_SOURCE,
+  type SimulatorGlobals,
+} from './bridge';
+import { renderSimulatorHostPage } from './host';
+
+export type { SimulatorGlobals } from './bridge';
+export { renderSimulatorHostPage } from './host';
+export type { SimulatorHostConfig } from './host';
+
+export const DEFAULT_SIMULATOR_PATH = '/__chatgpt-sim';
+
+export const DEFAULT_SIMULATOR_GLOBALS: SimulatorGlobals = {
+  theme: 'light',
+  locale: 'en-US',
+  displayMode: 'inline',
+  maxHeight: 500,
+  userAgent: {
+    device: { type: 'desktop' },
+    capabilities: { hover: true, touch: false },
+  },
+  safeArea: { insets: { top: 0, bottom: 0, left: 0, right: 0 } },
+  toolInput: {},
+  toolOutput: null,
+  toolResponseMetadata: null,
+  widgetState: null,
+};
+
+export interface SimulatorOptions {
+  /**
+   * Path the simulator is served from (defaults to "/__chatgpt-sim")
+   */
+  basePath?: string;
+
+  /**
+   * App route loaded when the simulator opens (defaults to "/")
+   */
+  initialPath?: string;
+
+  /**
+   * Origin of the app (defaults to `getBaseURL()`)
+   */
+  baseUrl?: string;
+
+  /**
+   * Origin the widget frame is served from. Defaults to swapping
+   * `localhost` and `127.0.0.1` so the frame is cross-origin to the app,
+   * like the ChatGPT sandbox.
+   */
+  frameOrigin?: string;
+
+  /**
+   * Initial values of the `window.openai` globals
+   */
+  globals?: Partial<SimulatorGlobals>;
+
+  /**
+   * Canned `callTool` results keyed by tool name
+   */
+  toolResponses?: Record<string, CallToolResponse>;
+
+  /**
+   * MCP endpoint path that `callTool` is forwarded to when no canned result
+   * exists (e.g. "/mcp")
+   */
+  mcpPath?: string;
+
+  /**
+   * Serve the simulator outside development (defaults to `false`)
+   */
+  allowInProduction?: boolean;
+}
+
+function getFrameOrigin(requestUrl: URL, frameOrigin?: string): string {
+  if (frameOrigin) {
+    return frameOrigin;
+  }
+
+  const url = new URL(requestUrl.origin);
+
+  if (url.hostname === 'localhost') {
+    url.hostname = '127.0.0.1';
+  } else if (url.hostname === '127.0.0.1') {
+    url.hostname = 'localhost';
+  }
+
+  return url.origin;
+}
+
+function parseGlobals(
+  value: string | null,
+  defaults: SimulatorGlobals
+): SimulatorGlobals {
+  if (!value) {
+    return defaults;
+  }
+
+  try {
+    return { ...defaults, ...JSON.parse(value) };
+  } catch {
+    return defaults;
+  }
+}
+
+function html(body: string, status = 200) {
+  return new Response(body, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+/**
+ * Checks whether a request targets the simulator
+ */
+export function isSimulatorRequest(
+  request: Request,
+  basePath = DEFAULT_SIMULATOR_PATH
+): boolean {
+  const { pathname } = new URL(request.url);
+
+  return pathname === basePath || pathname.startsWith(`${basePath}/`);
+}
+
+/**
+ * Creates a request handler that serves the ChatGPT simulator
+ *
+ * The host page offers controls for theme, locale, display mode, device type,
+ * safe area and tool data, and logs every call the widget makes to
+ * `window.openai`. The handler answers 404 outside development unless
+ * `allowInProduction` is set.
+ *
+ * @example
+ * ```ts
+ * // proxy.ts — serves the simulator at /__chatgpt-sim during `next dev`
+ * import { createChatGPTProxy } from 'next-chatgpt-apps/proxy';
+ *
+ * export const proxy = createChatGPTProxy({
+ *   simulator: { initialPath: '/weather', mcpPath: '/mcp' },
+ * });
+ * ```
+ *
+ * @example
+ * ```ts
+ * // app/chatgpt-sim/[[...slug]]/route.ts
+ * import { createSimulatorHandler } from 'next-chatgpt-apps/simulator';
+ *
+ * export const GET = createSimulatorHandler({ basePath: '/chatgpt-sim' });
+ * ```
+ */
+export function createSimulatorHandler(options: SimulatorOptions = {}) {
+  const basePath = options.basePath ?? DEFAULT_SIMULATOR_PATH;
+  const defaults = { ...DEFAULT_SIMULATOR_GLOBALS, ...options.globals };
+
+  return async function simulatorHandler(request: Request): Promise<Response> {
+    if (process.env.NODE_ENV === 'production' && !options.allowInProduction) {
+      return new Response('Not Found', { status: 404 });
+    }
+
+    const url = new URL(request.url);
+    const baseUrl = options.baseUrl ?? getBaseURL();
+
+    if (url.pathname === basePath) {
+      const frameOrigin = getFrameOrigin(url, options.frameOrigin);
+
+      return html(
+        renderSimulatorHostPage({
+          frameUrl: `${frameOrigin}${basePath}/frame`,
+          path: url.searchParams.get('path') ?? options.initialPath ?? '/',
+          globals: defaults,
+          toolResponses: options.toolResponses ?? {},
+          mcpUrl: options.mcpPath
+            ? new URL(options.mcpPath, baseUrl).toString()
+            : undefined,
+          messageSource: SIMULATOR_MESSAGE_SOURCE,
+        })
+      );
+    }
+
+    if (url.pathname === `${basePath}/frame`) {
+      const path = url.searchParams.get('path') ?? '/';
+      const pageUrl = new URL(path, baseUrl);
+
+      // Only app routes may be loaded, never other origins. Checked on the
+      // resolved URL, since paths like `/\host` resolve to another origin.
+      if (!path.startsWith('/') || pageUrl.origin !== new URL(baseUrl).origin) {
+        return html('Invalid path', 400);
+      }
+
+      const response = await fetch(pageUrl, { cache: 'no-store' });
+      const globals = parseGlobals(url.searchParams.get('globals'), defaults);
+      const bridge = `<script>(${installOpenAIBridge.toString()})(${JSON.stringify(
+        globals
+      ).replace(/</g, '\\u003c')}, ${JSON.stringify(
+        SIMULATOR_MESSAGE_SOURCE
+      )});</script>`;
+      const page = prepareWidgetHtml(await response.text(), baseUrl);
+
+      // The bridge must run before the page's own scripts look for window.openai
+      return html(
+        /<head[^>]*>/i.test(page)
+          ? page.replace(/<head[^>]*>/i, match => match + bridge)
+          : bridge + page,
+        response.status
+      );
+    }
+
+    return new Response('Not Found', { status: 404 });
+  };
+}
+
+export default createSimulatorHandler;
@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+import { setupDom } from '../test-utils/render';
+import { createMockOpenAI, installMockOpenAI, setGlobals } from '../testing';
+import {
+  configureTelemetry,
+  createMemorySink,
+  trackEvent,
+  trackTiming,
+  type TelemetrySink,
+} from './index';
+
+setupDom();
+
+let dispose: (() => void) | undefined;
+
+afterEach(() => {
+  dispose?.();
+  dispose = undefined;
+});
+
+describe('trackEvent', () => {
+  test('drops events until telemetry is configured and after disposal', () => {
+    const memory = createMemorySink();
+
+    trackEvent('open_external', { host: 'before.test' });
+    dispose = configureTelemetry({ sinks: [memory], sessionId: 'session-1' });
+    trackEvent('open_external', { host: 'during.test' });
+    dispose();
+    trackEvent('open_external', { host: 'after.test' });
+
+    expect(memory.events).toEqual([
+      {
+        type: 'open_external',
+        host: 'during.test',
+        sessionId: 'session-1',
+        timestamp: expect.any(Number),
+        sampleRate: 1,
+      },
+    ]);
+  });
+
+  test('keeps emitting to other sinks when one throws', () => {
+    const memory = createMemorySink();
+    const failing: TelemetrySink = {
+      emit: () => {
+        throw new Error('offline');
+      },
+    };
+
+    dispose = configureTelemetry({ sinks: [failing, memory] });
+
+    expect(() =>
+      trackEvent('open_external', { host: 'example.com' })
+    ).not.toThrow();
+    expect(memory.events).toHaveLength(1);
+  });
+});
+
+describe('sampling', () => {
+  const isSampled = (sessionId: string, sampleRate: number) => {
+    const memory = createMemorySink();
+    const stop = configureTelemetry({ sinks: [memory], sessionId, sampleRate });
+
+    trackEvent('open_external', { host: 'example.com' });
+    stop();
+
+    return memory.events.length === 1;
+  };
+
+  test('decides once per session, for about the requested share', () => {
+    const sessions = Array.from({ length: 400 }, (_, i) => `session-${i}`);
+    const sampled = sessions.filter(id => isSampled(id, 0.25));
+
+    expect(sampled.length).toBeGreaterThan(60);
+    expect(sampled.length).toBeLessThan(140);
+    // Reloads of the same session make the same decision
+    expect(sessions.filter(id => isSampled(id, 0.25))).toEqual(sampled);
+    expect(sessions.some(id => isSampled(id, 0))).toBe(false);
+  });
+
+  test('thins out event types and reports the combined rate', () => {
+    const memory = createMemorySink();
+    const random = spyOn(Math, 'random');
+
+    dispose = configureTelemetry({
+      sinks: [memory],
+      eventSampleRates: { globals_change: 0.25 },
+    });
+
+    random.mockReturnValue(0.5);
+    trackEvent('globals_change', { keys: ['theme'] });
+    random.mockReturnValue(0.1);
+    trackEvent('globals_change', { keys: ['locale'] });
+    random.mockRestore();
+
+    expect(memory.events).toEqual([
+      expect.objectContaining({ keys: ['locale'], sampleRate: 0.25 }),
+    ]);
+  });
+});
+
+describe('trackTiming', () => {
+  test('records the duration and error, resolving like the operation', async () => {
+    const memory = createMemorySink();
+
+    dispose = configureTelemetry({ sinks: [memory] });
+
+    expect(
+      await trackTiming(
+        'follow_up_message',
+        () => 'sent',
+        ({ error }, durationMs) => ({ length: 4, durationMs, error })
+      )
+    ).toBe('sent');
+    await expect(
+      trackTiming(
+        'follow_up_message',
+        () => Promise.reject(new Error('Not in ChatGPT')),
+        ({ error }, durationMs) => ({ length: 4, durationMs, error })
+      )
+    ).rejects.toThrow('Not in ChatGPT');
+
+    expect(memory.events).toEqual([
+      expect.objectContaining({ durationMs: expect.any(Number) }),
+      expect.objectContaining({ error: 'Not in ChatGPT' }),
+    ]);
+    expect(memory.events[0]).not.toHaveProperty('error', expect.anything());
+  });
+});
+
+describe('configureTelemetry', () => {
+  test('records globals and display mode changes from set_globals', () => {
+    const memory = createMemorySink();
+    const uninstall = installMockOpenAI(createMockOpenAI());
+
+    dispose = configureTelemetry({ sinks: [memory] });
+
+    setGlobals({ theme: 'dark', displayMode: 'fullscreen' });
+    setGlobals({ displayMode: 'fullscreen' });
+    uninstall();
+
+    expect(memory.events.map(event => event.type)).toEqual([
+      'globals_change',
+      'display_mode_change',
+      'globals_change',
+    ]);
+    expect(memory.events[1]).toMatchObject({
+      from: 'inline',
+      to: 'fullscreen',
+    });
+  });
+
+  test('flushes and closes the sinks it replaces', async () => {
+    const calls: string[] = [];
+    const sink: TelemetrySink = {
+      emit: () => undefined,
+      flush: () => {
+        calls.push('flush');
+      },
+      close: () => {
+        calls.push('close');
+      },
+    };
+
+    configureTelemetry({ sinks: [sink] });
+    dispose = configureTelemetry({ sinks: [] });
+    await Bun.sleep(0);
+
+    expect(calls).toEqual(['flush', 'close']);
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Instrumentation of widget interactions
+ *
+ * The hooks report tool calls, follow-up messages, display mode requests and
+ * widget state writes, and `configureTelemetry` listens to the
+ * `openai:set_globals` stream. Events are dropped until telemetry is
+ * configured, so instrumented hooks cost nothing in apps that don't use it.
+ */
+
+import {
+  SET_GLOBALS_EVENT_TYPE,
+  type DisplayMode,
+  type SetGlobalsEvent,
+} from '../types/chatgpt';
+
+export { createConsoleSink, createHttpSink, createMemorySink } from './sinks';
+export type {
+  ConsoleSinkOptions,
+  HttpSinkOptions,
+  MemorySink,
+  MemorySinkOptions,
+} from './sinks';
+
+/**
+ * Data of each event type. Augment this interface to type custom events
+ * passed to `trackEvent`.
+ *
+ * @example
+ * ```ts
+ * declare module 'next-chatgpt-apps/telemetry' {
+ *   interface TelemetryEventMap {
+ *     checkout_started: { items: number };
+ *   }
+ * }
+ * ```
+ */
+export interface TelemetryEventMap {
+  /** A tool called from the widget; one event per attempt */
+  tool_call: {
+    tool: string;
+    durationMs: number;
+    attempt: number;
+    error?: string;
+  };
+  follow_up_message: { length: number; durationMs: number; error?: string };
+  /** Only the host of the link is recorded */
+  open_external: { host: string };
+  display_mode_request: {
+    requested: DisplayMode;
+    granted: DisplayMode | null;
+    durationMs: number;
+    error?: string;
+  };
+  /** The host changed the display mode, whoever asked for it */
+  display_mode_change: { from: DisplayMode | null; to: DisplayMode };
+  widget_state_write: { bytes: number; durationMs: number; error?: string };
+  /** Globals the host pushed in an `openai:set_globals` event */
+  globals_change: { keys: string[] };
+}
+
+export type TelemetryEventType = keyof TelemetryEventMap;
+
+/**
+ * An event as sinks receive it
+ */
+export type TelemetryEvent<K extends TelemetryEventType = TelemetryEventType> =
+  {
+    [T in K]: {
+      type: T;
+      /** Identifies the widget session, shared by reloads of the iframe */
+      sessionId: string;
+      timestamp: number;
+      /** Probability the event was kept, to weight sampled counts */
+      sampleRate: number;
+    } & TelemetryEventMap[T];
+  }[K];
+
+export interface TelemetrySink {
+  name?: string;
+  emit: (event: TelemetryEvent) => void;
+  /** Sends buffered events */
+  flush?: () => void | Promise<void>;
+  /** Releases timers and listeners when telemetry is reconfigured */
+  close?: () => void;
+}
+
+export interface TelemetryOptions {
+  sinks: TelemetrySink[];
+
+  /**
+   * Share of widget sessions to record, from 0 to 1 (defaults to 1). The
+   * decision is made once per session, so sampled sessions are complete.
+   */
+  sampleRate?: number;
+
+  /**
+   * Share of events to keep per type within a recorded session, e.g. to thin
+   * out `globals_change`
+   */
+  eventSampleRates?: Partial<Record<TelemetryEventType, number>>;
+
+  /**
+   * Widget session id (defaults to a random id kept in `sessionStorage`)
+   */
+  sessionId?: string;
+
+  /**
+   * Record `globals_change` and `display_mode_change` from the
+   * `openai:set_globals` stream (defaults to `true`)
+   */
+  globals?: boolean;
+}
+
+interface TelemetryState {
+  sinks: TelemetrySink[];
+  sessionId: string;
+  sampleRate: number;
+  sampled: boolean;
+  eventSampleRates: Partial<Record<TelemetryEventType, number>>;
+}
+
+const SESSION_STORAGE_KEY = 'next-chatgpt-apps:telemetry-session';
+
+let state: TelemetryState | null = null;
+let fallbackSessionId: string | undefined;
+let teardown: (() => void) | null = null;
+
+function randomId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+// Maps the session id to [0, 1), so every reload makes the same decision
+function sessionBucket(sessionId: string): number {
+  let hash = 2166136261;
+
+  for (let i = 0; i < sessionId.length; i++) {
+    hash = Math.imul(hash ^ sessionId.charCodeAt(i), 16777619);
+  }
+
+  // FNV-1a leaves the high bits of similar ids close; mix them before
+  // scaling, so buckets are uniform
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  hash ^= hash >>> 16;
+
+  return (hash >>> 0) / 2 ** 32;
+}
+
+function clampRate(rate: number | undefined): number {
+  return Math.min(1, Math.max(0, rate ?? 1));
+}
+
+/**
+ * Returns the id of the current widget session
+ *
+ * The id lives in `sessionStorage`, which ChatGPT keeps while the widget's
+ * iframe is reloaded. Where storage is blocked it lasts for the page.
+ */
+export function getTelemetrySessionId(): string {
+  if (state) {
+    return state.sessionId;
+  }
+
+  try {
+    const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+
+    if (stored) {
+      return stored;
+    }
+
+    const id = randomId();
+
+    sessionStorage.setItem(SESSION_STORAGE_KEY, id);
+
+    return id;
+  } catch {
+    fallbackSessionId ??= randomId();
+
+    return fallbackSessionId;
+  }
+}
+
+/**
+ * Records an event, if telemetry is configured and the event is sampled
+ *
+ * Sink errors are swallowed: telemetry never breaks the widget.
+ *
+ * @example
+ * ```ts
+ * trackEvent('checkout_started', { items: cart.length });
+ * ```
+ */
+export function trackEvent<K extends TelemetryEventType>(
+  type: K,
+  data: TelemetryEventMap[K]
+): void {
+  if (!state?.sampled) return;
+
+  const eventRate = clampRate(state.eventSampleRates[type]);
+
+  if (eventRate < 1 && Math.random() >= eventRate) return;
+
+  const event = {
+    ...data,
+    type,
+    sessionId: state.sessionId,
+    timestamp: Date.now(),
+    sampleRate: state.sampleRate * eventRate,
+  } as TelemetryEvent;
+
+  state.sinks.forEach(sink => {
+    try {
+      sink.emit(event);
+    } catch {
+      // Ignore failing sinks
+    }
+  });
+}
+
+/**
+ * Awaits an operation and records it with its duration and error, if any.
+ * Resolves or rejects like the operation.
+ */
+export async function trackTiming<K extends TelemetryEventType, T>(
+  type: K,
+  operation: () => T | Promise<T>,
+  data: (
+    result: { value?: T; error?: string },
+    durationMs: number
+  ) => TelemetryEventMap[K]
+): Promise<T> {
+  const start = performance.now();
+  const elapsed = () => Math.round(performance.now() - start);
+
+  try {
+    const value = await operation();
+
+    trackEvent(type, data({ value }, elapsed()));
+
+    return value;
+  } catch (error) {
+    trackEvent(
+      type,
+      data(
+        { error: error instanceof Error ? error.message : String(error) },
+        elapsed()
+      )
+    );
+
+    throw error;
+  }
+}
+
+async function flushSinks(sinks: TelemetrySink[]) {
+  await Promise.all(
+    sinks.map(sink =>
+      Promise.resolve()
+        .then(() => sink.flush?.())
+        .catch(() => undefined)
+    )
+  );
+}
+
+/**
+ * Sends the events sinks have buffered
+ */
+export async function flushTelemetry(): Promise<void> {
+  await flushSinks(state?.sinks ?? []);
+}
+
+function listenToGlobals(): () => void {
+  let displayMode = window.openai?.displayMode ?? null;
+
+  const handleSetGlobals = (event: SetGlobalsEvent) => {
+    const { globals } = event.detail;
+
+    trackEvent('globals_change', { keys: Object.keys(globals) });
+
+    if (globals.displayMode && globals.displayMode !== displayMode) {
+      trackEvent('display_mode_change', {
+        from: displayMode,
+        to: globals.displayMode,
+      });
+      displayMode = globals.displayMode;
+    }
+  };
+
+  window.addEventListener(SET_GLOBALS_EVENT_TYPE, handleSetGlobals, {
+    passive: true,
+  });
+
+  return () =>
+    window.removeEventListener(SET_GLOBALS_EVENT_TYPE, handleSetGlobals);
+}
+
+/**
+ * Sends widget interaction events to sinks. Replaces any previous
+ * configuration, and returns a function that flushes and turns telemetry
+ * off.
+ *
+ * @example
+ * ```tsx
+ * 'use client';
+ *
+ * import {
+ *   configureTelemetry,
+ *   createHttpSink,
+ * } from 'next-chatgpt-apps/telemetry';
+ *
+ * export function Telemetry() {
+ *   useEffect(
+ *     () =>
+ *       configureTelemetry({
+ *         sinks: [createHttpSink({ url: '/api/telemetry' })],
+ *         sampleRate: 0.25,
+ *       }),
+ *     []
+ *   );
+ *
+ *   return null;
+ * }
+ * ```
+ */
+export function configureTelemetry(options: TelemetryOptions): () => void {
+  teardown?.();
+
+  const sessionId = options.sessionId ?? getTelemetrySessionId();
+  const sampleRate = clampRate(options.sampleRate);
+  const current: TelemetryState = {
+    sinks: options.sinks,
+    sessionId,
+    sampleRate,
+    sampled: sessionBucket(sessionId) < sampleRate,
+    eventSampleRates: options.eventSampleRates ?? {},
+  };
+  const unlisten =
+    (options.globals ?? true) && typeof window !== 'undefined'
+      ? listenToGlobals()
+      : undefined;
+
+  state = current;
+
+  const dispose = () => {
+    if (teardown !== dispose) return;
+
+    teardown = null;
+    unlisten?.();
+    void flushSinks(current.sinks).then(() =>
+      current.sinks.forEach(sink => sink.close?.())
+    );
+    state = null;
+  };
+
+  teardown = dispose;
+
+  return dispose;
+}
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, mock, test } from 'bun:test';
+import type { TelemetryEvent } from './index';
+import { createHttpSink, createMemorySink } from './sinks';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+const event = (host: string): TelemetryEvent => ({
+  type: 'open_external',
+  host,
+  sessionId: 'session-1',
+  timestamp: 0,
+  sampleRate: 1,
+});
+
+function mockFetch(status = 200) {
+  const fetchMock = mock(
+    async (_url: RequestInfo | URL, _init?: RequestInit) =>
+      new Response(null, { status })
+  );
+
+  globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+  return fetchMock;
+}
+
+const sentHosts = (fetchMock: ReturnType<typeof mockFetch>) =>
+  fetchMock.mock.calls.map(([, init]) =>
+    (
+      JSON.parse(String(init?.body)) as { events: { host: string }[] }
+    ).events.map(({ host }) => host)
+  );
+
+describe('createMemorySink', () => {
+  test('keeps the latest events and notifies subscribers', () => {
+    const memory = createMemorySink({ limit: 2 });
+    const listener = mock(() => undefined);
+    const unsubscribe = memory.subscribe(listener);
+
+    memory.emit(event('a'));
+    memory.emit(event('b'));
+    memory.emit(event('c'));
+    unsubscribe();
+    memory.clear();
+
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(memory.events).toEqual([]);
+  });
+});
+
+describe('createHttpSink', () => {
+  test('posts a full batch right away', async () => {
+    const fetchMock = mockFetch();
+    const sink = createHttpSink({
+      url: '/api/telemetry',
+      batchSize: 2,
+      headers: { 'X-App': 'shop' },
+    });
+
+    sink.emit(event('a'));
+    expect(fetchMock).not.toHaveBeenCalled();
+    sink.emit(event('b'));
+    await sink.flush?.();
+
+    expect(sentHosts(fetchMock)).toEqual([['a', 'b']]);
+    expect(fetchMock.mock.calls[0]![1]).toMatchObject({
+      method: 'POST',
+      keepalive: true,
+      headers: { 'Content-Type': 'application/json', 'X-App': 'shop' },
+    });
+    sink.close?.();
+  });
+
+  test('sends partial batches after the flush interval', async () => {
+    const fetchMock = mockFetch();
+    const sink = createHttpSink({ url: '/api/telemetry', flushInterval: 10 });
+
+    sink.emit(event('a'));
+    await Bun.sleep(30);
+
+    expect(sentHosts(fetchMock)).toEqual([['a']]);
+    sink.close?.();
+  });
+
+  test('drops the oldest events beyond the queue size', async () => {
+    const fetchMock = mockFetch();
+    const sink = createHttpSink({
+      url: '/api/telemetry',
+      batchSize: 10,
+      maxQueueSize: 3,
+      flushInterval: 60_000,
+    });
+
+    ['a', 'b', 'c', 'd', 'e'].forEach(host => sink.emit(event(host)));
+    await sink.flush?.();
+
+    expect(sentHosts(fetchMock)).toEqual([['c', 'd', 'e']]);
+    sink.close?.();
+  });
+
+  test('reports failed batches to onError', async () => {
+    mockFetch(503);
+
+    const onError = mock(
+      (_error: unknown, _events: TelemetryEvent[]) => undefined
+    );
+    const sink = createHttpSink({ url: '/api/telemetry', onError });
+
+    sink.emit(event('a'));
+    await sink.flush?.();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(String(onError.mock.calls[0]![0])).toContain('503');
+    expect(onError.mock.calls[0]![1]).toEqual([event('a')]);
+    sink.close?.();
+  });
+});
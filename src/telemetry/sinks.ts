@@ -0,0 +1,228 @@
+/**
+ * Built-in telemetry sinks
+ */
+
+import type { TelemetryEvent, TelemetrySink } from './index';
+
+export interface ConsoleSinkOptions {
+  /**
+   * Logged before each event (defaults to "[next-chatgpt-apps]")
+   */
+  prefix?: string;
+}
+
+export interface MemorySinkOptions {
+  /**
+   * Events kept before the oldest are dropped (defaults to 1000)
+   */
+  limit?: number;
+}
+
+export interface MemorySink extends TelemetrySink {
+  /**
+   * Recorded events, oldest first. Replaced, not mutated, on every change.
+   */
+  readonly events: readonly TelemetryEvent[];
+  clear: () => void;
+  /**
+   * Calls `listener` whenever `events` changes; returns an unsubscribe
+   * function
+   */
+  subscribe: (listener: () => void) => () => void;
+}
+
+export interface HttpSinkOptions {
+  /**
+   * Endpoint receiving batches as `{ "events": [...] }` JSON. A relative URL
+   * is sent to the app origin by `ChatGPTBootstrap`'s fetch patch.
+   */
+  url: string;
+
+  /**
+   * Events sent per request (defaults to 20)
+   */
+  batchSize?: number;
+
+  /**
+   * Milliseconds to wait before sending a partial batch (defaults to 5000)
+   */
+  flushInterval?: number;
+
+  /**
+   * Events queued while requests fail before the oldest are dropped
+   * (defaults to 500)
+   */
+  maxQueueSize?: number;
+
+  headers?: Record<string, string>;
+
+  /**
+   * Called when a batch could not be sent; the batch is dropped
+   */
+  onError?: (error: unknown, events: TelemetryEvent[]) => void;
+}
+
+/**
+ * Logs events to the browser console, e.g. while developing
+ *
+ * @example
+ * ```ts
+ * configureTelemetry({ sinks: [createConsoleSink()] });
+ * ```
+ */
+export function createConsoleSink({
+  prefix = '[next-chatgpt-apps]',
+}: ConsoleSinkOptions = {}): TelemetrySink {
+  return {
+    name: 'console',
+    emit: event => {
+      // eslint-disable-next-line no-console
+      console.debug(prefix, event.type, event);
+    },
+  };
+}
+
+/**
+ * Keeps events in memory, for tests and in-app debugging
+ *
+ * @example
+ * ```ts
+ * const memory = createMemorySink();
+ *
+ * configureTelemetry({ sinks: [memory] });
+ * // ...
+ * expect(memory.events.map(event => event.type)).toContain('tool_call');
+ * ```
+ */
+export function createMemorySink({
+  limit = 1000,
+}: MemorySinkOptions = {}): MemorySink {
+  let events: readonly TelemetryEvent[] = [];
+  const listeners = new Set<() => void>();
+  const update = (next: readonly TelemetryEvent[]) => {
+    events = next;
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    name: 'memory',
+    get events() {
+      return events;
+    },
+    emit: event => update([...events, event].slice(-limit)),
+    clear: () => update([]),
+    subscribe: listener => {
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Sends events in batches to an endpoint of the app
+ *
+ * Batches go out when full, after `flushInterval`, and when the page is
+ * hidden or unloaded, with `keepalive` so they survive the widget closing.
+ *
+ * @example
+ * ```ts
+ * configureTelemetry({
+ *   sinks: [createHttpSink({ url: '/api/telemetry', batchSize: 50 })],
+ * });
+ * ```
+ */
+export function createHttpSink({
+  url,
+  batchSize = 20,
+  flushInterval = 5000,
+  maxQueueSize = 500,
+  headers,
+  onError,
+}: HttpSinkOptions): TelemetrySink {
+  let queue: TelemetryEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let listening = false;
+
+  const send = async (events: TelemetryEvent[]) => {
+    try {
+      // Looked up on every call, so the bootstrap fetch patch applies
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({ events }),
+        keepalive: true,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Telemetry endpoint responded with ${response.status}`);
+      }
+    } catch (error) {
+      onError?.(error, events);
+    }
+  };
+
+  const flush = async () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    const batches: TelemetryEvent[][] = [];
+
+    while (queue.length) {
+      batches.push(queue.splice(0, batchSize));
+    }
+
+    await Promise.all(batches.map(send));
+  };
+
+  const handleHidden = () => {
+    if (document.visibilityState === 'hidden') {
+      void flush();
+    }
+  };
+
+  const handlePageHide = () => void flush();
+
+  const listen = () => {
+    if (listening || typeof window === 'undefined') return;
+
+    listening = true;
+    window.addEventListener('pagehide', handlePageHide);
+    document.addEventListener('visibilitychange', handleHidden);
+  };
+
+  return {
+    name: 'http',
+    emit: event => {
+      listen();
+      queue.push(event);
+
+      if (queue.length > maxQueueSize) {
+        queue = queue.slice(-maxQueueSize);
+      }
+
+      if (queue.length >= batchSize) {
+        void flush();
+      } else {
+        timer ??= setTimeout(() => void flush(), flushInterval);
+      }
+    },
+    flush,
+    close: () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+
+      if (listening) {
+        listening = false;
+        window.removeEventListener('pagehide', handlePageHide);
+        document.removeEventListener('visibilitychange', handleHidden);
+      }
+    },
+  };
+}
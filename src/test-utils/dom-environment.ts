@@ -0,0 +1,17 @@
+/**
+ * Registers happy-dom globals on import
+ *
+ * Imported before React DOM, which checks for a DOM when it is first loaded.
+ */
+
+import { GlobalRegistrator } from '@happy-dom/global-registrator';
+
+export const DOM_URL = 'https://app.test/';
+
+export function registerDom() {
+  if (!GlobalRegistrator.isRegistered) {
+    GlobalRegistrator.register({ url: DOM_URL });
+  }
+}
+
+registerDom();
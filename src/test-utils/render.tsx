@@ -0,0 +1,110 @@
+/**
+ * Minimal React renderer for hook and component tests
+ *
+ * Test files that render call `setupDom()` at the top level; every other
+ * test file keeps running without a `window`. Import this module before
+ * the modules under test, so classes built on DOM globals (like
+ * `SetGlobalsEvent`) extend happy-dom's. Modules are shared between test
+ * files, so tests that dispatch such classes call `setupDom()` too.
+ */
+
+// Must load before React DOM
+import { registerDom } from './dom-environment';
+import { GlobalRegistrator } from '@happy-dom/global-registrator';
+import { afterAll, afterEach, beforeAll } from 'bun:test';
+import { act, type ReactNode } from 'react';
+import { createRoot, hydrateRoot, type Root } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+
+const mounted = new Set<Root>();
+
+/**
+ * Gives the tests of a file a DOM, unmounting what each test rendered
+ */
+export function setupDom() {
+  beforeAll(() => {
+    registerDom();
+    (
+      globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+    ).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  afterEach(() => {
+    act(() => mounted.forEach(root => root.unmount()));
+    mounted.clear();
+    document.body.innerHTML = '';
+  });
+
+  afterAll(async () => {
+    await GlobalRegistrator.unregister();
+  });
+}
+
+function mount(
+  container: HTMLElement,
+  createOrHydrate: (container: HTMLElement) => Root
+) {
+  document.body.append(container);
+
+  let root!: Root;
+
+  act(() => {
+    root = createOrHydrate(container);
+  });
+  mounted.add(root);
+
+  return {
+    container,
+    rerender: (next: ReactNode) => act(() => root.render(next)),
+    unmount: () => {
+      mounted.delete(root);
+      act(() => root.unmount());
+    },
+  };
+}
+
+export function render(node: ReactNode) {
+  return mount(document.createElement('div'), container => {
+    const root = createRoot(container);
+
+    root.render(node);
+
+    return root;
+  });
+}
+
+/**
+ * Hydrates the server-rendered markup of `node`, the way a widget page loads
+ */
+export function hydrate(node: ReactNode) {
+  const container = document.createElement('div');
+
+  container.innerHTML = renderToString(node);
+
+  return mount(container, element => hydrateRoot(element, node));
+}
+
+/**
+ * Renders a hook in a probe component; `result.current` holds its latest
+ * return value
+ */
+export function renderHook<T, P = undefined>(
+  hook: (props: P) => T,
+  initialProps?: P
+) {
+  const result = { current: undefined as T };
+
+  function Probe({ props }: { props: P }) {
+    result.current = hook(props);
+
+    return null;
+  }
+
+  const view = render(<Probe props={initialProps as P} />);
+
+  return {
+    result,
+    rerender: (props: P) => view.rerender(<Probe props={props} />),
+    unmount: view.unmount,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Controllable `ResizeObserver` for layout-dependent tests
+ *
+ * happy-dom does no layout, so elements measure 0 and never resize. The
+ * fake lets a test set an element's height and notify its observers.
+ */
+
+export interface FakeResizeObservers {
+  /**
+   * Number of elements currently observed
+   */
+  readonly observed: number;
+
+  /**
+   * Sets the height `element` measures and notifies its observers
+   */
+  resize(element: Element, height: number): void;
+
+  /**
+   * Restores the previous `ResizeObserver`
+   */
+  restore(): void;
+}
+
+export function installResizeObservers(): FakeResizeObservers {
+  const previous = globalThis.ResizeObserver;
+  const observers = new Map<Element, Set<ResizeObserverCallback>>();
+
+  class FakeResizeObserver {
+    private readonly elements = new Set<Element>();
+
+    constructor(private readonly callback: ResizeObserverCallback) {}
+
+    observe(element: Element) {
+      this.elements.add(element);
+      observers.set(
+        element,
+        (observers.get(element) ?? new Set()).add(this.callback)
+      );
+    }
+
+    unobserve(element: Element) {
+      this.elements.delete(element);
+      observers.get(element)?.delete(this.callback);
+    }
+
+    disconnect() {
+      this.elements.forEach(element => this.unobserve(element));
+    }
+  }
+
+  globalThis.ResizeObserver =
+    FakeResizeObserver as unknown as typeof ResizeObserver;
+
+  return {
+    get observed() {
+      return [...observers.values()].filter(callbacks => callbacks.size > 0)
+        .length;
+    },
+
+    resize(element, height) {
+      Object.defineProperty(element, 'getBoundingClientRect', {
+        configurable: true,
+        value: () => new DOMRect(0, 0, 0, height),
+      });
+      observers
+        .get(element)
+        ?.forEach(callback => callback([], {} as unknown as ResizeObserver));
+    },
+
+    restore() {
+      globalThis.ResizeObserver = previous;
+    },
+  };
+}
@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { act, useEffect } from 'react';
+// Registers the DOM before the modules under test extend its classes
+import { render, renderHook, setupDom } from '../test-utils/render';
+import { useDisplayMode, useTheme } from '../hooks';
+import { SET_GLOBALS_EVENT_TYPE } from '../types/chatgpt';
+import {
+  createMockFn,
+  createMockOpenAI,
+  createMockRouter,
+  createOpenAIWrapper,
+  installMockOpenAI,
+  setGlobals,
+} from './index';
+
+setupDom();
+
+afterEach(() => {
+  delete window.openai;
+});
+
+describe('createMockFn', () => {
+  test('records calls and swaps implementations', () => {
+    const double = createMockFn((value: number) => value * 2);
+
+    expect(double(2)).toBe(4);
+    double.mockImplementation(value => value * 3);
+    expect(double(2)).toBe(6);
+    expect(double.calls).toEqual([[2], [2]]);
+
+    double.mockClear();
+    expect(double.calls).toEqual([]);
+  });
+});
+
+describe('createMockOpenAI', () => {
+  test('simulates the host without being installed', async () => {
+    const openai = createMockOpenAI({ theme: 'dark' });
+
+    expect(await openai.requestDisplayMode({ mode: 'pip' })).toEqual({
+      mode: 'pip',
+    });
+    await openai.setWidgetState({ count: 1 });
+
+    expect(openai).toMatchObject({
+      theme: 'dark',
+      displayMode: 'pip',
+      widgetState: { count: 1 },
+    });
+    expect(await openai.callTool('search', {})).toEqual({
+      content: [],
+      structuredContent: {},
+    });
+  });
+
+  test('notifies hooks through set_globals once installed', async () => {
+    const openai = createMockOpenAI();
+    const events: string[][] = [];
+    const onSetGlobals = (event: Event) =>
+      events.push(
+        Object.keys((event as CustomEvent<{ globals: object }>).detail.globals)
+      );
+
+    window.addEventListener(SET_GLOBALS_EVENT_TYPE, onSetGlobals);
+
+    const uninstall = installMockOpenAI(openai);
+    const { result } = renderHook(() => useDisplayMode());
+
+    await act(() => openai.requestDisplayMode({ mode: 'fullscreen' }));
+
+    expect(result.current).toBe('fullscreen');
+    expect(events).toEqual([['displayMode']]);
+
+    uninstall();
+    window.removeEventListener(SET_GLOBALS_EVENT_TYPE, onSetGlobals);
+    expect(window.openai).toBeUndefined();
+  });
+});
+
+describe('setGlobals', () => {
+  test('updates window.openai and the hooks reading it', () => {
+    installMockOpenAI(createMockOpenAI());
+
+    const { result } = renderHook(() => useTheme());
+
+    expect(result.current).toBe('light');
+    act(() => setGlobals({ theme: 'dark' }));
+
+    expect(result.current).toBe('dark');
+    expect(window.openai?.theme).toBe('dark');
+  });
+});
+
+describe('createOpenAIWrapper', () => {
+  test('installs the mock for its children and removes it on unmount', () => {
+    const { wrapper: Wrapper, openai } = createOpenAIWrapper({
+      theme: 'dark',
+    });
+    const themes: (string | null)[] = [];
+
+    function Probe() {
+      const theme = useTheme();
+
+      useEffect(() => {
+        themes.push(theme);
+      }, [theme]);
+
+      return null;
+    }
+
+    const view = render(
+      <Wrapper>
+        <Probe />
+      </Wrapper>
+    );
+
+    expect(window.openai).toBe(openai);
+    expect(themes).toEqual(['dark']);
+
+    view.unmount();
+    expect(window.openai).toBeUndefined();
+  });
+});
+
+describe('createMockRouter', () => {
+  test('records navigations and updates the navigation hooks', () => {
+    const mockRouter = createMockRouter({
+      pathname: '/products',
+      searchParams: { tag: ['a', 'b'] },
+      params: { id: '1' },
+    });
+    const { navigation } = mockRouter;
+    const { result } = renderHook(() => ({
+      pathname: navigation.usePathname(),
+      search: navigation.useSearchParams().toString(),
+      params: navigation.useParams(),
+    }));
+
+    expect(result.current).toEqual({
+      pathname: '/products',
+      search: 'tag=a&tag=b',
+      params: { id: '1' },
+    });
+
+    act(() => {
+      navigation.useRouter().push('details?tab=reviews');
+      navigation.useRouter().replace('/cart');
+    });
+
+    expect(mockRouter.history).toEqual(['/details?tab=reviews', '/cart']);
+    expect(mockRouter.router.push.calls).toEqual([['details?tab=reviews']]);
+    expect(mockRouter.pathname).toBe('/cart');
+  });
+});
@@ -0,0 +1,365 @@
+'use client';
+
+/**
+ * Test utilities for components that use the ChatGPT hooks
+ *
+ * Works with any DOM test environment (happy-dom, jsdom) under bun or jest.
+ */
+
+import {
+  useEffect,
+  useState,
+  useSyncExternalStore,
+  type ReactNode,
+} from 'react';
+import {
+  SetGlobalsEvent,
+  type CallToolResponse,
+  type DisplayMode,
+  type OpenAIAPI,
+  type SetGlobalsEventDetail,
+} from '../types/chatgpt';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyFunction = (...args: any[]) => any;
+
+/**
+ * Function that records its calls and can have its implementation swapped
+ */
+export interface MockFunction<T extends AnyFunction> {
+  (...args: Parameters<T>): ReturnType<T>;
+  calls: Parameters<T>[];
+  mockImplementation: (implementation: T) => MockFunction<T>;
+  mockClear: () => void;
+}
+
+export type MockOpenAI = OpenAIAPI & {
+  [K in
+    | 'callTool'
+    | 'sendFollowUpMessage'
+    | 'openExternal'
+    | 'requestDisplayMode'
+    | 'setWidgetState']: MockFunction<OpenAIAPI[K]>;
+};
+
+/**
+ * Creates a function that records every call
+ *
+ * @example
+ * ```ts
+ * const onSelect = createMockFn((id: string) => id.length);
+ * onSelect('abc');
+ * expect(onSelect.calls).toEqual([['abc']]);
+ * ```
+ */
+export function createMockFn<T extends AnyFunction>(
+  implementation: T
+): MockFunction<T> {
+  let current = implementation;
+
+  const mock = ((...args: Parameters<T>) => {
+    mock.calls.push(args);
+
+    return current(...args);
+  }) as MockFunction<T>;
+
+  mock.calls = [];
+  mock.mockImplementation = next => {
+    current = next;
+
+    return mock;
+  };
+  mock.mockClear = () => {
+    mock.calls = [];
+  };
+
+  return mock;
+}
+
+/**
+ * Sets `window.openai` globals and dispatches a real `SetGlobalsEvent`, the
+ * way the ChatGPT host does
+ *
+ * @example
+ * ```ts
+ * act(() => setGlobals({ theme: 'dark', displayMode: 'fullscreen' }));
+ * ```
+ */
+export function setGlobals(globals: SetGlobalsEventDetail['globals']) {
+  if (typeof window === 'undefined') {
+    throw new Error('setGlobals() requires a DOM test environment');
+  }
+
+  if (window.openai) {
+    Object.assign(window.openai, globals);
+  }
+
+  window.dispatchEvent(new SetGlobalsEvent({ globals }));
+}
+
+/**
+ * Creates a mock `window.openai` whose methods record their calls
+ *
+ * Host-side effects are simulated: `requestDisplayMode` grants the requested
+ * mode and `setWidgetState` updates `widgetState`, both through
+ * `openai:set_globals` events when the mock is installed.
+ *
+ * @example
+ * ```ts
+ * const openai = createMockOpenAI({ toolOutput: { city: 'Lisbon' } });
+ * openai.callTool.mockImplementation(async () => ({
+ *   structuredContent: { forecast: 'sunny' },
+ * }));
+ * ```
+ */
+export function createMockOpenAI(
+  overrides: Partial<OpenAIAPI> = {}
+): MockOpenAI {
+  const {
+    callTool,
+    sendFollowUpMessage,
+    openExternal,
+    requestDisplayMode,
+    setWidgetState,
+    ...globals
+  } = overrides;
+
+  const applyGlobals = (changes: SetGlobalsEventDetail['globals']) => {
+    if (typeof window !== 'undefined' && window.openai === mock) {
+      setGlobals(changes);
+    } else {
+      Object.assign(mock, changes);
+    }
+  };
+
+  const mock: MockOpenAI = {
+    theme: 'light',
+    locale: 'en-US',
+    displayMode: 'inline',
+    maxHeight: 600,
+    userAgent: {
+      device: { type: 'desktop' },
+      capabilities: { hover: true, touch: false },
+    },
+    safeArea: { insets: { top: 0, bottom: 0, left: 0, right: 0 } },
+    toolInput: {},
+    toolOutput: null,
+    toolResponseMetadata: null,
+    widgetState: null,
+    ...globals,
+    callTool: createMockFn(
+      callTool ??
+        (async (): Promise<CallToolResponse> => ({
+          content: [],
+          structuredContent: {},
+        }))
+    ),
+    sendFollowUpMessage: createMockFn(
+      sendFollowUpMessage ?? (async () => undefined)
+    ),
+    openExternal: createMockFn(openExternal ?? (() => undefined)),
+    requestDisplayMode: createMockFn(
+      requestDisplayMode ??
+        (async ({ mode }: { mode: DisplayMode }) => {
+          applyGlobals({ displayMode: mode });
+
+          return { mode };
+        })
+    ),
+    setWidgetState: createMockFn(
+      setWidgetState ??
+        (async (state: Record<string, unknown>) => {
+          applyGlobals({ widgetState: state });
+        })
+    ),
+  };
+
+  return mock;
+}
+
+/**
+ * Installs a mock as `window.openai` and returns a function that restores
+ * the previous value
+ *
+ * @example
+ * ```ts
+ * let uninstall: () => void;
+ * beforeEach(() => { uninstall = installMockOpenAI(createMockOpenAI()); });
+ * afterEach(() => uninstall());
+ * ```
+ */
+export function installMockOpenAI(openai: OpenAIAPI = createMockOpenAI()) {
+  const previous = window.openai;
+
+  window.openai = openai;
+
+  return () => {
+    if (previous) {
+      window.openai = previous;
+    } else {
+      delete window.openai;
+    }
+  };
+}
+
+export interface MockOpenAIProviderProps {
+  openai: OpenAIAPI;
+  children?: ReactNode;
+}
+
+/**
+ * Installs `window.openai` before its children render and removes it on
+ * unmount
+ */
+export function MockOpenAIProvider({
+  openai,
+  children,
+}: MockOpenAIProviderProps) {
+  // Installed during the first render so hooks read it on their first pass
+  const [uninstall] = useState(() => installMockOpenAI(openai));
+
+  useEffect(() => uninstall, [uninstall]);
+
+  return <>{children}</>;
+}
+
+/**
+ * Creates a render wrapper that provides a mock `window.openai`
+ *
+ * @example
+ * ```tsx
+ * import { render, screen } from '@testing-library/react';
+ * import { createOpenAIWrapper, setGlobals } from 'next-chatgpt-apps/testing';
+ *
+ * const { wrapper, openai } = createOpenAIWrapper({ theme: 'dark' });
+ * render(<ThemedCard />, { wrapper });
+ *
+ * act(() => setGlobals({ theme: 'light' }));
+ * expect(openai.setWidgetState.calls).toHaveLength(0);
+ * ```
+ */
+export function createOpenAIWrapper(
+  overrides?: Parameters<typeof createMockOpenAI>[0]
+) {
+  const openai = createMockOpenAI(overrides);
+
+  function OpenAIWrapper({ children }: { children?: ReactNode }) {
+    return <MockOpenAIProvider openai={openai}>{children}</MockOpenAIProvider>;
+  }
+
+  return { wrapper: OpenAIWrapper, openai };
+}
+
+export interface MockRouterOptions {
+  pathname?: string;
+  searchParams?: string | Record<string, string | string[]>;
+  params?: Record<string, string | string[]>;
+}
+
+function toSearchParams(
+  init: MockRouterOptions['searchParams']
+): URLSearchParams {
+  if (!init || typeof init === 'string') {
+    return new URLSearchParams(init);
+  }
+
+  const searchParams = new URLSearchParams();
+
+  Object.entries(init).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach(v =>
+      searchParams.append(key, v)
+    );
+  });
+
+  return searchParams;
+}
+
+/**
+ * Creates a fake `next/navigation` router for `UrlController` tests
+ *
+ * `push` and `replace` update the pathname and search params seen by
+ * `usePathname` and `useSearchParams`, and every navigation is recorded.
+ *
+ * @example
+ * ```ts
+ * // bun
+ * const mockRouter = createMockRouter({ pathname: '/products' });
+ * mock.module('next/navigation', () => mockRouter.navigation);
+ *
+ * // jest
+ * const mockRouter = createMockRouter();
+ * jest.mock('next/navigation', () => mockRouter.navigation);
+ *
+ * expect(mockRouter.router.push.calls).toEqual([['/products/1']]);
+ * ```
+ */
+export function createMockRouter(options: MockRouterOptions = {}) {
+  const listeners = new Set<() => void>();
+  const history: string[] = [];
+
+  let snapshot = {
+    pathname: options.pathname ?? '/',
+    searchParams: toSearchParams(options.searchParams),
+  };
+
+  const navigate = (href: string) => {
+    const url = new URL(href, `http://localhost${snapshot.pathname}`);
+
+    snapshot = { pathname: url.pathname, searchParams: url.searchParams };
+    history.push(url.pathname + url.search);
+    listeners.forEach(listener => listener());
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const getSnapshot = () => snapshot;
+
+  const router = {
+    push: createMockFn((href: string, _options?: { scroll?: boolean }) =>
+      navigate(href)
+    ),
+    replace: createMockFn((href: string, _options?: { scroll?: boolean }) =>
+      navigate(href)
+    ),
+    prefetch: createMockFn((_href: string) => undefined),
+    back: createMockFn(() => undefined),
+    forward: createMockFn(() => undefined),
+    refresh: createMockFn(() => undefined),
+  };
+
+  const navigation = {
+    useRouter: () => router,
+    usePathname: () =>
+      useSyncExternalStore(subscribe, getSnapshot, getSnapshot).pathname,
+    useSearchParams: () =>
+      useSyncExternalStore(subscribe, getSnapshot, getSnapshot).searchParams,
+    useParams: () => options.params ?? {},
+  };
+
+  return {
+    router,
+    navigation,
+    /**
+     * Every URL navigated to, in order
+     */
+    history,
+    get pathname() {
+      return snapshot.pathname;
+    },
+    get searchParams() {
+      return snapshot.searchParams;
+    },
+    /**
+     * Navigates as if the user clicked a link in the app
+     */
+    navigate,
+  };
+}
+
+export type MockRouter = ReturnType<typeof createMockRouter>;
@@ -29,6 +29,21 @@ export interface CallToolResponse {
   content?: Array<{ type: string; text: string }>;
   structuredContent?: Record<string, unknown>;
   _meta?: Record<string, unknown>;
+  /**
+   * Whether the tool reported a failure in `content`
+   */
+  isError?: boolean;
+}
+
+/**
+ * Tool result with typed structured content
+ */
+export interface ChatGPTToolOutput<
+  TOutput extends object = Record<string, unknown>,
+> {
+  content?: Array<{ type: string; text: string }>;
+  structuredContent: TOutput;
+  _meta?: Record<string, unknown>;
 }
 
 export interface OpenAIAPI {
@@ -63,6 +78,12 @@ export interface OpenAIAPI {
    */
   setWidgetState: (state: Record<string, unknown>) => Promise<void>;
 
+  /**
+   * Reports the height the widget's content needs, so inline widgets are
+   * sized to fit. Not available in every host.
+   */
+  notifyIntrinsicHeight?: (height: number) => void;
+
   // Global properties
   /**
    * Current theme (light or dark)
@@ -146,6 +167,21 @@ export class SetGlobalsEvent extends CustomEvent<SetGlobalsEventDetail> {
   }
 }
 
+/**
+ * Domains a widget may reach from ChatGPT's sandbox
+ */
+export interface WidgetCsp {
+  /**
+   * Origins allowed for `fetch`, XHR and WebSocket requests
+   */
+  connect_domains: string[];
+
+  /**
+   * Origins allowed for scripts, styles, images, fonts and media
+   */
+  resource_domains: string[];
+}
+
 export interface WidgetMetadata {
   'openai/widgetDescription'?: string;
   'openai/widgetPrefersBorder'?: boolean;
@@ -154,6 +190,7 @@ export interface WidgetMetadata {
   'openai/toolInvocation/invoking'?: string;
   'openai/toolInvocation/invoked'?: string;
   'openai/resultCanProduceWidget'?: boolean;
+  'openai/widgetCSP'?: WidgetCsp;
 }
 
 export interface ChatGPTConfig {
@@ -0,0 +1,304 @@
+/**
+ * TypeScript definitions for the MCP (Model Context Protocol) server side
+ */
+
+import type { AuthInfo } from '../auth/protected-resource';
+import type { WidgetCspOptions } from '../utils/csp';
+import type {
+  CallToolResponse,
+  ChatGPTToolOutput,
+  WidgetMetadata,
+} from './chatgpt';
+
+export type JsonRpcId = string | number;
+
+/**
+ * `_meta` block of tools, resources and results, keyed by `openai/*` names
+ */
+export type McpMeta = WidgetMetadata & Record<string, unknown>;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: JsonRpcId | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId | null;
+  result?: unknown;
+  error?: JsonRpcError;
+}
+
+/**
+ * JSON Schema describing a tool's arguments or structured output
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema | JsonSchema[];
+  enum?: unknown[];
+  description?: string;
+  [key: string]: unknown;
+}
+
+export interface ToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+/**
+ * Authentication a tool accepts: anonymous calls or an OAuth token with the
+ * given scopes
+ */
+export type SecurityScheme =
+  | { type: 'noauth' }
+  | { type: 'oauth2'; scopes?: string[] };
+
+/**
+ * Context passed to tool and resource handlers
+ */
+export interface McpRequestContext {
+  /**
+   * The incoming HTTP request
+   */
+  request: Request;
+
+  /**
+   * Request metadata sent by the client (e.g. `openai/locale`)
+   */
+  meta: Record<string, unknown>;
+
+  /**
+   * The validated bearer token, when the handler has `auth` configured and
+   * the client sent one
+   */
+  auth: AuthInfo | null;
+
+  /**
+   * The user's locale, from `_meta` or the request headers (see
+   * `getRequestLocale`)
+   */
+  locale: string;
+}
+
+/**
+ * A tool as listed by `tools/list`
+ */
+export interface McpToolDescriptor {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: JsonSchema;
+  outputSchema?: JsonSchema;
+  annotations?: ToolAnnotations;
+
+  /**
+   * Accepted authentication. Tools without `{ type: 'noauth' }` require a
+   * token when the handler has `auth` configured.
+   */
+  securitySchemes?: SecurityScheme[];
+  _meta?: McpMeta;
+}
+
+/**
+ * A tool served by `createMcpHandler`
+ */
+export interface McpTool<
+  TArgs extends Record<string, unknown> = Record<string, unknown>,
+> extends McpToolDescriptor {
+  handler(
+    args: TArgs,
+    context: McpRequestContext
+  ): CallToolResponse | Promise<CallToolResponse>;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+  _meta?: McpMeta;
+}
+
+/**
+ * A resource as listed by `resources/list`
+ */
+export interface McpResourceDescriptor {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  _meta?: McpMeta;
+}
+
+/**
+ * A resource served by `createMcpHandler`
+ */
+export interface McpResource extends McpResourceDescriptor {
+  read: (
+    context: McpRequestContext
+  ) =>
+    | McpResourceContents
+    | McpResourceContents[]
+    | Promise<McpResourceContents | McpResourceContents[]>;
+}
+
+export interface McpServerInfo {
+  name: string;
+  version: string;
+  title?: string;
+}
+
+/**
+ * A widget declared with `defineWidget`
+ */
+export interface WidgetDefinition {
+  /**
+   * Unique widget name, used to build the resource URI
+   */
+  name: string;
+
+  /**
+   * Route of the Next.js page rendered by the widget (e.g. "/weather")
+   */
+  route: string;
+
+  /**
+   * Resource URI referenced by `openai/outputTemplate`
+   */
+  uri: string;
+
+  title?: string;
+  description?: string;
+  prefersBorder?: boolean;
+
+  /**
+   * Domains the widget reaches besides the app origin, published as
+   * `openai/widgetCSP`
+   */
+  csp?: WidgetCspOptions;
+
+  /**
+   * Custom HTML for the widget resource, instead of the page at `route`
+   */
+  html?: string | ((context: McpRequestContext) => string | Promise<string>);
+}
+
+/**
+ * A tool declared with `defineTool`
+ *
+ * The input and output types travel with the definition so widgets can type
+ * `useToolInput<typeof tool>()` and `useToolOutput<typeof tool>()`.
+ */
+export interface ToolDefinition<
+  TInput extends object = Record<string, unknown>,
+  TOutput extends object = Record<string, unknown>,
+> {
+  name: string;
+  title?: string;
+  description: string;
+  inputSchema: JsonSchema;
+  outputSchema?: JsonSchema;
+  annotations?: ToolAnnotations;
+  securitySchemes?: SecurityScheme[];
+
+  /**
+   * Widget rendered for this tool's results
+   */
+  widget?: WidgetDefinition;
+
+  /**
+   * Status text shown while the tool runs (max 64 characters)
+   */
+  invoking?: string;
+
+  /**
+   * Status text shown once the tool has run (max 64 characters)
+   */
+  invoked?: string;
+
+  /**
+   * Whether the widget may call this tool through `window.openai.callTool`
+   */
+  widgetAccessible?: boolean;
+
+  handler(
+    args: TInput,
+    context: McpRequestContext
+  ): ChatGPTToolOutput<TOutput> | Promise<ChatGPTToolOutput<TOutput>>;
+}
+
+/**
+ * Resolves the tool input type from a `ToolDefinition` or a plain type
+ */
+export type InferToolInput<T> =
+  T extends ToolDefinition<infer TInput, object> ? TInput : T;
+
+/**
+ * Resolves the tool output type from a `ToolDefinition` or a plain type
+ */
+export type InferToolOutput<T> =
+  T extends ToolDefinition<object, infer TOutput> ? TOutput : T;
+
+/**
+ * Tool config a page exports as `chatgptTool`, turning the page into a tool
+ * that opens it
+ *
+ * Read statically at build time, so it must be a plain object literal.
+ */
+export interface PageToolConfig {
+  /**
+   * Tool name (defaults to one derived from the route, e.g.
+   * "open_products_id")
+   */
+  name?: string;
+  title?: string;
+  description: string;
+
+  /**
+   * Schemas of the dynamic route params (defaults to strings, or string
+   * arrays for catch-all segments)
+   */
+  params?: Record<string, JsonSchema>;
+
+  /**
+   * Schemas of the search params the page reads
+   */
+  searchParams?: Record<string, JsonSchema>;
+
+  /**
+   * Search params the model must provide
+   */
+  required?: string[];
+
+  invoking?: string;
+  invoked?: string;
+}
+
+/**
+ * A page found by the route scanner
+ */
+export interface RouteToolManifestEntry extends PageToolConfig {
+  /**
+   * Route pattern of the page (e.g. "/products/[id]")
+   */
+  route: string;
+
+  /**
+   * Page file, relative to the app directory
+   */
+  file: string;
+}
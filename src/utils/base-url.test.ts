@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import {
+  checkBaseURLConsistency,
+  describeBaseURL,
+  getBaseURL,
+  registerBaseURLDetector,
+} from './base-url';
+
+const env = process.env as Record<string, string | undefined>;
+const originalEnv = { ...env };
+
+const BASE_URL_VARIABLES = [
+  'NEXT_PUBLIC_WEBSITE_URL',
+  'NEXT_PUBLIC_CHATGPT_BASE_URL',
+  'VERCEL_ENV',
+  'VERCEL_PROJECT_PRODUCTION_URL',
+  'VERCEL_BRANCH_URL',
+  'VERCEL_URL',
+  'NETLIFY',
+  'CONTEXT',
+  'URL',
+  'DEPLOY_PRIME_URL',
+  'CF_PAGES_URL',
+  'FLY_APP_NAME',
+  'RENDER_EXTERNAL_URL',
+  'APP_URL',
+  'PORT',
+];
+
+const unregister: (() => void)[] = [];
+
+beforeEach(() => {
+  BASE_URL_VARIABLES.forEach(name => delete env[name]);
+  env.NODE_ENV = 'production';
+});
+
+afterEach(() => {
+  unregister.splice(0).forEach(remove => remove());
+  Object.keys(env).forEach(name => delete env[name]);
+  Object.assign(env, originalEnv);
+});
+
+const register = (name: string, url: string, beforeBuiltIns?: boolean) => {
+  unregister.push(
+    registerBaseURLDetector({ name, detect: () => url }, { beforeBuiltIns })
+  );
+};
+
+describe('describeBaseURL', () => {
+  test('prefers NEXT_PUBLIC_WEBSITE_URL over every detector', () => {
+    env.NEXT_PUBLIC_WEBSITE_URL = 'https://app.test';
+    env.APP_URL = 'https://self-hosted.test';
+    register('tunnel', 'https://tunnel.test');
+
+    expect(describeBaseURL()).toEqual({
+      url: 'https://app.test',
+      detector: 'explicit',
+      description: 'NEXT_PUBLIC_WEBSITE_URL',
+    });
+  });
+
+  test('runs custom detectors before the platform detectors', () => {
+    env.APP_URL = 'https://self-hosted.test';
+    register('tunnel', 'https://tunnel.test');
+
+    expect(describeBaseURL()).toEqual({
+      url: 'https://tunnel.test',
+      detector: 'tunnel',
+      description: 'tunnel',
+    });
+  });
+
+  test('runs custom detectors after the platform detectors on request', () => {
+    register('late', 'https://late.test', false);
+
+    expect(getBaseURL()).toBe('https://late.test');
+
+    env.NEXT_PUBLIC_CHATGPT_BASE_URL = 'https://build.test';
+
+    expect(describeBaseURL().detector).toBe('build');
+  });
+
+  test('stops running a detector once it is unregistered', () => {
+    register('tunnel', 'https://tunnel.test');
+    unregister.splice(0).forEach(remove => remove());
+
+    expect(describeBaseURL().detector).toBe('fallback');
+  });
+
+  test('uses the dev server on its port ahead of platform variables', () => {
+    env.NODE_ENV = 'development';
+    env.PORT = '4000';
+    env.VERCEL_URL = 'preview.vercel.app';
+
+    expect(describeBaseURL()).toMatchObject({
+      url: 'http://localhost:4000',
+      detector: 'development',
+    });
+  });
+
+  test('falls back to localhost on PORT, or port 3000', () => {
+    expect(describeBaseURL()).toEqual({
+      url: 'http://localhost:3000',
+      detector: 'fallback',
+      description: 'localhost (PORT)',
+    });
+
+    env.PORT = '8080';
+
+    expect(getBaseURL()).toBe('http://localhost:8080');
+  });
+
+  test('reads the production or preview URL of each platform', () => {
+    env.VERCEL_URL = 'deploy-abc.vercel.app';
+    env.VERCEL_BRANCH_URL = 'app-git-main.vercel.app';
+    env.VERCEL_PROJECT_PRODUCTION_URL = 'app.vercel.app';
+    expect(getBaseURL()).toBe('https://app-git-main.vercel.app');
+
+    env.VERCEL_ENV = 'production';
+    expect(getBaseURL()).toBe('https://app.vercel.app');
+
+    BASE_URL_VARIABLES.forEach(name => delete env[name]);
+    env.NETLIFY = 'true';
+    env.URL = 'https://app.netlify.app';
+    env.DEPLOY_PRIME_URL = 'https://deploy-preview-1--app.netlify.app';
+    expect(getBaseURL()).toBe('https://deploy-preview-1--app.netlify.app');
+
+    env.CONTEXT = 'production';
+    expect(getBaseURL()).toBe('https://app.netlify.app');
+
+    BASE_URL_VARIABLES.forEach(name => delete env[name]);
+    env.FLY_APP_NAME = 'app';
+    expect(describeBaseURL()).toMatchObject({
+      url: 'https://app.fly.dev',
+      detector: 'fly',
+    });
+  });
+
+  test('normalizes the URL a detector returns', () => {
+    env.APP_URL = '  app.test/// ';
+    expect(getBaseURL()).toBe('https://app.test');
+
+    env.APP_URL = 'http://localhost:3001/';
+    expect(getBaseURL()).toBe('http://localhost:3001');
+
+    env.APP_URL = '   ';
+    expect(describeBaseURL().detector).toBe('fallback');
+  });
+});
+
+describe('describeBaseURL in the browser', () => {
+  const globals = globalThis as Record<string, unknown>;
+  const original = { window: globals.window, location: globals.location };
+
+  afterEach(() => {
+    Object.entries(original).forEach(([name, value]) => {
+      if (value === undefined) {
+        delete globals[name];
+      } else {
+        globals[name] = value;
+      }
+    });
+  });
+
+  const stubPage = ({
+    framed = false,
+    innerBaseUrl,
+  }: {
+    framed?: boolean;
+    innerBaseUrl?: string;
+  }) => {
+    const page: Record<string, unknown> = { innerBaseUrl };
+
+    page.self = page;
+    page.top = framed ? {} : page;
+    Object.assign(globals, {
+      window: page,
+      location: { origin: 'https://page.test' },
+    });
+  };
+
+  test('uses the page origin ahead of platform variables', () => {
+    env.APP_URL = 'https://self-hosted.test';
+    stubPage({});
+
+    expect(describeBaseURL()).toMatchObject({
+      url: 'https://page.test',
+      detector: 'browser',
+    });
+
+    env.NEXT_PUBLIC_WEBSITE_URL = 'https://app.test';
+
+    expect(getBaseURL()).toBe('https://app.test');
+  });
+
+  test('uses the URL ChatGPTBootstrap rendered inside the widget iframe', () => {
+    stubPage({ framed: true, innerBaseUrl: 'https://app.test' });
+
+    expect(getBaseURL()).toBe('https://app.test');
+  });
+
+  test('skips the sandbox origin of a frame without a rendered URL', () => {
+    env.NEXT_PUBLIC_CHATGPT_BASE_URL = 'https://build.test';
+    stubPage({ framed: true });
+
+    expect(describeBaseURL()).toMatchObject({
+      url: 'https://build.test',
+      detector: 'build',
+    });
+  });
+});
+
+describe('checkBaseURLConsistency', () => {
+  test('passes without a build URL or when the origins match', () => {
+    expect(checkBaseURLConsistency('https://app.test')).toBeNull();
+
+    env.NEXT_PUBLIC_CHATGPT_BASE_URL = 'https://app.test/';
+
+    expect(checkBaseURLConsistency('https://app.test/shop')).toBeNull();
+  });
+
+  test('describes a mismatch or an invalid URL', () => {
+    env.NEXT_PUBLIC_CHATGPT_BASE_URL = 'https://app.test';
+
+    expect(checkBaseURLConsistency('http://localhost:3000')).toStartWith(
+      'The base URL is http://localhost:3000 at runtime but was https://app.test when the app was built'
+    );
+    expect(checkBaseURLConsistency('app.test')).toBe(
+      'Invalid base URL: "app.test" at runtime, "https://app.test" at build time'
+    );
+  });
+});
@@ -1,29 +1,261 @@
 /**
  * Utility to determine the base URL based on environment
+ *
+ * The URL comes from a chain of detectors, one per deployment platform. The
+ * first one that returns a URL wins; `describeBaseURL()` reports which.
+ * Environment variables are read with literal `process.env.NAME` accesses so
+ * Next.js can inline the public ones in the browser.
+ *
+ * In the browser, the page itself is the best source: the `browser` detector
+ * answers before the platform variables, and only `NEXT_PUBLIC_WEBSITE_URL`
+ * and custom detectors registered before the built-ins take precedence.
  */
 
+export interface BaseURLDetector {
+  /**
+   * Identifies the detector in `describeBaseURL()` (e.g. "netlify")
+   */
+  name: string;
+
+  /**
+   * Human-readable source of the URL (e.g. "Netlify (URL)")
+   */
+  description?: string;
+
+  /**
+   * Returns the base URL, or nothing when the detector does not apply. A
+   * host without a protocol is served over https.
+   */
+  detect: () => string | null | undefined;
+}
+
+export interface BaseURLResolution {
+  url: string;
+  detector: string;
+  description: string;
+}
+
+export interface RegisterBaseURLDetectorOptions {
+  /**
+   * Run before the built-in platform detectors (defaults to `true`).
+   * `NEXT_PUBLIC_WEBSITE_URL` always wins.
+   */
+  beforeBuiltIns?: boolean;
+}
+
+const customDetectors: {
+  detector: BaseURLDetector;
+  beforeBuiltIns: boolean;
+}[] = [];
+
+function devServerUrl() {
+  return `http://localhost:${process.env.PORT || 3000}`;
+}
+
+const explicitDetector: BaseURLDetector = {
+  name: 'explicit',
+  description: 'NEXT_PUBLIC_WEBSITE_URL',
+  detect: () => process.env.NEXT_PUBLIC_WEBSITE_URL,
+};
+
+/**
+ * Built-in detectors, in the order they run
+ */
+export const BASE_URL_DETECTORS: readonly BaseURLDetector[] = [
+  {
+    name: 'browser',
+    description: 'the page (window.innerBaseUrl or location.origin)',
+    detect: () => {
+      if (typeof window === 'undefined') return undefined;
+
+      // A frame without `innerBaseUrl` is on the sandbox origin, so the
+      // later detectors decide
+      return window.innerBaseUrl ?? (isInIframe() ? null : location.origin);
+    },
+  },
+  {
+    name: 'development',
+    description: 'the Next.js dev server (PORT)',
+    detect: () =>
+      process.env.NODE_ENV === 'development' ? devServerUrl() : undefined,
+  },
+  {
+    name: 'vercel',
+    description: 'Vercel (VERCEL_PROJECT_PRODUCTION_URL, VERCEL_BRANCH_URL)',
+    detect: () =>
+      process.env.VERCEL_ENV === 'production'
+        ? process.env.VERCEL_PROJECT_PRODUCTION_URL
+        : process.env.VERCEL_BRANCH_URL || process.env.VERCEL_URL,
+  },
+  {
+    name: 'netlify',
+    description: 'Netlify (URL, DEPLOY_PRIME_URL)',
+    detect: () => {
+      if (process.env.NETLIFY !== 'true') return undefined;
+
+      return process.env.CONTEXT === 'production'
+        ? process.env.URL
+        : process.env.DEPLOY_PRIME_URL || process.env.URL;
+    },
+  },
+  {
+    name: 'cloudflare',
+    description: 'Cloudflare Pages (CF_PAGES_URL)',
+    detect: () => process.env.CF_PAGES_URL,
+  },
+  {
+    name: 'fly',
+    description: 'Fly.io (FLY_APP_NAME)',
+    detect: () =>
+      process.env.FLY_APP_NAME && `${process.env.FLY_APP_NAME}.fly.dev`,
+  },
+  {
+    name: 'render',
+    description: 'Render (RENDER_EXTERNAL_URL)',
+    detect: () => process.env.RENDER_EXTERNAL_URL,
+  },
+  {
+    name: 'self-hosted',
+    description: 'Docker or another self-hosted server (APP_URL)',
+    detect: () => process.env.APP_URL,
+  },
+  {
+    name: 'build',
+    description: 'the URL withChatGPT resolved at build time',
+    detect: () => process.env.NEXT_PUBLIC_CHATGPT_BASE_URL,
+  },
+  {
+    name: 'fallback',
+    description: 'localhost (PORT)',
+    detect: devServerUrl,
+  },
+];
+
+function normalizeBaseUrl(value: string): string {
+  const url = /^[a-z][a-z0-9+.-]*:\/\//i.test(value)
+    ? value
+    : `https://${value}`;
+
+  return url.replace(/\/+$/, '');
+}
+
+function getDetectors(): BaseURLDetector[] {
+  const custom = (beforeBuiltIns: boolean) =>
+    customDetectors
+      .filter(entry => entry.beforeBuiltIns === beforeBuiltIns)
+      .map(entry => entry.detector);
+
+  return [
+    explicitDetector,
+    ...custom(true),
+    ...BASE_URL_DETECTORS.slice(0, -1),
+    ...custom(false),
+    ...BASE_URL_DETECTORS.slice(-1),
+  ];
+}
+
+/**
+ * Adds a detector to the base URL chain, e.g. for a tunnel or an
+ * unsupported platform. Returns a function that removes it.
+ *
+ * @example
+ * ```ts
+ * // instrumentation.ts
+ * registerBaseURLDetector({
+ *   name: 'ngrok',
+ *   detect: () => process.env.NGROK_URL,
+ * });
+ * ```
+ */
+export function registerBaseURLDetector(
+  detector: BaseURLDetector,
+  { beforeBuiltIns = true }: RegisterBaseURLDetectorOptions = {}
+): () => void {
+  const entry = { detector, beforeBuiltIns };
+
+  customDetectors.push(entry);
+
+  return () => {
+    const index = customDetectors.indexOf(entry);
+
+    if (index !== -1) {
+      customDetectors.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Resolves the base URL and reports which detector produced it
+ *
+ * @example
+ * ```ts
+ * console.log(describeBaseURL());
+ * // { url: 'https://my-app.netlify.app', detector: 'netlify',
+ * //   description: 'Netlify (URL, DEPLOY_PRIME_URL)' }
+ * ```
+ */
+export function describeBaseURL(): BaseURLResolution {
+  const detectors = getDetectors();
+  let resolution: BaseURLResolution | undefined;
+
+  detectors.some(detector => {
+    const value = detector.detect()?.trim();
+
+    if (value) {
+      resolution = {
+        url: normalizeBaseUrl(value),
+        detector: detector.name,
+        description: detector.description ?? detector.name,
+      };
+    }
+
+    return Boolean(value);
+  });
+
+  return (
+    resolution ?? {
+      url: devServerUrl(),
+      detector: 'fallback',
+      description: 'localhost (PORT)',
+    }
+  );
+}
+
 export function getBaseURL(): string {
-  if (process.env.NEXT_PUBLIC_WEBSITE_URL) {
-    return process.env.NEXT_PUBLIC_WEBSITE_URL;
-  }
+  return describeBaseURL().url;
+}
 
-  // Server environment
-  if (process.env.NODE_ENV === 'development') {
-    return 'http://localhost:3000';
+/**
+ * Compares the base URL used at runtime with the one `withChatGPT`
+ * resolved at build time, and returns a description of the mismatch
+ *
+ * @example
+ * ```ts
+ * const mismatch = checkBaseURLConsistency(getBaseURL());
+ * ```
+ */
+export function checkBaseURLConsistency(runtimeUrl: string): string | null {
+  const buildUrl = process.env.NEXT_PUBLIC_CHATGPT_BASE_URL;
+
+  if (!buildUrl) {
+    return null;
   }
 
-  // Production environment on Vercel
-  if (process.env.VERCEL_ENV === 'production') {
-    return `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`;
+  let runtimeOrigin: string;
+  let buildOrigin: string;
+
+  try {
+    runtimeOrigin = new URL(runtimeUrl).origin;
+    buildOrigin = new URL(buildUrl).origin;
+  } catch {
+    return `Invalid base URL: "${runtimeUrl}" at runtime, "${buildUrl}" at build time`;
   }
 
-  // Preview/branch deployments on Vercel
-  if (process.env.VERCEL_BRANCH_URL || process.env.VERCEL_URL) {
-    return `https://${process.env.VERCEL_BRANCH_URL || process.env.VERCEL_URL}`;
+  if (runtimeOrigin === buildOrigin) {
+    return null;
   }
 
-  // Fallback to NEXT_PUBLIC_WEBSITE_URL or default
-  return 'http://localhost:3000';
+  return `The base URL is ${runtimeOrigin} at runtime but was ${buildOrigin} when the app was built, so assets and next/image URLs point at the wrong origin. Set NEXT_PUBLIC_WEBSITE_URL for both \`next build\` and \`next start\`.`;
 }
 
 export function isInIframe(): boolean {
@@ -32,7 +264,13 @@ export function isInIframe(): boolean {
   return window.self !== window.top;
 }
 
-export function isChatGPTIframe(baseUrl: string): boolean {
+/**
+ * Whether the page runs inside the ChatGPT widget iframe. Browser only; use
+ * `getChatGPTContext()` on the server.
+ *
+ * @param _baseUrl - Unused, kept for backwards compatibility
+ */
+export function isChatGPTIframe(_baseUrl?: string): boolean {
   if (typeof window === 'undefined') return false;
 
   return isInIframe() && typeof window.openai !== 'undefined';
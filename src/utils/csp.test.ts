@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import {
+  buildContentSecurityPolicy,
+  CSP_REPORT_PATH,
+  getCspReportUri,
+  parseCspReport,
+  resolveWidgetCsp,
+} from './csp';
+
+const env = process.env as Record<string, string | undefined>;
+const nodeEnv = env.NODE_ENV;
+
+const directivesOf = (policy: string) =>
+  Object.fromEntries(
+    policy.split('; ').map(directive => {
+      const [name = '', ...sources] = directive.split(' ');
+
+      return [name, sources];
+    })
+  );
+
+afterEach(() => {
+  env.NODE_ENV = nodeEnv;
+});
+
+describe('resolveWidgetCsp', () => {
+  test('always allows the app origin, without duplicates', () => {
+    expect(
+      resolveWidgetCsp({
+        baseUrl: 'https://app.test/shop',
+        connectDomains: ['https://api.test/', 'https://app.test'],
+        resourceDomains: ['https://cdn.test'],
+      })
+    ).toEqual({
+      connect_domains: ['https://app.test', 'https://api.test'],
+      resource_domains: ['https://app.test', 'https://cdn.test'],
+    });
+  });
+});
+
+describe('buildContentSecurityPolicy', () => {
+  test('allows the widget domains per directive in production', () => {
+    env.NODE_ENV = 'production';
+
+    const directives = directivesOf(
+      buildContentSecurityPolicy({
+        baseUrl: 'https://app.test',
+        connectDomains: ['https://api.test'],
+        resourceDomains: ['https://cdn.test'],
+      })
+    );
+
+    expect(directives['script-src']).toEqual([
+      "'self'",
+      "'unsafe-inline'",
+      'https://app.test',
+      'https://cdn.test',
+    ]);
+    expect(directives['connect-src']).toEqual([
+      "'self'",
+      'https://app.test',
+      'https://api.test',
+    ]);
+    expect(directives['img-src']).toContain('https://cdn.test');
+    expect(directives).not.toHaveProperty('report-uri');
+  });
+
+  test('allows eval and hot reloading sockets in development', () => {
+    env.NODE_ENV = 'development';
+
+    const directives = directivesOf(
+      buildContentSecurityPolicy({ baseUrl: 'http://localhost:3000' })
+    );
+
+    expect(directives['script-src']).toContain("'unsafe-eval'");
+    expect(directives['connect-src']).toContain('ws://localhost:3000');
+    expect(directives['report-uri']).toEqual([CSP_REPORT_PATH]);
+  });
+
+  test('lets custom directives replace or remove generated ones', () => {
+    env.NODE_ENV = 'production';
+
+    const directives = directivesOf(
+      buildContentSecurityPolicy({
+        baseUrl: 'https://app.test',
+        directives: {
+          'frame-src': ['https://www.youtube.com'],
+          'media-src': [],
+        },
+      })
+    );
+
+    expect(directives['frame-src']).toEqual(['https://www.youtube.com']);
+    expect(directives).not.toHaveProperty('media-src');
+  });
+});
+
+describe('getCspReportUri', () => {
+  test('reports in report-only mode unless disabled', () => {
+    expect(getCspReportUri({ reportOnly: true })).toBe(CSP_REPORT_PATH);
+    expect(getCspReportUri({ reportOnly: false })).toBeUndefined();
+    expect(getCspReportUri({ reportOnly: true, reportUri: false })).toBe(
+      undefined
+    );
+    expect(getCspReportUri({ reportUri: '/csp' })).toBe('/csp');
+  });
+});
+
+describe('parseCspReport', () => {
+  test('reads report-uri and Reporting API bodies', () => {
+    expect(
+      parseCspReport({
+        'csp-report': {
+          'blocked-uri': 'https://evil.test/x.js',
+          'violated-directive': 'script-src',
+          'document-uri': 'https://app.test/',
+        },
+      })
+    ).toEqual([
+      {
+        blockedUrl: 'https://evil.test/x.js',
+        directive: 'script-src',
+        documentUrl: 'https://app.test/',
+        disposition: undefined,
+      },
+    ]);
+    expect(
+      parseCspReport([
+        {
+          type: 'csp-violation',
+          body: {
+            blockedURL: 'https://api.test/data',
+            effectiveDirective: 'connect-src',
+            documentURL: 'https://app.test/',
+            disposition: 'report',
+          },
+        },
+        { type: 'deprecation', body: {} },
+      ])
+    ).toEqual([
+      {
+        blockedUrl: 'https://api.test/data',
+        directive: 'connect-src',
+        documentUrl: 'https://app.test/',
+        disposition: 'report',
+      },
+    ]);
+    expect(parseCspReport(null)).toEqual([]);
+  });
+});
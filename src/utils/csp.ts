@@ -0,0 +1,173 @@
+/**
+ * Content-Security-Policy matching the sandbox ChatGPT renders widgets in
+ */
+
+import type { WidgetCsp } from '../types/chatgpt';
+import { getBaseURL } from './base-url';
+
+export const CSP_REPORT_PATH = '/__chatgpt-csp-report';
+
+export interface WidgetCspOptions {
+  /**
+   * Origin of the app, always allowed (defaults to `getBaseURL()`)
+   */
+  baseUrl?: string;
+
+  /**
+   * Extra origins the widget fetches from (e.g. "https://api.example.com")
+   */
+  connectDomains?: string[];
+
+  /**
+   * Extra origins the widget loads scripts, styles, images, fonts or media
+   * from
+   */
+  resourceDomains?: string[];
+}
+
+export interface ContentSecurityPolicyOptions extends WidgetCspOptions {
+  /**
+   * Report violations without blocking them (defaults to `true` in
+   * development)
+   */
+  reportOnly?: boolean;
+
+  /**
+   * Where browsers send violation reports. Defaults to `CSP_REPORT_PATH` in
+   * report-only mode; `false` disables reporting.
+   */
+  reportUri?: string | false;
+
+  /**
+   * Extra directives, replacing the generated ones with the same name
+   */
+  directives?: Record<string, string[]>;
+}
+
+/**
+ * A blocked request, as reported by the browser
+ */
+export interface CspViolation {
+  blockedUrl?: string;
+  directive?: string;
+  documentUrl?: string;
+  disposition?: string;
+}
+
+function unique(domains: string[]) {
+  return Array.from(new Set(domains.map(domain => domain.replace(/\/+$/, ''))));
+}
+
+/**
+ * Resolves the `openai/widgetCSP` domains for a widget
+ *
+ * @example
+ * ```ts
+ * resolveWidgetCsp({ connectDomains: ['https://api.example.com'] });
+ * // {
+ * //   connect_domains: ['https://my-app.vercel.app', 'https://api.example.com'],
+ * //   resource_domains: ['https://my-app.vercel.app'],
+ * // }
+ * ```
+ */
+export function resolveWidgetCsp(options: WidgetCspOptions = {}): WidgetCsp {
+  const { origin } = new URL(options.baseUrl ?? getBaseURL());
+
+  return {
+    connect_domains: unique([origin, ...(options.connectDomains ?? [])]),
+    resource_domains: unique([origin, ...(options.resourceDomains ?? [])]),
+  };
+}
+
+/**
+ * Whether a policy is sent as `Content-Security-Policy-Report-Only`
+ */
+export function isCspReportOnly(options: ContentSecurityPolicyOptions = {}) {
+  return options.reportOnly ?? process.env.NODE_ENV === 'development';
+}
+
+/**
+ * Where violation reports are sent, if anywhere
+ */
+export function getCspReportUri(
+  options: ContentSecurityPolicyOptions = {}
+): string | undefined {
+  if (options.reportUri === false) {
+    return undefined;
+  }
+
+  return (
+    options.reportUri ??
+    (isCspReportOnly(options) ? CSP_REPORT_PATH : undefined)
+  );
+}
+
+/**
+ * Builds a `Content-Security-Policy` value allowing the same domains as the
+ * widget's `openai/widgetCSP` metadata, so blocked requests show up before
+ * the app runs inside ChatGPT
+ */
+export function buildContentSecurityPolicy(
+  options: ContentSecurityPolicyOptions = {}
+): string {
+  const { connect_domains, resource_domains } = resolveWidgetCsp(options);
+  const development = process.env.NODE_ENV === 'development';
+  const reportUri = getCspReportUri(options);
+
+  const directives: Record<string, string[]> = {
+    'default-src': ["'self'"],
+    // Next.js needs inline scripts, and eval for Fast Refresh in development
+    'script-src': [
+      "'self'",
+      "'unsafe-inline'",
+      ...(development ? ["'unsafe-eval'"] : []),
+      ...resource_domains,
+    ],
+    'style-src': ["'self'", "'unsafe-inline'", ...resource_domains],
+    'img-src': ["'self'", 'data:', 'blob:', ...resource_domains],
+    'font-src': ["'self'", 'data:', ...resource_domains],
+    'media-src': ["'self'", 'blob:', ...resource_domains],
+    'connect-src': [
+      "'self'",
+      ...connect_domains,
+      // Hot reloading connects over WebSocket
+      ...(development
+        ? connect_domains.map(domain => domain.replace(/^http/, 'ws'))
+        : []),
+    ],
+    ...(reportUri ? { 'report-uri': [reportUri] } : {}),
+    ...options.directives,
+  };
+
+  return Object.entries(directives)
+    .filter(([, sources]) => sources.length > 0)
+    .map(([name, sources]) => [name, ...unique(sources)].join(' '))
+    .join('; ');
+}
+
+/**
+ * Reads violations from a `report-uri` (`application/csp-report`) or
+ * Reporting API (`application/reports+json`) body
+ */
+export function parseCspReport(body: unknown): CspViolation[] {
+  const reports = Array.isArray(body)
+    ? body
+        .filter(report => report?.type === 'csp-violation')
+        .map(report => report.body)
+    : [(body as { 'csp-report'?: unknown } | null)?.['csp-report']];
+
+  return reports
+    .filter(
+      (report): report is Record<string, string> =>
+        typeof report === 'object' && report !== null
+    )
+    .map(report => ({
+      blockedUrl: report.blockedURL ?? report['blocked-uri'],
+      directive:
+        report.effectiveDirective ??
+        report['effective-directive'] ??
+        report['violated-directive'],
+      documentUrl: report.documentURL ?? report['document-uri'],
+      disposition: report.disposition,
+    }));
+}
@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test';
+import { createFormatter } from './format';
+
+describe('createFormatter', () => {
+  const format = createFormatter('en-US', { timeZone: 'UTC' });
+  const date = Date.UTC(2024, 0, 15, 14, 30);
+
+  test('formats numbers, currencies and percentages', () => {
+    expect(format.number(1234.5)).toBe('1,234.5');
+    expect(format.currency(1234.5, 'USD')).toBe('$1,234.50');
+    expect(format.percent(0.25)).toBe('25%');
+    expect(createFormatter('de-DE').number(1234.5)).toBe('1.234,5');
+  });
+
+  test('formats dates in the configured time zone', () => {
+    expect(format.date(date)).toBe('Jan 15, 2024');
+    // ICU puts a narrow no-break space before the day period
+    expect(format.time(new Date(date))).toMatch(/^2:30\sPM$/);
+    expect(format.date('2024-01-15T23:30:00-05:00')).toBe('Jan 16, 2024');
+  });
+
+  test('picks the largest unit for relative times', () => {
+    const now = date;
+
+    expect(format.relativeTime(now - 30 * 1000, { now })).toBe(
+      '30 seconds ago'
+    );
+    expect(format.relativeTime(now - 3 * 60 * 60 * 1000, { now })).toBe(
+      '3 hours ago'
+    );
+    expect(format.relativeTime(now + 24 * 60 * 60 * 1000, { now })).toBe(
+      'tomorrow'
+    );
+  });
+
+  test('formats lists and plurals', () => {
+    expect(format.list(['a', 'b', 'c'])).toBe('a, b, and c');
+    expect(format.plural(1, { one: '# item', other: '# items' })).toBe(
+      '1 item'
+    );
+    expect(format.plural(1200, { one: '# item', other: '# items' })).toBe(
+      '1,200 items'
+    );
+  });
+});
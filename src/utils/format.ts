@@ -0,0 +1,172 @@
+/**
+ * Locale-aware formatting over the `Intl` APIs
+ *
+ * Formatters are plain objects so the same code formats tool output on the
+ * server and widget content in the browser.
+ */
+
+import { createLruCache } from './lru';
+
+export type DateInput = Date | number | string;
+
+/**
+ * Messages per plural category; `#` is replaced with the formatted count
+ */
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+export interface FormatterOptions {
+  /**
+   * Time zone for dates and times (defaults to the runtime's time zone)
+   */
+  timeZone?: string;
+}
+
+export interface RelativeTimeOptions extends Intl.RelativeTimeFormatOptions {
+  /**
+   * Point in time the value is relative to (defaults to now)
+   */
+  now?: DateInput;
+}
+
+export interface Formatter {
+  locale: string;
+  number(value: number | bigint, options?: Intl.NumberFormatOptions): string;
+  currency(
+    value: number | bigint,
+    currency: string,
+    options?: Intl.NumberFormatOptions
+  ): string;
+  percent(value: number, options?: Intl.NumberFormatOptions): string;
+  date(value: DateInput, options?: Intl.DateTimeFormatOptions): string;
+  time(value: DateInput, options?: Intl.DateTimeFormatOptions): string;
+  dateTime(value: DateInput, options?: Intl.DateTimeFormatOptions): string;
+  relativeTime(value: DateInput, options?: RelativeTimeOptions): string;
+  list(items: Iterable<string>, options?: Intl.ListFormatOptions): string;
+  plural(
+    count: number,
+    forms: PluralForms,
+    options?: Intl.PluralRulesOptions
+  ): string;
+}
+
+// Upper bounds, in seconds, of each unit `relativeTime` picks
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['second', 60],
+  ['minute', 60 * 60],
+  ['hour', 60 * 60 * 24],
+  ['day', 60 * 60 * 24 * 7],
+  ['week', 60 * 60 * 24 * 30],
+  ['month', 60 * 60 * 24 * 365],
+  ['year', Infinity],
+];
+
+const UNIT_SECONDS: Record<string, number> = {
+  second: 1,
+  minute: 60,
+  hour: 60 * 60,
+  day: 60 * 60 * 24,
+  week: 60 * 60 * 24 * 7,
+  month: 60 * 60 * 24 * 30,
+  year: 60 * 60 * 24 * 365,
+};
+
+// Locales and options come from requests, so only recent instances are kept
+const INSTANCE_CACHE_SIZE = 500;
+
+const instances = createLruCache<string, unknown>(INSTANCE_CACHE_SIZE);
+
+function cached<T>(key: string, create: () => T): T {
+  let instance = instances.get(key) as T | undefined;
+
+  if (instance === undefined) {
+    instance = create();
+    instances.set(key, instance);
+  }
+
+  return instance;
+}
+
+function toTimestamp(value: DateInput): number {
+  return value instanceof Date ? value.getTime() : new Date(value).getTime();
+}
+
+/**
+ * Creates a formatter for a locale
+ *
+ * `Intl` instances are cached per locale and options, so formatters are
+ * cheap to create.
+ *
+ * @example
+ * ```ts
+ * const format = createFormatter('de-DE');
+ *
+ * format.currency(1234.5, 'EUR'); // '1.234,50 €'
+ * format.relativeTime(Date.now() - 3 * 60 * 60 * 1000); // 'vor 3 Stunden'
+ * format.plural(2, { one: '# Artikel', other: '# Artikel' }); // '2 Artikel'
+ * ```
+ */
+export function createFormatter(
+  locale: string,
+  { timeZone }: FormatterOptions = {}
+): Formatter {
+  const numberFormat = (options: Intl.NumberFormatOptions = {}) =>
+    cached(
+      `number:${locale}:${JSON.stringify(options)}`,
+      () => new Intl.NumberFormat(locale, options)
+    );
+
+  const dateTimeFormat = (options: Intl.DateTimeFormatOptions) =>
+    cached(
+      `date:${locale}:${timeZone}:${JSON.stringify(options)}`,
+      () => new Intl.DateTimeFormat(locale, { timeZone, ...options })
+    );
+
+  const number = (value: number | bigint, options?: Intl.NumberFormatOptions) =>
+    numberFormat(options).format(value);
+
+  return {
+    locale,
+    number,
+    currency: (value, currency, options) =>
+      number(value, { style: 'currency', currency, ...options }),
+    percent: (value, options) =>
+      number(value, { style: 'percent', ...options }),
+    date: (value, options = { dateStyle: 'medium' }) =>
+      dateTimeFormat(options).format(toTimestamp(value)),
+    time: (value, options = { timeStyle: 'short' }) =>
+      dateTimeFormat(options).format(toTimestamp(value)),
+    dateTime: (value, options = { dateStyle: 'medium', timeStyle: 'short' }) =>
+      dateTimeFormat(options).format(toTimestamp(value)),
+    relativeTime: (value, { now = Date.now(), ...options } = {}) => {
+      const seconds = (toTimestamp(value) - toTimestamp(now)) / 1000;
+      const [unit] = RELATIVE_TIME_UNITS.find(
+        ([, limit]) => Math.abs(seconds) < limit
+      ) ?? ['year'];
+      const format = cached(
+        `relative:${locale}:${JSON.stringify(options)}`,
+        () =>
+          new Intl.RelativeTimeFormat(locale, { numeric: 'auto', ...options })
+      );
+
+      return format.format(
+        Math.round(seconds / (UNIT_SECONDS[unit] ?? 1)),
+        unit
+      );
+    },
+    list: (items, options = {}) =>
+      cached(
+        `list:${locale}:${JSON.stringify(options)}`,
+        () => new Intl.ListFormat(locale, options)
+      ).format(items),
+    plural: (count, forms, options = {}) => {
+      const rule = cached(
+        `plural:${locale}:${JSON.stringify(options)}`,
+        () => new Intl.PluralRules(locale, options)
+      ).select(count);
+
+      return (forms[rule] ?? forms.other).replace(/#/g, number(count));
+    },
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  getRequestLocale,
+  LOCALE_HEADER,
+  matchLocale,
+  normalizeLocale,
+  parseAcceptLanguage,
+} from './locale';
+
+describe('normalizeLocale', () => {
+  test('canonicalizes tags and rejects invalid ones', () => {
+    expect(normalizeLocale('en_us')).toBe('en-US');
+    expect(normalizeLocale(' DE-at ')).toBe('de-AT');
+    expect(normalizeLocale('*')).toBeNull();
+    expect(normalizeLocale('not a locale')).toBeNull();
+    expect(normalizeLocale(42)).toBeNull();
+  });
+});
+
+describe('matchLocale', () => {
+  test('prefers the exact tag, then the bare language, then any region', () => {
+    expect(matchLocale('pt_br', ['pt-PT', 'pt-BR'])).toBe('pt-BR');
+    expect(matchLocale('de-AT', ['en', 'de-DE', 'de'])).toBe('de');
+    expect(matchLocale('de-AT', ['en', 'de-DE'])).toBe('de-DE');
+  });
+
+  test('returns null when no supported locale shares the language', () => {
+    expect(matchLocale('ja', ['en', 'de'])).toBeNull();
+    expect(matchLocale('../../etc', ['en'])).toBeNull();
+  });
+});
+
+describe('parseAcceptLanguage', () => {
+  test('picks the highest quality, keeping header order on ties', () => {
+    expect(parseAcceptLanguage('fr-CH, fr;q=0.9, en;q=0.8')).toBe('fr-CH');
+    expect(parseAcceptLanguage('en;q=0.5, de;q=0.9, fr;q=0.9')).toBe('de');
+    expect(parseAcceptLanguage('*;q=1, es;q=0')).toBeNull();
+  });
+});
+
+describe('getRequestLocale', () => {
+  test('reads the MCP _meta before the headers', () => {
+    const request = new Request('https://app.test', {
+      headers: { 'accept-language': 'fr' },
+    });
+
+    expect(
+      getRequestLocale({ meta: { 'openai/locale': 'de_DE' }, request })
+    ).toBe('de-DE');
+    expect(getRequestLocale({ meta: {}, request })).toBe('fr');
+  });
+
+  test('prefers the locale header and falls back to the default', () => {
+    const headers = new Headers({
+      [LOCALE_HEADER]: 'es-MX',
+      'accept-language': 'fr',
+    });
+
+    expect(getRequestLocale(headers)).toBe('es-MX');
+    expect(getRequestLocale(new Headers(), 'it')).toBe('it');
+  });
+});
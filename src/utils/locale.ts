@@ -0,0 +1,181 @@
+/**
+ * The user's locale, as ChatGPT reports it to tool calls and resource reads
+ *
+ * ChatGPT sends the locale in the request `_meta`; pages fetched for widget
+ * HTML and requests passing through the proxy carry it in `LOCALE_HEADER`,
+ * so server-rendered output matches what `useLocale` returns in the widget.
+ */
+
+import type { McpRequestContext } from '../types/mcp';
+
+/**
+ * Request header carrying the resolved locale to pages and routes
+ */
+export const LOCALE_HEADER = 'x-chatgpt-locale';
+
+/**
+ * Locale used when the request does not specify one
+ */
+export const DEFAULT_LOCALE = 'en-US';
+
+/**
+ * `_meta` keys ChatGPT sends the locale in, newest first
+ */
+const LOCALE_META_KEYS = ['openai/locale', 'webplus/i18n'];
+
+interface HeadersLike {
+  get(name: string): string | null;
+}
+
+export type LocaleSource =
+  | Pick<McpRequestContext, 'meta' | 'request'>
+  | Request
+  | HeadersLike;
+
+/**
+ * Canonicalizes a BCP 47 language tag, or returns `null` when it is invalid
+ *
+ * @example
+ * ```ts
+ * normalizeLocale('en_us'); // 'en-US'
+ * normalizeLocale('*'); // null
+ * ```
+ */
+export function normalizeLocale(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  try {
+    return Intl.getCanonicalLocales(value.trim().replace(/_/g, '-'))[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Picks the supported locale closest to a requested one: the same tag, or
+ * else one of the same language. Returns `null` when none matches.
+ *
+ * @example
+ * ```ts
+ * matchLocale('de-AT', ['en', 'de']); // 'de'
+ * matchLocale('pt_br', ['pt-PT', 'pt-BR']); // 'pt-BR'
+ * matchLocale('ja', ['en', 'de']); // null
+ * ```
+ */
+export function matchLocale(
+  value: unknown,
+  supported: readonly string[]
+): string | null {
+  const locale = normalizeLocale(value);
+
+  if (!locale) {
+    return null;
+  }
+
+  const candidates = supported.map(tag => ({
+    tag,
+    locale: normalizeLocale(tag),
+  }));
+  const language = locale.split('-')[0];
+  const sameLanguage = candidates.filter(
+    candidate => candidate.locale?.split('-')[0] === language
+  );
+
+  return (
+    candidates.find(candidate => candidate.locale === locale)?.tag ??
+    sameLanguage.find(candidate => candidate.locale === language)?.tag ??
+    sameLanguage[0]?.tag ??
+    null
+  );
+}
+
+/**
+ * Reads the locale ChatGPT sent in a request's `_meta`
+ */
+export function getLocaleFromMeta(
+  meta: Record<string, unknown> | null | undefined
+): string | null {
+  return LOCALE_META_KEYS.reduce<string | null>(
+    (locale, key) => locale ?? normalizeLocale(meta?.[key]),
+    null
+  );
+}
+
+/**
+ * Picks the preferred locale of an `Accept-Language` header
+ *
+ * @example
+ * ```ts
+ * parseAcceptLanguage('fr-CH, fr;q=0.9, en;q=0.8'); // 'fr-CH'
+ * ```
+ */
+export function parseAcceptLanguage(
+  header: string | null | undefined
+): string | null {
+  if (!header) {
+    return null;
+  }
+
+  const ranked = header
+    .split(',')
+    .map((part, index) => {
+      const [tag = '', ...params] = part.trim().split(';');
+      const quality = params
+        .map(param => param.trim())
+        .find(param => param.startsWith('q='));
+
+      return {
+        locale: normalizeLocale(tag),
+        quality: quality ? Number(quality.slice(2)) : 1,
+        index,
+      };
+    })
+    .filter(({ locale, quality }) => locale && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  return ranked[0]?.locale ?? null;
+}
+
+function getLocaleFromHeaders(headers: HeadersLike): string | null {
+  return (
+    normalizeLocale(headers.get(LOCALE_HEADER)) ??
+    parseAcceptLanguage(headers.get('accept-language'))
+  );
+}
+
+/**
+ * Resolves the user's locale for a request
+ *
+ * Reads the `_meta` of an MCP request first, then `LOCALE_HEADER`, then the
+ * `Accept-Language` header.
+ *
+ * @example
+ * ```ts
+ * // In a tool handler
+ * handler: async (args, context) => {
+ *   const locale = getRequestLocale(context);
+ *   ...
+ * }
+ *
+ * // In a server component
+ * const locale = getRequestLocale(await headers());
+ * ```
+ */
+export function getRequestLocale(
+  source: LocaleSource,
+  defaultLocale: string = DEFAULT_LOCALE
+): string {
+  if ('meta' in source) {
+    return (
+      getLocaleFromMeta(source.meta) ??
+      getLocaleFromHeaders(source.request.headers) ??
+      defaultLocale
+    );
+  }
+
+  const headers = 'headers' in source ? source.headers : source;
+
+  return getLocaleFromHeaders(headers) ?? defaultLocale;
+}
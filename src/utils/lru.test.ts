@@ -0,0 +1,30 @@
+import { describe, expect, test } from 'bun:test';
+import { createLruCache } from './lru';
+
+describe('createLruCache', () => {
+  test('evicts the least recently used entry beyond its size', () => {
+    const cache = createLruCache<string, number>(2);
+
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.size).toBe(2);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('c')).toBe(3);
+  });
+
+  test('refreshes an entry when it is set again', () => {
+    const cache = createLruCache<string, number>(2);
+
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('a', 10);
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(10);
+    expect(cache.get('b')).toBeUndefined();
+  });
+});
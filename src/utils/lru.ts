@@ -0,0 +1,52 @@
+/**
+ * Size-bounded cache that evicts the least recently used entry
+ */
+
+export interface LruCache<K, V> {
+  get(key: K): V | undefined;
+  set(key: K, value: V): void;
+  delete(key: K): boolean;
+  clear(): void;
+  readonly size: number;
+}
+
+/**
+ * Creates a cache holding at most `maxSize` entries
+ *
+ * Relies on `Map` keeping insertion order: reading an entry moves it to the
+ * end, so the first key is always the least recently used.
+ *
+ * @example
+ * ```ts
+ * const cache = createLruCache<string, Intl.NumberFormat>(100);
+ * ```
+ */
+export function createLruCache<K, V>(maxSize: number): LruCache<K, V> {
+  const entries = new Map<K, V>();
+
+  return {
+    get(key) {
+      if (!entries.has(key)) return undefined;
+
+      const value = entries.get(key) as V;
+
+      entries.delete(key);
+      entries.set(key, value);
+
+      return value;
+    },
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, value);
+
+      if (entries.size > maxSize) {
+        entries.delete(entries.keys().next().value as K);
+      }
+    },
+    delete: key => entries.delete(key),
+    clear: () => entries.clear(),
+    get size() {
+      return entries.size;
+    },
+  };
+}